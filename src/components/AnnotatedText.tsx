@@ -0,0 +1,179 @@
+import { useRef, type ReactNode } from 'react';
+import { FileSearch } from 'lucide-react';
+import { resolveAnnotationRange, type Annotation, type AnnotationRange } from '../lib/annotations';
+
+interface AnnotatedTextProps {
+  content: string;
+  annotations: Annotation[];
+  activeId?: string | null;
+  onActivate?: (id: string | null) => void;
+  /** Called with the passage the reader selects; text can only be selected for annotating when set. */
+  onSelectRange?: (range: AnnotationRange) => void;
+  /** A passage that is being commented on but not yet saved. */
+  pendingRange?: AnnotationRange | null;
+  /** Controls shown under each comment, such as edit and delete. */
+  renderActions?: (annotation: Annotation) => ReactNode;
+  monospace?: boolean;
+}
+
+type Piece = {
+  startIndex: number;
+  endIndex: number;
+  numbers: number[];
+  pending: boolean;
+};
+
+// Every piece is one element with a single text node, so a DOM position maps back to a content offset
+function contentOffset(node: Node, offset: number): number | null {
+  const element = (node.nodeType === Node.TEXT_NODE ? node.parentElement : node as Element)
+    ?.closest<HTMLElement>('[data-start]');
+  if (!element) return null;
+
+  const start = Number(element.dataset.start);
+  if (node.nodeType === Node.TEXT_NODE) return start + offset;
+  return start + (offset > 0 ? element.textContent?.length ?? 0 : 0);
+}
+
+function excerpt(text: string, length = 80) {
+  return text.length > length ? `${text.slice(0, length)}…` : text;
+}
+
+/**
+ * A submission's text with its annotated passages highlighted and numbered,
+ * and the comments listed in a gutter beside it in reading order.
+ */
+export function AnnotatedText({
+  content,
+  annotations,
+  activeId,
+  onActivate,
+  onSelectRange,
+  pendingRange,
+  renderActions,
+  monospace = false,
+}: AnnotatedTextProps) {
+  const textRef = useRef<HTMLDivElement>(null);
+
+  const resolved = annotations
+    .map(annotation => ({ annotation, range: resolveAnnotationRange(annotation, content) }))
+    .sort((a, b) => (a.range?.startIndex ?? Infinity) - (b.range?.startIndex ?? Infinity))
+    .map((entry, index) => ({ ...entry, number: index + 1 }));
+
+  const ranges = [
+    ...resolved.flatMap(entry => (entry.range ? [entry.range] : [])),
+    ...(pendingRange ? [pendingRange] : []),
+  ];
+  const boundaries = [...new Set([0, content.length, ...ranges.flatMap(r => [r.startIndex, r.endIndex])])]
+    .filter(index => index >= 0 && index <= content.length)
+    .sort((a, b) => a - b);
+
+  // Overlapping comments split the text where any of them starts or ends
+  const pieces: Piece[] = boundaries.slice(0, -1).map((startIndex, i) => {
+    const endIndex = boundaries[i + 1];
+    return {
+      startIndex,
+      endIndex,
+      numbers: resolved
+        .filter(entry => entry.range && entry.range.startIndex <= startIndex && entry.range.endIndex >= endIndex)
+        .map(entry => entry.number),
+      pending: Boolean(pendingRange && pendingRange.startIndex <= startIndex && pendingRange.endIndex >= endIndex),
+    };
+  });
+
+  const activeNumber = resolved.find(entry => entry.annotation.id === activeId)?.number;
+
+  const handleMouseUp = () => {
+    if (!onSelectRange) return;
+
+    const selection = window.getSelection();
+    if (!selection || selection.isCollapsed || !textRef.current) return;
+    if (!textRef.current.contains(selection.anchorNode) || !textRef.current.contains(selection.focusNode)) return;
+
+    const anchor = selection.anchorNode && contentOffset(selection.anchorNode, selection.anchorOffset);
+    const focus = selection.focusNode && contentOffset(selection.focusNode, selection.focusOffset);
+    if (anchor === null || focus === null) return;
+
+    let startIndex = Math.min(anchor, focus);
+    let endIndex = Math.max(anchor, focus);
+    while (startIndex < endIndex && /\s/.test(content[startIndex])) startIndex++;
+    while (endIndex > startIndex && /\s/.test(content[endIndex - 1])) endIndex--;
+
+    if (endIndex > startIndex) onSelectRange({ startIndex, endIndex });
+  };
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+      <div
+        ref={textRef}
+        onMouseUp={handleMouseUp}
+        className={`md:col-span-2 bg-gray-50 p-4 rounded-lg text-sm text-gray-800 whitespace-pre-wrap ${
+          monospace ? 'font-mono' : ''
+        }`}
+      >
+        {pieces.map((piece) => {
+          const text = content.slice(piece.startIndex, piece.endIndex);
+          const endingNumbers = resolved
+            .filter(entry => entry.range?.endIndex === piece.endIndex)
+            .map(entry => entry.number);
+
+          if (piece.numbers.length === 0 && !piece.pending) {
+            return <span key={piece.startIndex} data-start={piece.startIndex}>{text}</span>;
+          }
+
+          const active = activeNumber !== undefined && piece.numbers.includes(activeNumber);
+          return (
+            <span key={piece.startIndex}>
+              <mark
+                data-start={piece.startIndex}
+                onClick={() => onActivate?.(resolved.find(entry => entry.number === piece.numbers[0])?.annotation.id ?? null)}
+                className={
+                  piece.pending ? 'bg-blue-200' :
+                  active ? 'bg-amber-300' :
+                  piece.numbers.length > 1 ? 'bg-amber-200' : 'bg-amber-100'
+                }
+              >
+                {text}
+              </mark>
+              {endingNumbers.length > 0 && (
+                <sup className="text-xs text-amber-700 font-medium select-none">[{endingNumbers.join(',')}]</sup>
+              )}
+            </span>
+          );
+        })}
+      </div>
+
+      <div className="space-y-2">
+        {resolved.length === 0 && (
+          <p className="text-sm text-gray-500">
+            {onSelectRange ? 'Select a passage of the text to comment on it.' : 'No comments on the text.'}
+          </p>
+        )}
+        {resolved.map(({ annotation, range, number }) => (
+          <div
+            key={annotation.id}
+            onClick={() => onActivate?.(annotation.id === activeId ? null : annotation.id)}
+            className={`border rounded-lg p-3 text-sm cursor-pointer ${
+              annotation.id === activeId ? 'border-amber-400 bg-amber-50' : 'border-gray-200 bg-white'
+            }`}
+          >
+            <p className="text-xs text-gray-500 mb-1">
+              <span className="font-medium text-amber-700">[{number}]</span>
+              {annotation.author?.full_name && ` ${annotation.author.full_name}`}
+            </p>
+            <p className="text-xs italic text-gray-600 mb-1">
+              {range ? `“${excerpt(annotation.quote)}”` : `The commented passage (“${excerpt(annotation.quote)}”) is no longer in the text.`}
+            </p>
+            <p className="text-gray-900 whitespace-pre-wrap">{annotation.comment}</p>
+            {annotation.matched_segment && (
+              <p className="flex items-center gap-1 text-xs text-orange-700 mt-1">
+                <FileSearch className="w-3 h-3" />
+                Refers to a passage matched by the plagiarism check
+              </p>
+            )}
+            {renderActions?.(annotation)}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
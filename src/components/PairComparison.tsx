@@ -0,0 +1,177 @@
+import { useEffect, useRef, useState } from 'react';
+import { supabase } from '../lib/supabase';
+import { getSourceText, type MatchedSegment } from '../lib/plagiarism';
+import { splitByRanges } from '../lib/highlight';
+import type { MatchLocation } from '../lib/submissionText';
+
+type Side = 'current' | 'matched';
+
+/** One document of the checked submission set against the document it matched. */
+type DocumentPair = {
+  current?: MatchLocation;
+  matched?: MatchLocation;
+  currentText: string;
+  matchedText: string;
+  matches: { id: number; segment: MatchedSegment }[];
+};
+
+// Each match gets its own color in both panes, so pairs of passages can be told apart
+const MATCH_COLORS = ['bg-yellow-200', 'bg-sky-200', 'bg-pink-200', 'bg-lime-200', 'bg-orange-200', 'bg-violet-200'];
+
+interface PairComparisonProps {
+  submissionId: string;
+  /** Exactly one of these identifies the other side. */
+  comparedSubmissionId?: string;
+  comparedReferenceId?: string;
+  currentLabel: string;
+  comparedLabel: string;
+  matchedContent: MatchedSegment[];
+  monospace?: boolean;
+}
+
+function locationLabel(location: MatchLocation | undefined, fallback: string) {
+  return location ? `${location.fileName}, page ${location.page}` : fallback;
+}
+
+export function PairComparison({
+  submissionId,
+  comparedSubmissionId,
+  comparedReferenceId,
+  currentLabel,
+  comparedLabel,
+  matchedContent,
+  monospace = false,
+}: PairComparisonProps) {
+  const [documents, setDocuments] = useState<DocumentPair[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [activeMatch, setActiveMatch] = useState<number | null>(null);
+  const anchors = useRef(new Map<string, HTMLElement>());
+
+  useEffect(() => {
+    loadDocuments();
+  }, [submissionId, comparedSubmissionId, comparedReferenceId, matchedContent]);
+
+  const loadDocuments = async () => {
+    setLoading(true);
+
+    const texts = new Map<string, Promise<string>>();
+    const loadText = (key: string, source: { submissionId?: string; referenceId?: string; fileId?: string }) => {
+      if (!texts.has(key)) texts.set(key, getSourceText(supabase, source));
+      return texts.get(key)!;
+    };
+
+    const pairs = new Map<string, DocumentPair>();
+    const sorted = [...matchedContent].sort((a, b) => a.startIndex - b.startIndex);
+
+    for (const [id, segment] of sorted.entries()) {
+      const key = `${segment.file?.fileId ?? 'content'}:${segment.matchedFile?.fileId ?? 'content'}`;
+      let pair = pairs.get(key);
+
+      if (!pair) {
+        const currentText = segment.file
+          ? await loadText(`file:${segment.file.fileId}`, { fileId: segment.file.fileId })
+          : await loadText('current', { submissionId });
+        const matchedText = segment.matchedFile
+          ? await loadText(`file:${segment.matchedFile.fileId}`, { fileId: segment.matchedFile.fileId })
+          : await loadText('compared', { submissionId: comparedSubmissionId, referenceId: comparedReferenceId });
+
+        pair = { current: segment.file, matched: segment.matchedFile, currentText, matchedText, matches: [] };
+        pairs.set(key, pair);
+      }
+
+      pair.matches.push({ id, segment });
+    }
+
+    anchors.current.clear();
+    setDocuments([...pairs.values()]);
+    setLoading(false);
+  };
+
+  const jumpTo = (side: Side, id: number) => {
+    setActiveMatch(id);
+    anchors.current.get(`${side}:${id}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  };
+
+  const renderPane = (pair: DocumentPair, side: Side) => {
+    const text = side === 'current' ? pair.currentText : pair.matchedText;
+    const ranges = pair.matches.map(({ id, segment }) => (
+      side === 'current'
+        ? { startIndex: segment.startIndex, endIndex: segment.endIndex, data: id }
+        : { startIndex: segment.matchedStartIndex, endIndex: segment.matchedEndIndex, data: id }
+    ));
+    const otherSide: Side = side === 'current' ? 'matched' : 'current';
+    const anchored = new Set<number>();
+
+    return splitByRanges(text, ranges).map((piece, index) => {
+      if (piece.data === null) {
+        return <span key={index}>{piece.text}</span>;
+      }
+
+      const id = piece.data;
+      const isAnchor = !anchored.has(id);
+      anchored.add(id);
+
+      return (
+        <mark
+          key={index}
+          ref={isAnchor ? (element) => {
+            if (element) anchors.current.set(`${side}:${id}`, element);
+          } : undefined}
+          onMouseEnter={() => setActiveMatch(id)}
+          onMouseLeave={() => setActiveMatch(null)}
+          onClick={() => jumpTo(otherSide, id)}
+          className={`${MATCH_COLORS[id % MATCH_COLORS.length]} rounded-sm cursor-pointer ${
+            activeMatch === id ? 'ring-2 ring-blue-500' : ''
+          }`}
+          title="Click to show the matching passage on the other side"
+        >
+          {piece.text}
+        </mark>
+      );
+    });
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <div className="w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  if (documents.length === 0) {
+    return <p className="text-gray-500 text-center py-8">These documents have no matched passages.</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      {documents.map((pair, index) => (
+        <div key={index} className="border border-gray-200 rounded-lg overflow-hidden">
+          <div className="grid grid-cols-2 bg-gray-100 text-xs font-medium text-gray-700">
+            <div className="px-3 py-2">
+              {currentLabel} · {locationLabel(pair.current, 'Typed answer')}
+            </div>
+            <div className="px-3 py-2 border-l border-gray-200">
+              {comparedLabel} · {locationLabel(pair.matched, comparedReferenceId ? 'Document' : 'Typed answer')}
+            </div>
+          </div>
+          <div className="grid grid-cols-2">
+            {(['current', 'matched'] as const).map((side) => (
+              <div
+                key={side}
+                className={`max-h-[60vh] overflow-y-auto p-3 text-sm text-gray-800 whitespace-pre-wrap ${
+                  monospace ? 'font-mono text-xs' : ''
+                } ${side === 'matched' ? 'border-l border-gray-200' : ''}`}
+              >
+                {renderPane(pair, side)}
+              </div>
+            ))}
+          </div>
+        </div>
+      ))}
+      <p className="text-xs text-gray-600">
+        Matching passages share a color in both panes. Click a passage to scroll to its counterpart.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+import { useEffect, useState } from 'react';
+import {
+  CASE_STATUS_OPTIONS,
+  getCaseHistory,
+  getCaseStatusLabel,
+  reviewCase,
+  type CaseStatus,
+} from '../lib/plagiarismCases';
+
+const CASE_STATUS_COLORS: Record<CaseStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  dismissed: 'bg-gray-100 text-gray-700',
+  confirmed: 'bg-red-100 text-red-700',
+  escalated: 'bg-purple-100 text-purple-700',
+};
+
+export function CaseStatusBadge({ status }: { status: CaseStatus }) {
+  return (
+    <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${CASE_STATUS_COLORS[status]}`}>
+      {getCaseStatusLabel(status)}
+    </span>
+  );
+}
+
+interface PlagiarismCaseReviewProps {
+  caseId: string;
+  status: CaseStatus;
+  onReviewed: (status: CaseStatus) => void;
+}
+
+export function PlagiarismCaseReview({ caseId, status, onReviewed }: PlagiarismCaseReviewProps) {
+  const [newStatus, setNewStatus] = useState<CaseStatus>(status);
+  const [note, setNote] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [history, setHistory] = useState<Awaited<ReturnType<typeof getCaseHistory>>>([]);
+
+  useEffect(() => {
+    loadHistory();
+  }, [caseId]);
+
+  const loadHistory = async () => {
+    setHistory(await getCaseHistory(caseId));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (newStatus === status && !note.trim()) {
+      setError('Change the status or add a note.');
+      return;
+    }
+
+    setSaving(true);
+    const { error: reviewError } = await reviewCase(caseId, newStatus, note);
+    setSaving(false);
+
+    if (reviewError) {
+      setError(reviewError);
+      return;
+    }
+
+    setNote('');
+    await loadHistory();
+    onReviewed(newStatus);
+  };
+
+  return (
+    <div className="mt-3 border-t border-gray-200 pt-3 space-y-3">
+      <form onSubmit={handleSubmit} className="space-y-2">
+        <div className="flex items-center gap-2">
+          <select
+            value={newStatus}
+            onChange={(e) => setNewStatus(e.target.value as CaseStatus)}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            {CASE_STATUS_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+          <button
+            type="submit"
+            disabled={saving}
+            className="bg-blue-600 text-white px-3 py-2 rounded-lg text-sm hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : 'Save Decision'}
+          </button>
+        </div>
+        <textarea
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          rows={2}
+          placeholder="Reviewer note (why this decision was made)"
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        />
+        {error && <p className="text-sm text-red-600">{error}</p>}
+      </form>
+
+      {history.length > 0 && (
+        <div>
+          <h6 className="text-xs font-semibold text-gray-700 mb-1">History</h6>
+          <ul className="space-y-1">
+            {history.map((event) => (
+              <li key={event.id} className="text-xs text-gray-600">
+                <span className="text-gray-500">{new Date(event.created_at).toLocaleString()}</span>
+                {' · '}
+                {event.actor?.full_name || 'Unknown reviewer'}
+                {event.from_status !== event.to_status
+                  ? `: ${getCaseStatusLabel(event.from_status as CaseStatus)} → ${getCaseStatusLabel(event.to_status as CaseStatus)}`
+                  : ': added a note'}
+                {event.note && <span className="block text-gray-800 whitespace-pre-wrap">{event.note}</span>}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,92 +1,385 @@
 import { useEffect, useState } from 'react';
-import { AlertTriangle, CheckCircle, FileSearch } from 'lucide-react';
-import { checkPlagiarism, getPlagiarismReports } from '../lib/plagiarism';
+import { AlertTriangle, CheckCircle, Clock, Columns2, Download, FileSearch, Quote, Shuffle } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { findQuotations } from '../lib/citations';
+import { splitByRanges, type HighlightRange } from '../lib/highlight';
+import { downloadEvidenceReport, gatherEvidence } from '../lib/evidenceReport';
+import {
+  checkPlagiarism,
+  COMPARISON_SCOPE_OPTIONS,
+  getPlagiarismReports,
+  getPlagiarismRuns,
+  getSourceText,
+  type ComparisonScope,
+  type ExcludedSegment,
+  type MatchedSegment,
+  type ParaphrasedSegment,
+  type PlagiarismRun,
+  type PlagiarismStatus,
+} from '../lib/plagiarism';
+import {
+  getAssignmentSettings,
+  getDefaultSettings,
+  getSeverity,
+  type PlagiarismSettings,
+  type Severity,
+} from '../lib/plagiarismSettings';
+import { PairComparison } from './PairComparison';
+import { CaseStatusBadge, PlagiarismCaseReview } from './PlagiarismCaseReview';
+
+type FileMatch = MatchedSegment & { sourceName?: string };
+
+type HighlightKind = 'match' | 'cited' | 'excluded' | 'paraphrase';
+
+const SEVERITY_STYLES: Record<Severity, { text: string; panel: string; summary: string }> = {
+  low: {
+    text: 'text-green-600',
+    panel: 'bg-green-50 border-green-200',
+    summary: 'Low similarity - looks good!',
+  },
+  moderate: {
+    text: 'text-yellow-600',
+    panel: 'bg-yellow-50 border-yellow-200',
+    summary: 'Moderate similarity - review recommended',
+  },
+  high: {
+    text: 'text-orange-600',
+    panel: 'bg-orange-50 border-orange-200',
+    summary: 'High similarity - investigation needed',
+  },
+  very_high: {
+    text: 'text-red-600',
+    panel: 'bg-red-50 border-red-200',
+    summary: 'Very high similarity - significant concern',
+  },
+};
+
+type PlagiarismReportRow = Awaited<ReturnType<typeof getPlagiarismReports>>[number];
+
+/** One matched source's uncited overlap in the shown run and in the run it is compared with. */
+type RunDifference = {
+  sourceName: string;
+  score?: number;
+  comparedScore?: number;
+};
+
+function reportSourceKey(report: PlagiarismReportRow) {
+  return report.compared_reference_id
+    ? `reference:${report.compared_reference_id}`
+    : `submission:${report.compared_submission_id}`;
+}
+
+function reportSourceName(report: PlagiarismReportRow) {
+  return report.compared_reference?.title
+    || report.compared_submission?.student?.full_name
+    || 'Unknown';
+}
+
+function runLabel(run: PlagiarismRun, index: number) {
+  const scope = COMPARISON_SCOPE_OPTIONS.find(o => o.value === run.comparison_scope)?.label;
+  return `${new Date(run.created_at).toLocaleString()} · ${scope} · ${run.algorithm_version}${index === 0 ? ' (latest)' : ''}`;
+}
+
+/** A likely paraphrased passage with the text of the source it restates. */
+type ParaphrasedPassage = ParaphrasedSegment & {
+  sourceName: string;
+  matchedText: string;
+};
+
+// Verbatim matches take precedence, so a paraphrase highlight only covers what they leave uncovered
+function uncoveredParts(segment: { startIndex: number; endIndex: number }, covered: HighlightRange<HighlightKind>[]) {
+  const parts: { startIndex: number; endIndex: number }[] = [];
+  let start = segment.startIndex;
+
+  for (const range of [...covered].sort((a, b) => a.startIndex - b.startIndex)) {
+    if (range.endIndex <= start || range.startIndex >= segment.endIndex) continue;
+    if (range.startIndex > start) parts.push({ startIndex: start, endIndex: range.startIndex });
+    start = Math.max(start, range.endIndex);
+  }
+  if (start < segment.endIndex) parts.push({ startIndex: start, endIndex: segment.endIndex });
+
+  return parts;
+}
+
+type CodeExcerpt = {
+  firstLine: number;
+  lines: string[];
+};
+
+type MatchedRegion = {
+  sourceName: string;
+  current: CodeExcerpt;
+  matched: CodeExcerpt;
+};
+
+// Widens a character range to whole lines so code is shown with its line numbers
+function excerptLines(text: string, start: number, end: number): CodeExcerpt {
+  const lineStart = text.lastIndexOf('\n', start - 1) + 1;
+  const lineEnd = text.indexOf('\n', end);
+
+  return {
+    firstLine: text.slice(0, lineStart).split('\n').length,
+    lines: text.slice(lineStart, lineEnd === -1 ? undefined : lineEnd).split('\n'),
+  };
+}
 
 interface PlagiarismReportProps {
   submissionId: string;
   assignmentId: string;
   submissionContent: string;
+  checkMode?: 'text' | 'code';
 }
 
-export function PlagiarismReport({ submissionId, assignmentId, submissionContent }: PlagiarismReportProps) {
+export function PlagiarismReport({
+  submissionId,
+  assignmentId,
+  submissionContent,
+  checkMode = 'text',
+}: PlagiarismReportProps) {
   const [loading, setLoading] = useState(false);
   const [checking, setChecking] = useState(false);
   const [reports, setReports] = useState<any[]>([]);
   const [overallScore, setOverallScore] = useState<number | null>(null);
-  const [highlightedContent, setHighlightedContent] = useState('');
+  const [citedScore, setCitedScore] = useState(0);
+  const [paraphraseScore, setParaphraseScore] = useState(0);
+  const [highlights, setHighlights] = useState<HighlightRange<HighlightKind>[]>([]);
+  const [fileMatches, setFileMatches] = useState<FileMatch[]>([]);
+  const [scope, setScope] = useState<ComparisonScope>('assignment');
+  const [matchedRegions, setMatchedRegions] = useState<MatchedRegion[]>([]);
+  const [paraphrasedPassages, setParaphrasedPassages] = useState<ParaphrasedPassage[]>([]);
+  const [comparedReport, setComparedReport] = useState<PlagiarismReportRow | null>(null);
+  const [reviewedReport, setReviewedReport] = useState<string | null>(null);
+  const [runs, setRuns] = useState<PlagiarismRun[]>([]);
+  const [selectedRunId, setSelectedRunId] = useState<string | null>(null);
+  const [comparedRunId, setComparedRunId] = useState<string | null>(null);
+  const [runDifferences, setRunDifferences] = useState<RunDifference[]>([]);
+  const [exporting, setExporting] = useState(false);
+  const [settings, setSettings] = useState<PlagiarismSettings>(getDefaultSettings(checkMode));
+  const [status, setStatus] = useState<{ state: PlagiarismStatus; checkedAt: string | null } | null>(null);
 
   useEffect(() => {
-    loadReports();
+    setComparedRunId(null);
+    loadReports(null);
   }, [submissionId]);
 
-  const loadReports = async () => {
+  useEffect(() => {
+    getAssignmentSettings(supabase, assignmentId).then(setSettings);
+  }, [assignmentId]);
+
+  useEffect(() => {
+    loadRunDifferences();
+  }, [comparedRunId, reports]);
+
+  // `runId` is null for the latest run
+  const loadReports = async (runId: string | null = selectedRunId) => {
     setLoading(true);
-    const data = await getPlagiarismReports(submissionId);
+    setSelectedRunId(runId);
+    const runData = await getPlagiarismRuns(supabase, submissionId);
+    setRuns(runData);
+
+    const data = await getPlagiarismReports(supabase, submissionId, runId ?? undefined);
     setReports(data);
+    setOverallScore(null);
+    setCitedScore(0);
+    setParaphraseScore(0);
+    setHighlights([]);
+    setFileMatches([]);
+    setMatchedRegions([]);
+    setParaphrasedPassages([]);
+
+    const { data: submission } = await supabase
+      .from('submissions')
+      .select('plagiarism_status, plagiarism_checked_at')
+      .eq('id', submissionId)
+      .single();
+    if (submission) {
+      setStatus({ state: submission.plagiarism_status, checkedAt: submission.plagiarism_checked_at });
+    }
+
+    // The run's scores cover every source at once, so text matching several sources counts once
+    const shownRun = runId ? runData.find((r) => r.id === runId) : runData[0];
+    if (shownRun) {
+      // Cited quotations are legitimate use, so only uncited overlap drives the severity
+      setOverallScore(shownRun.overall_similarity - shownRun.cited_overlap);
+      setCitedScore(shownRun.cited_overlap);
+      setParaphraseScore(shownRun.paraphrase_overlap);
+    }
+
+    // A pair dismissed after the check still has its report until the next run; it is no longer highlighted
+    const scored = data.filter((r) => r.review_case?.status !== 'dismissed');
 
     if (data.length > 0) {
-      const maxScore = Math.max(...data.map((r: any) => r.similarity_score));
-      setOverallScore(maxScore);
-      highlightMatches(data);
+      highlightMatches(scored);
+      if (checkMode === 'code') await loadMatchedRegions(scored);
+      else await loadParaphrasedPassages(scored);
     }
 
     setLoading(false);
   };
 
+  const loadRunDifferences = async () => {
+    if (!comparedRunId) {
+      setRunDifferences([]);
+      return;
+    }
+
+    const comparedReports = await getPlagiarismReports(supabase, submissionId, comparedRunId);
+    const differences = new Map<string, RunDifference>();
+
+    for (const report of reports as PlagiarismReportRow[]) {
+      differences.set(reportSourceKey(report), {
+        sourceName: reportSourceName(report),
+        score: report.similarity_score - report.cited_score,
+      });
+    }
+    for (const report of comparedReports) {
+      const key = reportSourceKey(report);
+      differences.set(key, {
+        sourceName: reportSourceName(report),
+        ...differences.get(key),
+        comparedScore: report.similarity_score - report.cited_score,
+      });
+    }
+
+    setRunDifferences(
+      [...differences.values()].sort((a, b) => (b.score ?? b.comparedScore ?? 0) - (a.score ?? a.comparedScore ?? 0))
+    );
+  };
+
+  const loadMatchedRegions = async (reportData: Awaited<ReturnType<typeof getPlagiarismReports>>) => {
+    const texts = new Map<string, Promise<string>>();
+    const loadText = (key: string, load: () => Promise<string>) => {
+      if (!texts.has(key)) texts.set(key, load());
+      return texts.get(key)!;
+    };
+
+    const regions: MatchedRegion[] = [];
+
+    for (const report of reportData) {
+      const sourceName = reportSourceName(report);
+
+      for (const match of report.matched_content as MatchedSegment[]) {
+        const currentText = match.file
+          ? await loadText(`file:${match.file.fileId}`, () => getSourceText(supabase, { fileId: match.file?.fileId }))
+          : submissionContent;
+
+        const matchedSource = {
+          referenceId: match.matchedReferenceId,
+          fileId: match.matchedFile?.fileId,
+          submissionId: match.matchedSubmissionId,
+        };
+        const matchedText = await loadText(
+          JSON.stringify(matchedSource),
+          () => getSourceText(supabase, matchedSource)
+        );
+
+        regions.push({
+          sourceName,
+          current: excerptLines(currentText, match.startIndex, match.endIndex),
+          matched: excerptLines(matchedText, match.matchedStartIndex, match.matchedEndIndex),
+        });
+      }
+    }
+
+    setMatchedRegions(regions);
+  };
+
+  const loadParaphrasedPassages = async (reportData: Awaited<ReturnType<typeof getPlagiarismReports>>) => {
+    const texts = new Map<string, Promise<string>>();
+    const passages: ParaphrasedPassage[] = [];
+
+    for (const report of reportData) {
+      for (const passage of report.paraphrased_content as ParaphrasedSegment[]) {
+        const matchedSource = {
+          referenceId: passage.matchedReferenceId,
+          fileId: passage.matchedFile?.fileId,
+          submissionId: passage.matchedSubmissionId,
+        };
+        const key = JSON.stringify(matchedSource);
+        if (!texts.has(key)) texts.set(key, getSourceText(supabase, matchedSource));
+        const matchedText = await texts.get(key)!;
+
+        passages.push({
+          ...passage,
+          sourceName: reportSourceName(report),
+          matchedText: matchedText.slice(passage.matchedStartIndex, passage.matchedEndIndex),
+        });
+      }
+    }
+
+    setParaphrasedPassages(passages.sort((a, b) => b.similarity - a.similarity));
+  };
+
   const runPlagiarismCheck = async () => {
     setChecking(true);
-    const result = await checkPlagiarism(submissionId, assignmentId);
+    const result = await checkPlagiarism(supabase, submissionId, assignmentId, scope);
 
-    if (result.overallSimilarity !== undefined) {
-      setOverallScore(result.overallSimilarity);
+    if (result.uncitedOverlap !== undefined) {
+      setOverallScore(result.uncitedOverlap);
+      setCitedScore(result.citedOverlap);
     }
 
-    await loadReports();
+    await loadReports(null);
     setChecking(false);
   };
 
+  const exportEvidence = async () => {
+    setExporting(true);
+    const evidence = await gatherEvidence(submissionId, selectedRunId ?? undefined);
+    if (evidence) downloadEvidenceReport(evidence);
+    setExporting(false);
+  };
+
   const highlightMatches = (reportData: any[]) => {
-    let content = submissionContent;
-    const segments: Array<{ start: number; end: number }> = [];
+    const ranges: HighlightRange<HighlightKind>[] = [];
+    const citedQuotations = findQuotations(submissionContent).filter(q => q.cited);
+    const matchesInFiles: FileMatch[] = [];
+
+    // Every report of a check carries the same excluded spans
+    const excluded = (reportData[0]?.excluded_content || []) as ExcludedSegment[];
+    excluded.forEach((span) => {
+      if (!span.file) ranges.push({ startIndex: span.startIndex, endIndex: span.endIndex, data: 'excluded' });
+    });
 
     reportData.forEach((report: any) => {
       if (report.matched_content && Array.isArray(report.matched_content)) {
-        report.matched_content.forEach((match: any) => {
-          if (match.startIndex !== undefined && match.endIndex !== undefined) {
-            segments.push({ start: match.startIndex, end: match.endIndex });
+        report.matched_content.forEach((match: MatchedSegment) => {
+          if (match.file) {
+            matchesInFiles.push({
+              ...match,
+              sourceName: report.compared_reference?.title || report.compared_submission?.student?.full_name,
+            });
+          } else if (match.startIndex !== undefined && match.endIndex !== undefined) {
+            // Split the match so the parts inside cited quotations can be shown differently
+            let start = match.startIndex;
+            for (const quotation of citedQuotations) {
+              if (quotation.endIndex <= start || quotation.startIndex >= match.endIndex) continue;
+              if (quotation.startIndex > start) ranges.push({ startIndex: start, endIndex: quotation.startIndex, data: 'match' });
+              ranges.push({
+                startIndex: Math.max(start, quotation.startIndex),
+                endIndex: Math.min(match.endIndex, quotation.endIndex),
+                data: 'cited',
+              });
+              start = Math.min(match.endIndex, quotation.endIndex);
+            }
+            if (start < match.endIndex) ranges.push({ startIndex: start, endIndex: match.endIndex, data: 'match' });
           }
         });
       }
     });
 
-    segments.sort((a, b) => a.start - b.start);
-
-    let highlighted = '';
-    let lastIndex = 0;
-
-    segments.forEach((segment) => {
-      highlighted += content.substring(lastIndex, segment.start);
-      highlighted += `<mark class="bg-yellow-200 px-1">${content.substring(segment.start, segment.end)}</mark>`;
-      lastIndex = segment.end;
-    });
-
-    highlighted += content.substring(lastIndex);
-    setHighlightedContent(highlighted);
-  };
+    for (const report of reportData as PlagiarismReportRow[]) {
+      for (const passage of report.paraphrased_content as ParaphrasedSegment[]) {
+        if (passage.file) continue;
+        ranges.push(...uncoveredParts(passage, ranges).map(part => ({ ...part, data: 'paraphrase' as const })));
+      }
+    }
 
-  const getSeverityColor = (score: number) => {
-    if (score < 20) return 'text-green-600';
-    if (score < 40) return 'text-yellow-600';
-    if (score < 60) return 'text-orange-600';
-    return 'text-red-600';
+    setFileMatches(matchesInFiles);
+    setHighlights(ranges);
   };
 
-  const getSeverityBg = (score: number) => {
-    if (score < 20) return 'bg-green-50 border-green-200';
-    if (score < 40) return 'bg-yellow-50 border-yellow-200';
-    if (score < 60) return 'bg-orange-50 border-orange-200';
-    return 'bg-red-50 border-red-200';
-  };
+  const getSeverityStyle = (score: number) => SEVERITY_STYLES[getSeverity(score, settings.bands)];
 
   if (loading) {
     return (
@@ -103,68 +396,270 @@ export function PlagiarismReport({ submissionId, assignmentId, submissionContent
           <FileSearch className="w-5 h-5" />
           Plagiarism Check
         </h3>
-        <button
-          onClick={runPlagiarismCheck}
-          className="flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
-          disabled={checking}
-        >
-          {checking ? (
+        <div className="flex items-center gap-2">
+          {runs.length > 0 && (
+            <button
+              onClick={exportEvidence}
+              className="flex items-center gap-2 border border-gray-300 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+              disabled={exporting}
+              title="Download a printable report of the shown run for an academic-integrity review"
+            >
+              <Download className="w-4 h-4" />
+              {exporting ? 'Exporting...' : 'Export Evidence'}
+            </button>
+          )}
+          <select
+            value={scope}
+            onChange={(e) => setScope(e.target.value as ComparisonScope)}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            disabled={checking}
+          >
+            {COMPARISON_SCOPE_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+          <button
+            onClick={runPlagiarismCheck}
+            className="flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+            disabled={checking}
+          >
+            {checking ? (
+              <>
+                <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
+                Checking...
+              </>
+            ) : (
+              <>
+                <FileSearch className="w-4 h-4" />
+                Run Check
+              </>
+            )}
+          </button>
+        </div>
+      </div>
+
+      {status && status.state !== 'not_checked' && (
+        <p className="flex items-center gap-2 text-sm text-gray-600">
+          {(status.state === 'queued' || status.state === 'running') && (
             <>
-              <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
-              Checking...
+              <Clock className="w-4 h-4" />
+              An automatic check is {status.state === 'queued' ? 'queued' : 'running'}; reopen this submission to see its results.
             </>
-          ) : (
+          )}
+          {status.state === 'completed' && status.checkedAt && (
             <>
-              <FileSearch className="w-4 h-4" />
-              Run Check
+              <CheckCircle className="w-4 h-4 text-green-600" />
+              Last checked {new Date(status.checkedAt).toLocaleString()}
             </>
           )}
-        </button>
-      </div>
+          {status.state === 'failed' && (
+            <>
+              <AlertTriangle className="w-4 h-4 text-orange-600" />
+              The automatic check failed. Run the check manually to retry.
+            </>
+          )}
+        </p>
+      )}
+
+      {runs.length > 0 && (
+        <div className="flex flex-wrap items-center gap-3 text-sm">
+          <label htmlFor="plagiarism-run" className="font-medium text-gray-700">Run</label>
+          <select
+            id="plagiarism-run"
+            value={selectedRunId ?? runs[0].id}
+            onChange={(e) => {
+              if (e.target.value === comparedRunId) setComparedRunId(null);
+              loadReports(e.target.value === runs[0].id ? null : e.target.value);
+            }}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            {runs.map((run, index) => (
+              <option key={run.id} value={run.id}>{runLabel(run, index)}</option>
+            ))}
+          </select>
+          {runs.length > 1 && (
+            <>
+              <label htmlFor="compared-run" className="font-medium text-gray-700">Compare with</label>
+              <select
+                id="compared-run"
+                value={comparedRunId ?? ''}
+                onChange={(e) => setComparedRunId(e.target.value || null)}
+                className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="">No comparison</option>
+                {runs.map((run, index) => (
+                  run.id !== (selectedRunId ?? runs[0].id) && (
+                    <option key={run.id} value={run.id}>{runLabel(run, index)}</option>
+                  )
+                ))}
+              </select>
+            </>
+          )}
+        </div>
+      )}
+
+      {comparedRunId && (
+        <div>
+          <h4 className="font-semibold text-gray-900 mb-2">Changes Between Runs</h4>
+          {runDifferences.length === 0 ? (
+            <p className="text-sm text-gray-500">Neither run matched any source.</p>
+          ) : (
+            <table className="w-full text-sm border border-gray-200 rounded-lg">
+              <thead className="bg-gray-50 text-gray-700">
+                <tr>
+                  <th className="text-left px-3 py-2 font-medium">Source</th>
+                  <th className="text-right px-3 py-2 font-medium">Shown run</th>
+                  <th className="text-right px-3 py-2 font-medium">Compared run</th>
+                  <th className="text-right px-3 py-2 font-medium">Change</th>
+                </tr>
+              </thead>
+              <tbody>
+                {runDifferences.map((difference, index) => {
+                  const change = (difference.score ?? 0) - (difference.comparedScore ?? 0);
+                  return (
+                    <tr key={index} className="border-t border-gray-200">
+                      <td className="px-3 py-2 text-gray-900">{difference.sourceName}</td>
+                      <td className="px-3 py-2 text-right">
+                        {difference.score !== undefined ? `${difference.score.toFixed(1)}%` : 'Not matched'}
+                      </td>
+                      <td className="px-3 py-2 text-right">
+                        {difference.comparedScore !== undefined ? `${difference.comparedScore.toFixed(1)}%` : 'Not matched'}
+                      </td>
+                      <td className={`px-3 py-2 text-right font-medium ${
+                        change > 0 ? 'text-red-600' : change < 0 ? 'text-green-600' : 'text-gray-500'
+                      }`}>
+                        {change > 0 ? '+' : ''}{change.toFixed(1)}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
 
       {overallScore !== null && (
-        <div className={`border rounded-lg p-6 ${getSeverityBg(overallScore)}`}>
+        <div className={`border rounded-lg p-6 ${getSeverityStyle(overallScore).panel}`}>
           <div className="flex items-center justify-between mb-4">
             <div className="flex items-center gap-3">
-              {overallScore < 20 ? (
+              {getSeverity(overallScore, settings.bands) === 'low' ? (
                 <CheckCircle className="w-8 h-8 text-green-600" />
               ) : (
                 <AlertTriangle className="w-8 h-8 text-orange-600" />
               )}
               <div>
-                <h4 className="font-semibold text-gray-900">Overall Similarity Score</h4>
+                <h4 className="font-semibold text-gray-900">Uncited Overlap</h4>
                 <p className="text-sm text-gray-600">
-                  {overallScore < 20 && 'Low similarity - looks good!'}
-                  {overallScore >= 20 && overallScore < 40 && 'Moderate similarity - review recommended'}
-                  {overallScore >= 40 && overallScore < 60 && 'High similarity - investigation needed'}
-                  {overallScore >= 60 && 'Very high similarity - significant concern'}
+                  {getSeverityStyle(overallScore).summary}
                 </p>
               </div>
             </div>
-            <div className={`text-4xl font-bold ${getSeverityColor(overallScore)}`}>
+            <div className={`text-4xl font-bold ${getSeverityStyle(overallScore).text}`}>
               {overallScore.toFixed(1)}%
             </div>
           </div>
 
+          {citedScore > 0 && (
+            <p className="flex items-center gap-2 text-sm text-gray-700">
+              <Quote className="w-4 h-4 text-green-600" />
+              Cited overlap: {citedScore.toFixed(1)}% appears in quotations attributed with a citation and is not counted above
+            </p>
+          )}
+
+          {paraphraseScore > 0 && (
+            <p className="flex items-center gap-2 text-sm text-gray-700 mt-1">
+              <Shuffle className="w-4 h-4 text-purple-600" />
+              Likely paraphrased: {paraphraseScore.toFixed(1)}% restates a source in other words and is not counted above
+            </p>
+          )}
+
           {reports.length > 0 && (
             <div className="mt-4">
-              <h5 className="font-medium text-gray-900 mb-2">Matched Submissions:</h5>
+              <h5 className="font-medium text-gray-900 mb-2">Matched Sources:</h5>
               <div className="space-y-2">
                 {reports.map((report: any, index: number) => (
-                  <div key={index} className="bg-white border border-gray-200 rounded p-3">
+                  <div
+                    key={index}
+                    className={`bg-white border border-gray-200 rounded p-3 ${
+                      report.review_case?.status === 'dismissed' ? 'opacity-60' : ''
+                    }`}
+                  >
                     <div className="flex items-center justify-between">
                       <div>
-                        <p className="text-sm font-medium text-gray-900">
-                          Student: {report.compared_submission?.student?.full_name || 'Unknown'}
-                        </p>
-                        <p className="text-xs text-gray-600">
-                          {report.compared_submission?.student?.email || ''}
+                        {report.review_case && (
+                          <div className="mb-1">
+                            <CaseStatusBadge status={report.review_case.status} />
+                          </div>
+                        )}
+                        {report.compared_reference ? (
+                          <>
+                            <p className="text-sm font-medium text-gray-900">
+                              Reference: {report.compared_reference.title}
+                            </p>
+                            {report.compared_reference.tags.length > 0 && (
+                              <p className="text-xs text-gray-600">
+                                {report.compared_reference.tags.join(', ')}
+                              </p>
+                            )}
+                          </>
+                        ) : (
+                          <>
+                            <p className="text-sm font-medium text-gray-900">
+                              Student: {report.compared_submission?.student?.full_name || 'Unknown'}
+                            </p>
+                            <p className="text-xs text-gray-600">
+                              {report.compared_submission?.student?.email || ''}
+                            </p>
+                            {report.compared_submission?.assignment_id !== assignmentId && (
+                              <p className="text-xs text-gray-500">
+                                From: {report.compared_submission?.assignment?.title || 'another assignment'}
+                              </p>
+                            )}
+                          </>
+                        )}
+                        <p className="text-xs text-gray-500">
+                          Scope: {COMPARISON_SCOPE_OPTIONS.find(o => o.value === report.comparison_scope)?.label}
                         </p>
                       </div>
-                      <span className={`text-lg font-bold ${getSeverityColor(report.similarity_score)}`}>
-                        {report.similarity_score.toFixed(1)}%
-                      </span>
+                      <div className="text-right">
+                        <span className={`text-lg font-bold ${getSeverityStyle(report.similarity_score - report.cited_score).text}`}>
+                          {(report.similarity_score - report.cited_score).toFixed(1)}%
+                        </span>
+                        {(report.similarity_score - report.cited_score >= settings.flagScore ||
+                          report.paraphrase_score >= settings.flagScore) && (
+                          <p className="text-xs font-medium text-red-700">Flagged</p>
+                        )}
+                        {report.cited_score > 0 && (
+                          <p className="text-xs text-green-700">+ {report.cited_score.toFixed(1)}% cited</p>
+                        )}
+                        {report.paraphrase_score > 0 && (
+                          <p className="text-xs text-purple-700">≈ {report.paraphrase_score.toFixed(1)}% likely paraphrased</p>
+                        )}
+                        <button
+                          onClick={() => setComparedReport(report)}
+                          className="flex items-center gap-1 text-xs text-blue-600 hover:text-blue-700 font-medium mt-1 ml-auto"
+                        >
+                          <Columns2 className="w-3 h-3" />
+                          Compare side by side
+                        </button>
+                        {report.review_case && (
+                          <button
+                            onClick={() => setReviewedReport(reviewedReport === report.id ? null : report.id)}
+                            className="text-xs text-blue-600 hover:text-blue-700 font-medium mt-1"
+                          >
+                            {reviewedReport === report.id ? 'Hide Review' : 'Review'}
+                          </button>
+                        )}
+                      </div>
                     </div>
+                    {reviewedReport === report.id && report.review_case && (
+                      <PlagiarismCaseReview
+                        caseId={report.review_case.id}
+                        status={report.review_case.status}
+                        onReviewed={() => loadReports()}
+                      />
+                    )}
                   </div>
                 ))}
               </div>
@@ -173,19 +668,148 @@ export function PlagiarismReport({ submissionId, assignmentId, submissionContent
         </div>
       )}
 
-      {highlightedContent && (
+      {highlights.length > 0 && (
         <div>
           <h4 className="font-semibold text-gray-900 mb-2">Highlighted Matches</h4>
-          <div
-            className="bg-gray-50 border border-gray-200 rounded-lg p-4 prose max-w-none"
-            dangerouslySetInnerHTML={{ __html: highlightedContent }}
-          />
+          <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 text-gray-800 whitespace-pre-wrap">
+            {splitByRanges(submissionContent, highlights).map((piece, index) => {
+              switch (piece.data) {
+                case 'excluded':
+                  return <span key={index} className="text-gray-400" title="Excluded from scoring">{piece.text}</span>;
+                case 'cited':
+                  return <mark key={index} className="bg-green-100" title="Cited quotation">{piece.text}</mark>;
+                case 'match':
+                  return <mark key={index} className="bg-yellow-200">{piece.text}</mark>;
+                case 'paraphrase':
+                  return <mark key={index} className="bg-purple-100" title="Likely paraphrased">{piece.text}</mark>;
+                default:
+                  return <span key={index}>{piece.text}</span>;
+              }
+            })}
+          </div>
           <p className="text-xs text-gray-600 mt-2">
-            Yellow highlights indicate content that matches other submissions
+            Yellow highlights indicate content that matches other submissions or reference documents.
+            Green highlights are matches inside cited quotations.
+            Purple highlights are likely paraphrased from a source.
+            Greyed-out text matches the assignment prompt or starter file and is not scored.
           </p>
         </div>
       )}
 
+      {paraphrasedPassages.length > 0 && (
+        <div>
+          <h4 className="font-semibold text-gray-900 mb-2">Likely Paraphrased Passages</h4>
+          <div className="space-y-3">
+            {paraphrasedPassages.map((passage, index) => (
+              <div key={index} className="border border-gray-200 rounded-lg overflow-hidden">
+                <div className="flex items-center justify-between bg-gray-100 px-3 py-2 text-xs font-medium text-gray-700">
+                  <span>
+                    {passage.file ? `${passage.file.fileName}, page ${passage.file.page}` : 'This submission'}
+                    {` · restates ${passage.sourceName}`}
+                  </span>
+                  <span className="text-purple-700">{Math.round(passage.similarity * 100)}% word similarity</span>
+                </div>
+                <div className="grid grid-cols-2 text-sm text-gray-800">
+                  <p className="p-3 bg-purple-50">{passage.text}</p>
+                  <p className="p-3 border-l border-gray-200">{passage.matchedText}</p>
+                </div>
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-gray-600 mt-2">
+            These passages share few exact phrases with the source but use the same words, synonyms or
+            word forms in a different order. Read them side by side before drawing a conclusion.
+          </p>
+        </div>
+      )}
+
+      {matchedRegions.length > 0 && (
+        <div>
+          <h4 className="font-semibold text-gray-900 mb-2">Matched Regions</h4>
+          <div className="space-y-4">
+            {matchedRegions.map((region, index) => (
+              <div key={index} className="border border-gray-200 rounded-lg overflow-hidden">
+                <div className="grid grid-cols-2 bg-gray-100 text-xs font-medium text-gray-700">
+                  <div className="px-3 py-2">This submission, line {region.current.firstLine}</div>
+                  <div className="px-3 py-2 border-l border-gray-200">
+                    {region.sourceName}, line {region.matched.firstLine}
+                  </div>
+                </div>
+                <div className="grid grid-cols-2">
+                  {[region.current, region.matched].map((excerpt, side) => (
+                    <pre
+                      key={side}
+                      className={`text-xs bg-yellow-50 p-3 overflow-x-auto ${side === 1 ? 'border-l border-gray-200' : ''}`}
+                    >
+                      {excerpt.lines.map((line, lineIndex) => (
+                        <div key={lineIndex}>
+                          <span className="inline-block w-10 text-right pr-3 text-gray-400 select-none">
+                            {excerpt.firstLine + lineIndex}
+                          </span>
+                          {line}
+                        </div>
+                      ))}
+                    </pre>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {fileMatches.length > 0 && (
+        <div>
+          <h4 className="font-semibold text-gray-900 mb-2">Matches in Attached Files</h4>
+          <div className="space-y-2">
+            {fileMatches.map((match, index) => (
+              <div key={index} className="bg-gray-50 border border-gray-200 rounded-lg p-3">
+                <p className="text-xs text-gray-600 mb-1">
+                  {match.file?.fileName}, page {match.file?.page}
+                  {match.sourceName && ` · matches ${match.sourceName}`}
+                </p>
+                <p className="text-sm text-gray-800">
+                  <mark className="bg-yellow-200 px-1">{match.text}</mark>
+                </p>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {comparedReport && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-lg max-w-6xl w-full max-h-[90vh] overflow-y-auto">
+            <div className="p-6 border-b border-gray-200 sticky top-0 bg-white">
+              <div className="flex items-center justify-between">
+                <h2 className="text-xl font-bold text-gray-900">Side-by-side Comparison</h2>
+                <button
+                  onClick={() => setComparedReport(null)}
+                  className="text-gray-500 hover:text-gray-700"
+                >
+                  ✕
+                </button>
+              </div>
+            </div>
+            <div className="p-6">
+              <PairComparison
+                submissionId={submissionId}
+                comparedSubmissionId={comparedReport.compared_submission_id ?? undefined}
+                comparedReferenceId={comparedReport.compared_reference_id ?? undefined}
+                currentLabel="This submission"
+                comparedLabel={
+                  comparedReport.compared_reference?.title
+                  || comparedReport.compared_submission?.student?.full_name
+                  || 'Matched source'
+                }
+                matchedContent={comparedReport.matched_content as MatchedSegment[]}
+                monospace={checkMode === 'code'}
+              />
+            </div>
+          </div>
+        </div>
+      )}
+
       {reports.length === 0 && overallScore === null && (
         <div className="text-center py-8 text-gray-500">
           <FileSearch className="w-12 h-12 mx-auto mb-3 opacity-30" />
@@ -0,0 +1,93 @@
+import {
+  maxRubricPoints,
+  totalRubricPoints,
+  type CriterionScore,
+  type RubricCriterion,
+} from '../lib/rubrics';
+
+interface RubricGridProps {
+  criteria: RubricCriterion[];
+  scores: CriterionScore[];
+  /** Makes levels clickable and comments editable; the grid is read-only without it. */
+  onChange?: (scores: CriterionScore[]) => void;
+}
+
+export function RubricGrid({ criteria, scores, onChange }: RubricGridProps) {
+  const scoreFor = (criterionId: string) => scores.find(s => s.criterionId === criterionId);
+
+  const updateScore = (criterionId: string, update: Partial<CriterionScore>) => {
+    if (!onChange) return;
+
+    const current = scoreFor(criterionId) ?? { criterionId, levelId: null, points: 0, comment: '' };
+    onChange([
+      ...scores.filter(s => s.criterionId !== criterionId),
+      { ...current, ...update },
+    ]);
+  };
+
+  return (
+    <div className="space-y-4">
+      {criteria.map((criterion) => {
+        const score = scoreFor(criterion.id);
+
+        return (
+          <div key={criterion.id} className="border border-gray-200 rounded-lg p-4">
+            <div className="flex items-start justify-between mb-2">
+              <div>
+                <p className="font-medium text-gray-900">{criterion.title}</p>
+                {criterion.description && (
+                  <p className="text-sm text-gray-600">{criterion.description}</p>
+                )}
+              </div>
+              <span className="text-sm font-medium text-gray-700 whitespace-nowrap ml-4">
+                {score?.levelId ? score.points : '–'} / {Math.max(0, ...criterion.levels.map(level => level.points))}
+              </span>
+            </div>
+
+            <div className="flex gap-2">
+              {criterion.levels.map((level) => {
+                const selected = score?.levelId === level.id;
+
+                return (
+                  <button
+                    key={level.id}
+                    type="button"
+                    onClick={() => updateScore(criterion.id, { levelId: level.id, points: level.points })}
+                    disabled={!onChange}
+                    className={`flex-1 min-w-0 text-left border rounded-lg p-2 transition-colors ${
+                      selected
+                        ? 'border-blue-600 bg-blue-50'
+                        : `border-gray-200 ${onChange ? 'hover:border-blue-300' : 'opacity-60'}`
+                    }`}
+                  >
+                    <p className="text-sm font-medium text-gray-900">{level.title}</p>
+                    <p className="text-xs text-blue-700">{level.points} {level.points === 1 ? 'point' : 'points'}</p>
+                    {level.description && (
+                      <p className="text-xs text-gray-600 mt-1">{level.description}</p>
+                    )}
+                  </button>
+                );
+              })}
+            </div>
+
+            {onChange ? (
+              <textarea
+                value={score?.comment ?? ''}
+                onChange={(e) => updateScore(criterion.id, { comment: e.target.value })}
+                className="w-full mt-2 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                placeholder="Comment on this criterion (optional)"
+                rows={2}
+              />
+            ) : score?.comment && (
+              <p className="text-sm text-gray-700 mt-2 whitespace-pre-wrap">{score.comment}</p>
+            )}
+          </div>
+        );
+      })}
+
+      <p className="text-sm font-medium text-gray-900 text-right">
+        Rubric total: {totalRubricPoints(scores)} / {maxRubricPoints(criteria)} points
+      </p>
+    </div>
+  );
+}
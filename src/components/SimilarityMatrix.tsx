@@ -0,0 +1,228 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Network } from 'lucide-react';
+import {
+  findClusters,
+  getAssignmentSimilarity,
+  pairKey,
+  type MatrixSubmission,
+  type SimilarityPair,
+} from '../lib/similarityMatrix';
+import { supabase } from '../lib/supabase';
+import {
+  DEFAULT_FLAG_SCORE,
+  DEFAULT_SEVERITY_BANDS,
+  getAssignmentSettings,
+  getSeverity,
+  type Severity,
+  type SeverityBands,
+} from '../lib/plagiarismSettings';
+import { PairComparison } from './PairComparison';
+
+interface SimilarityMatrixProps {
+  assignmentId: string;
+}
+
+const CELL_COLORS: Record<Severity, string> = {
+  low: 'bg-green-100',
+  moderate: 'bg-yellow-200',
+  high: 'bg-orange-300',
+  very_high: 'bg-red-400',
+};
+
+function getCellColor(score: number | undefined, bands: SeverityBands) {
+  if (score === undefined || score <= 0) return 'bg-white';
+  return CELL_COLORS[getSeverity(score, bands)];
+}
+
+function initials(name: string) {
+  return name
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(part => part[0].toUpperCase())
+    .slice(0, 3)
+    .join('');
+}
+
+export function SimilarityMatrix({ assignmentId }: SimilarityMatrixProps) {
+  const [loading, setLoading] = useState(true);
+  const [submissions, setSubmissions] = useState<MatrixSubmission[]>([]);
+  const [pairs, setPairs] = useState<Map<string, SimilarityPair>>(new Map());
+  const [uncheckedCount, setUncheckedCount] = useState(0);
+  const [threshold, setThreshold] = useState(DEFAULT_FLAG_SCORE);
+  const [bands, setBands] = useState(DEFAULT_SEVERITY_BANDS);
+  const [selectedPair, setSelectedPair] = useState<SimilarityPair | null>(null);
+
+  useEffect(() => {
+    loadMatrix();
+  }, [assignmentId]);
+
+  const loadMatrix = async () => {
+    setLoading(true);
+    const [result, settings] = await Promise.all([
+      getAssignmentSimilarity(assignmentId),
+      getAssignmentSettings(supabase, assignmentId),
+    ]);
+    // Clusters start at the score the teacher flags matches at
+    setThreshold(settings.flagScore);
+    setBands(settings.bands);
+    setSubmissions(result.submissions);
+    setPairs(result.pairs);
+    setUncheckedCount(result.uncheckedCount);
+    setLoading(false);
+  };
+
+  const clusters = useMemo(
+    () => findClusters(submissions.map(s => s.id), pairs, threshold),
+    [submissions, pairs, threshold]
+  );
+
+  // Members of a cluster sit next to each other, so a cluster shows up as a block on the diagonal
+  const ordered = useMemo(() => {
+    const clusterIndex = new Map<string, number>();
+    clusters.forEach((cluster, index) => cluster.submissionIds.forEach(id => clusterIndex.set(id, index)));
+    return [...submissions].sort(
+      (a, b) => (clusterIndex.get(a.id) ?? clusters.length) - (clusterIndex.get(b.id) ?? clusters.length)
+    );
+  }, [submissions, clusters]);
+
+  const names = new Map(submissions.map(s => [s.id, s.studentName]));
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <div className="w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  if (submissions.length < 2) {
+    return <p className="text-gray-500 text-center py-8">At least two submissions are needed to compare.</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      {uncheckedCount > 0 && (
+        <p className="text-sm text-orange-700 bg-orange-50 border border-orange-200 rounded-lg px-4 py-2">
+          {uncheckedCount} submission(s) have not finished a plagiarism check yet, so some pairs may be missing.
+        </p>
+      )}
+
+      <div className="flex items-center gap-3">
+        <label htmlFor="cluster-threshold" className="text-sm font-medium text-gray-700">
+          Cluster threshold
+        </label>
+        <input
+          id="cluster-threshold"
+          type="range"
+          min={5}
+          max={95}
+          step={1}
+          value={threshold}
+          onChange={(e) => setThreshold(parseInt(e.target.value))}
+          className="w-48"
+        />
+        <span className="text-sm text-gray-700">{threshold}% uncited overlap</span>
+      </div>
+
+      <div>
+        <h4 className="font-semibold text-gray-900 mb-2 flex items-center gap-2">
+          <Network className="w-4 h-4" />
+          Clusters
+        </h4>
+        {clusters.length === 0 ? (
+          <p className="text-sm text-gray-500">No submissions overlap by {threshold}% or more.</p>
+        ) : (
+          <div className="space-y-2">
+            {clusters.map((cluster, index) => (
+              <div key={index} className="flex items-center justify-between border border-gray-200 rounded-lg px-4 py-2">
+                <div className="flex flex-wrap gap-2">
+                  {cluster.submissionIds.map(id => (
+                    <span key={id} className="px-2 py-1 bg-red-50 text-red-700 rounded text-sm">
+                      {names.get(id)}
+                    </span>
+                  ))}
+                </div>
+                <span className="text-sm text-gray-600 flex-shrink-0 ml-4">
+                  {cluster.submissionIds.length} students · up to {cluster.maxScore.toFixed(1)}%
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="border-collapse text-xs">
+          <thead>
+            <tr>
+              <th></th>
+              {ordered.map(column => (
+                <th key={column.id} className="px-1 py-1 font-medium text-gray-600" title={column.studentName}>
+                  {initials(column.studentName)}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {ordered.map(row => (
+              <tr key={row.id}>
+                <th className="pr-2 py-1 text-right font-medium text-gray-700 whitespace-nowrap">{row.studentName}</th>
+                {ordered.map(column => {
+                  if (row.id === column.id) {
+                    return <td key={column.id} className="w-8 h-8 border border-gray-200 bg-gray-100"></td>;
+                  }
+
+                  const pair = pairs.get(pairKey(row.id, column.id));
+                  return (
+                    <td key={column.id} className="border border-gray-200 p-0">
+                      <button
+                        onClick={() => pair && setSelectedPair(pair)}
+                        disabled={!pair}
+                        className={`w-8 h-8 ${getCellColor(pair?.score, bands)} ${pair ? 'hover:ring-2 hover:ring-blue-500' : 'cursor-default'}`}
+                        title={`${row.studentName} ↔ ${column.studentName}: ${pair ? `${pair.score.toFixed(1)}%` : 'no overlap'}`}
+                      >
+                        {pair && pair.score >= 1 ? Math.round(pair.score) : ''}
+                      </button>
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {selectedPair && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-lg max-w-5xl w-full max-h-[90vh] overflow-y-auto">
+            <div className="p-6 border-b border-gray-200 sticky top-0 bg-white">
+              <div className="flex items-center justify-between">
+                <h2 className="text-xl font-bold text-gray-900">
+                  {names.get(selectedPair.submissionId)} ↔ {names.get(selectedPair.comparedSubmissionId)}
+                  <span className="ml-3 text-base font-medium text-gray-600">
+                    {selectedPair.score.toFixed(1)}% uncited overlap
+                  </span>
+                </h2>
+                <button
+                  onClick={() => setSelectedPair(null)}
+                  className="text-gray-500 hover:text-gray-700"
+                >
+                  ✕
+                </button>
+              </div>
+            </div>
+            <div className="p-6">
+              <PairComparison
+                submissionId={selectedPair.submissionId}
+                comparedSubmissionId={selectedPair.comparedSubmissionId}
+                currentLabel={names.get(selectedPair.submissionId) || ''}
+                comparedLabel={names.get(selectedPair.comparedSubmissionId) || ''}
+                matchedContent={selectedPair.matchedContent}
+              />
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,94 @@
+import { useState } from 'react';
+import { Download, Eye, EyeOff, Paperclip, Trash2 } from 'lucide-react';
+import { formatFileSize, getSubmissionFileUrl, type SubmissionFile } from '../lib/submissionFiles';
+import { getFileExtension } from '../lib/fileTypes';
+
+interface SubmissionFileListProps {
+  files: SubmissionFile[];
+  onRemove?: (file: SubmissionFile) => void;
+}
+
+const IMAGE_EXTENSIONS = ['png', 'jpg', 'jpeg', 'gif', 'webp'];
+const PREVIEWABLE_EXTENSIONS = ['pdf', 'txt', ...IMAGE_EXTENSIONS];
+
+export function SubmissionFileList({ files, onRemove }: SubmissionFileListProps) {
+  const [preview, setPreview] = useState<{ fileId: string; url: string } | null>(null);
+
+  const openFile = async (file: SubmissionFile) => {
+    const url = await getSubmissionFileUrl(file);
+    if (url) window.open(url, '_blank', 'noopener');
+  };
+
+  const togglePreview = async (file: SubmissionFile) => {
+    if (preview?.fileId === file.id) {
+      setPreview(null);
+      return;
+    }
+
+    const url = await getSubmissionFileUrl(file);
+    if (url) setPreview({ fileId: file.id, url });
+  };
+
+  if (files.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      {files.map((file) => {
+        const extension = getFileExtension(file.file_name);
+        const canPreview = PREVIEWABLE_EXTENSIONS.includes(extension);
+        const isPreviewing = preview?.fileId === file.id;
+
+        return (
+          <div key={file.id} className="border border-gray-200 rounded-lg">
+            <div className="flex items-center justify-between p-3">
+              <div className="flex items-center gap-2 min-w-0">
+                <Paperclip className="w-4 h-4 text-gray-500 flex-shrink-0" />
+                <span className="text-sm font-medium text-gray-900 truncate">{file.file_name}</span>
+                <span className="text-xs text-gray-500 flex-shrink-0">{formatFileSize(file.size_bytes)}</span>
+              </div>
+              <div className="flex items-center gap-1">
+                {canPreview && (
+                  <button
+                    type="button"
+                    onClick={() => togglePreview(file)}
+                    className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                    title={isPreviewing ? 'Hide preview' : 'Preview'}
+                  >
+                    {isPreviewing ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                  </button>
+                )}
+                <button
+                  type="button"
+                  onClick={() => openFile(file)}
+                  className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                  title="Download"
+                >
+                  <Download className="w-4 h-4" />
+                </button>
+                {onRemove && (
+                  <button
+                    type="button"
+                    onClick={() => onRemove(file)}
+                    className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                    title="Remove"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+            </div>
+            {isPreviewing && preview && (
+              <div className="border-t border-gray-200 p-3 bg-gray-50">
+                {IMAGE_EXTENSIONS.includes(extension) ? (
+                  <img src={preview.url} alt={file.file_name} className="max-h-96 mx-auto" />
+                ) : (
+                  <iframe src={preview.url} title={file.file_name} className="w-full h-96 bg-white rounded" />
+                )}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,30 @@
+import type { DiffPart } from '../lib/diff';
+
+interface VersionDiffProps {
+  parts: DiffPart[];
+  monospace?: boolean;
+}
+
+export function VersionDiff({ parts, monospace = false }: VersionDiffProps) {
+  if (parts.every(part => part.type === 'equal')) {
+    return <p className="text-sm text-gray-500">The two versions are the same.</p>;
+  }
+
+  return (
+    <div
+      className={`bg-gray-50 p-4 rounded-lg text-sm text-gray-800 whitespace-pre-wrap max-h-96 overflow-y-auto ${
+        monospace ? 'font-mono' : ''
+      }`}
+    >
+      {parts.map((part, index) => (
+        part.type === 'added' ? (
+          <ins key={index} className="bg-green-100 text-green-900 no-underline">{part.text}</ins>
+        ) : part.type === 'removed' ? (
+          <del key={index} className="bg-red-100 text-red-800">{part.text}</del>
+        ) : (
+          <span key={index}>{part.text}</span>
+        )
+      ))}
+    </div>
+  );
+}
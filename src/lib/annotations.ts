@@ -0,0 +1,97 @@
+import { supabase } from './supabase';
+import type { Database } from './database.types';
+import type { MatchedSegment } from './plagiarism';
+
+type AnnotationRow = Database['public']['Tables']['submission_annotations']['Row'];
+
+export type Annotation = Omit<AnnotationRow, 'matched_segment'> & {
+  matched_segment: MatchedSegment | null;
+  author: { full_name: string } | null;
+};
+
+/** Where an annotation's passage is in the current content; null when the passage is gone. */
+export type AnnotationRange = {
+  startIndex: number;
+  endIndex: number;
+};
+
+/**
+ * Finds an annotation's passage in the content. Stored offsets are used while
+ * they still cover the quoted text; if the content changed since, the nearest
+ * copy of the quote is used instead.
+ */
+export function resolveAnnotationRange(
+  annotation: Pick<Annotation, 'start_index' | 'end_index' | 'quote'>,
+  content: string
+): AnnotationRange | null {
+  if (!annotation.quote) return null;
+
+  if (content.slice(annotation.start_index, annotation.end_index) === annotation.quote) {
+    return { startIndex: annotation.start_index, endIndex: annotation.end_index };
+  }
+
+  let best: number | null = null;
+  for (let index = content.indexOf(annotation.quote); index !== -1; index = content.indexOf(annotation.quote, index + 1)) {
+    if (best === null || Math.abs(index - annotation.start_index) < Math.abs(best - annotation.start_index)) {
+      best = index;
+    }
+  }
+
+  return best === null ? null : { startIndex: best, endIndex: best + annotation.quote.length };
+}
+
+export async function getAnnotations(submissionId: string): Promise<Annotation[]> {
+  const { data } = await supabase
+    .from('submission_annotations')
+    .select('*, author:profiles(full_name)')
+    .eq('submission_id', submissionId)
+    .order('start_index');
+
+  return (data || []).map(row => ({ ...row, matched_segment: row.matched_segment as MatchedSegment | null }));
+}
+
+/** Comments on a passage of the submission's content, optionally pointing at a plagiarism match. */
+export async function addAnnotation(annotation: {
+  submissionId: string;
+  authorId: string;
+  content: string;
+  range: AnnotationRange;
+  comment: string;
+  plagiarismReportId?: string | null;
+  matchedSegment?: MatchedSegment | null;
+}) {
+  const quote = annotation.content.slice(annotation.range.startIndex, annotation.range.endIndex);
+
+  if (!quote.trim()) {
+    return { error: 'Select the passage to comment on.' };
+  }
+  if (!annotation.comment.trim()) {
+    return { error: 'Write a comment.' };
+  }
+
+  const { error } = await supabase.from('submission_annotations').insert({
+    submission_id: annotation.submissionId,
+    author_id: annotation.authorId,
+    start_index: annotation.range.startIndex,
+    end_index: annotation.range.endIndex,
+    quote,
+    comment: annotation.comment.trim(),
+    plagiarism_report_id: annotation.plagiarismReportId ?? null,
+    matched_segment: annotation.matchedSegment ?? null,
+  });
+
+  return { error: error?.message ?? null };
+}
+
+export async function updateAnnotation(id: string, comment: string) {
+  const { error } = await supabase
+    .from('submission_annotations')
+    .update({ comment: comment.trim(), updated_at: new Date().toISOString() })
+    .eq('id', id);
+
+  return { error: error?.message ?? null };
+}
+
+export async function deleteAnnotation(id: string) {
+  return supabase.from('submission_annotations').delete().eq('id', id);
+}
@@ -0,0 +1,126 @@
+/**
+ * Finds quotations in prose and decides whether each one is attributed to a
+ * source. A passage copied inside quotation marks (or a block quote) and
+ * followed or introduced by a citation is legitimate use, and plagiarism
+ * scoring reports it separately from uncited overlap.
+ */
+
+export type Quotation = {
+  startIndex: number;
+  endIndex: number;
+  cited: boolean;
+};
+
+type Span = { startIndex: number; endIndex: number };
+
+// Quotes longer than this are more likely an unbalanced quotation mark than a real quote
+const MAX_QUOTE_LENGTH = 3000;
+// How far after a quote (or block quote) its citation may start, within the same sentence
+const CITATION_AFTER_WINDOW = 80;
+// How far before a quote a narrative citation ("Smith (2020) argues ...") may end, within the same sentence
+const CITATION_BEFORE_WINDOW = 150;
+
+const QUOTE_PATTERNS = [
+  /"[^"]+"/g,
+  /“[^”]+”/g,
+  /„[^“”]+[“”]/g,
+  /«[^»]+»/g,
+];
+
+const YEAR = String.raw`(?:1[5-9]|20)\d{2}[a-z]?|n\.d\.`;
+const NAME = String.raw`[A-Z][A-Za-zÀ-ɏ'’-]+`;
+
+const CITATION_PATTERNS = [
+  // APA parenthetical: (Smith, 2020), (Smith & Jones, 2019, p. 12), (see Smith et al., 2020; Lee, 2018)
+  new RegExp(String.raw`\([^()]*${NAME}[^()]*\b(?:${YEAR})[^()]*\)`, 'g'),
+  // Narrative APA: Smith (2020), Smith et al. (2020, p. 4)
+  new RegExp(String.raw`${NAME}(?: (?:et al\.|(?:and|&) ${NAME}))? \((?:${YEAR})(?:, pp?\. ?\d+(?:[-–]\d+)?)?\)`, 'g'),
+  // MLA parenthetical: (Smith 42), (Smith and Jones 42-45)
+  new RegExp(String.raw`\(${NAME}(?: (?:et al\.|and ${NAME}))? \d+(?:[-–]\d+)?\)`, 'g'),
+  // Numbered references: [1], [2, 5], [3-7]
+  /\[\d+(?:\s*[-–,]\s*\d+)*\]/g,
+];
+
+function findAll(patterns: RegExp[], text: string): Span[] {
+  const spans: Span[] = [];
+
+  for (const pattern of patterns) {
+    for (const match of text.matchAll(pattern)) {
+      spans.push({ startIndex: match.index ?? 0, endIndex: (match.index ?? 0) + match[0].length });
+    }
+  }
+
+  return spans.sort((a, b) => a.startIndex - b.startIndex);
+}
+
+// Paragraphs whose every line is prefixed with '>' or indented at least four spaces
+function findBlockQuotes(text: string): Span[] {
+  const blocks: Span[] = [];
+  const paragraph = /[^\n]+(?:\n[^\n]+)*/g;
+
+  for (const match of text.matchAll(paragraph)) {
+    const lines = match[0].split('\n').filter(line => line.trim().length > 0);
+    if (lines.length > 0 && lines.every(line => /^(?:>| {4,}|\t)/.test(line))) {
+      const startIndex = match.index ?? 0;
+      blocks.push({ startIndex, endIndex: startIndex + match[0].length });
+    }
+  }
+
+  return blocks;
+}
+
+function isCited(quote: Span, citations: Span[], text: string): boolean {
+  return citations.some(citation => {
+    // Block quotes usually carry their citation on the last line
+    if (citation.startIndex >= quote.startIndex && citation.endIndex <= quote.endIndex) {
+      return true;
+    }
+
+    if (citation.startIndex >= quote.endIndex) {
+      const between = text.slice(quote.endIndex, citation.startIndex);
+      return between.length <= CITATION_AFTER_WINDOW && !/[.!?]\s|\n\n/.test(between);
+    }
+
+    if (citation.endIndex <= quote.startIndex) {
+      const between = text.slice(citation.endIndex, quote.startIndex);
+      return between.length <= CITATION_BEFORE_WINDOW && !/[.!?]\s|\n\n/.test(between);
+    }
+
+    return false;
+  });
+}
+
+export function findQuotations(text: string): Quotation[] {
+  const citations = findAll(CITATION_PATTERNS, text);
+  const quotes = [
+    ...findAll(QUOTE_PATTERNS, text).filter(q => q.endIndex - q.startIndex <= MAX_QUOTE_LENGTH),
+    ...findBlockQuotes(text),
+  ].sort((a, b) => a.startIndex - b.startIndex || b.endIndex - a.endIndex);
+
+  const quotations: Quotation[] = [];
+  for (const quote of quotes) {
+    // Quotes nested inside a block quote are covered by it
+    const last = quotations[quotations.length - 1];
+    if (last && quote.startIndex < last.endIndex) continue;
+
+    quotations.push({ ...quote, cited: isCited(quote, citations, text) });
+  }
+
+  return quotations;
+}
+
+/** Number of characters of `segments` that fall inside cited quotations. */
+export function citedLength(segments: Span[], quotations: Quotation[]): number {
+  let length = 0;
+
+  for (const segment of segments) {
+    for (const quotation of quotations) {
+      if (!quotation.cited) continue;
+      const start = Math.max(segment.startIndex, quotation.startIndex);
+      const end = Math.min(segment.endIndex, quotation.endIndex);
+      if (end > start) length += end - start;
+    }
+  }
+
+  return length;
+}
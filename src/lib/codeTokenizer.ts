@@ -0,0 +1,218 @@
+/**
+ * Source-code tokenizer for code plagiarism checks, in the spirit of MOSS and
+ * JPlag. Comments and whitespace are dropped, every identifier becomes `ID`
+ * and every literal becomes `NUM` or `STR`, while keywords, operators and
+ * punctuation are kept. Two programs that differ only in naming, comments,
+ * formatting or literal values therefore produce the same token stream.
+ */
+import type { FingerprintOptions, Token, Tokenizer } from './fingerprint';
+
+export type CodeLanguage = 'javascript' | 'typescript' | 'python' | 'java' | 'c';
+
+export const CODE_LANGUAGE_OPTIONS: { value: CodeLanguage; label: string }[] = [
+  { value: 'javascript', label: 'JavaScript' },
+  { value: 'typescript', label: 'TypeScript' },
+  { value: 'python', label: 'Python' },
+  { value: 'java', label: 'Java' },
+  { value: 'c', label: 'C' },
+];
+
+// Code tokens are much finer-grained than words, so matches need more of them
+export const CODE_FINGERPRINT_OPTIONS: FingerprintOptions = {
+  k: 10,
+  windowSize: 6,
+  minMatchTokens: 25,
+  maxGapTokens: 4,
+};
+
+type LanguageSpec = {
+  keywords: Set<string>;
+  lineComments: string[];
+  blockComment: [string, string] | null;
+  /** Longest delimiters first, so `"""` wins over `"`. */
+  stringDelimiters: string[];
+  stringPrefixes?: RegExp;
+  /** Tokens that carry no structure in this language and are skipped. */
+  ignored?: Set<string>;
+};
+
+const JAVASCRIPT_KEYWORDS = [
+  'async', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'debugger', 'default',
+  'delete', 'do', 'else', 'export', 'extends', 'false', 'finally', 'for', 'from', 'function', 'if',
+  'import', 'in', 'instanceof', 'let', 'new', 'null', 'of', 'return', 'static', 'super', 'switch',
+  'this', 'throw', 'true', 'try', 'typeof', 'undefined', 'var', 'void', 'while', 'with', 'yield',
+];
+
+const LANGUAGES: Record<CodeLanguage, LanguageSpec> = {
+  javascript: {
+    keywords: new Set(JAVASCRIPT_KEYWORDS),
+    lineComments: ['//'],
+    blockComment: ['/*', '*/'],
+    stringDelimiters: ['`', '"', "'"],
+    // Semicolons are optional, so copies differing only in semicolon style should still match
+    ignored: new Set([';']),
+  },
+  typescript: {
+    keywords: new Set([
+      ...JAVASCRIPT_KEYWORDS,
+      'abstract', 'any', 'as', 'boolean', 'declare', 'enum', 'implements', 'interface', 'keyof',
+      'namespace', 'never', 'number', 'private', 'protected', 'public', 'readonly', 'string', 'type',
+      'unknown',
+    ]),
+    lineComments: ['//'],
+    blockComment: ['/*', '*/'],
+    stringDelimiters: ['`', '"', "'"],
+    ignored: new Set([';']),
+  },
+  python: {
+    keywords: new Set([
+      'False', 'None', 'True', 'and', 'as', 'assert', 'async', 'await', 'break', 'class', 'continue',
+      'def', 'del', 'elif', 'else', 'except', 'finally', 'for', 'from', 'global', 'if', 'import', 'in',
+      'is', 'lambda', 'nonlocal', 'not', 'or', 'pass', 'raise', 'return', 'try', 'while', 'with', 'yield',
+    ]),
+    lineComments: ['#'],
+    blockComment: null,
+    stringDelimiters: ['"""', "'''", '"', "'"],
+    stringPrefixes: /^(r|u|b|f|br|rb|fr|rf)$/i,
+  },
+  java: {
+    keywords: new Set([
+      'abstract', 'assert', 'boolean', 'break', 'byte', 'case', 'catch', 'char', 'class', 'const',
+      'continue', 'default', 'do', 'double', 'else', 'enum', 'extends', 'false', 'final', 'finally',
+      'float', 'for', 'if', 'implements', 'import', 'instanceof', 'int', 'interface', 'long', 'new',
+      'null', 'package', 'private', 'protected', 'public', 'return', 'short', 'static', 'super',
+      'switch', 'synchronized', 'this', 'throw', 'throws', 'true', 'try', 'var', 'void', 'volatile',
+      'while',
+    ]),
+    lineComments: ['//'],
+    blockComment: ['/*', '*/'],
+    stringDelimiters: ['"""', '"', "'"],
+  },
+  c: {
+    keywords: new Set([
+      'auto', 'break', 'case', 'char', 'const', 'continue', 'default', 'define', 'do', 'double', 'else',
+      'endif', 'enum', 'extern', 'float', 'for', 'goto', 'if', 'ifdef', 'ifndef', 'include', 'inline',
+      'int', 'long', 'register', 'return', 'short', 'signed', 'sizeof', 'static', 'struct', 'switch',
+      'typedef', 'union', 'unsigned', 'void', 'volatile', 'while', 'NULL',
+    ]),
+    lineComments: ['//'],
+    blockComment: ['/*', '*/'],
+    stringDelimiters: ['"', "'"],
+  },
+};
+
+const OPERATORS = [
+  '>>>=', '===', '!==', '**=', '...', '<<=', '>>=', '>>>', '//=',
+  '=>', '==', '!=', '<=', '>=', '&&', '||', '++', '--', '+=', '-=', '*=', '/=', '%=', '&=', '|=',
+  '^=', '->', '::', '**', '//', '<<', '>>', '?.', '??', ':=',
+];
+
+const IDENTIFIER = /[A-Za-z_$][\w$]*/y;
+const NUMBER = /(?:0[xX][\da-fA-F_]+|0[bB][01_]+|(?:\d[\d_]*\.?[\d_]*|\.\d[\d_]*)(?:[eE][+-]?\d+)?)[A-Za-z]*/y;
+
+function matchAt(pattern: RegExp, source: string, index: number): string | null {
+  pattern.lastIndex = index;
+  const match = pattern.exec(source);
+  return match ? match[0] : null;
+}
+
+// Returns the index just past the closing delimiter, or the end of the source if unterminated
+function skipString(source: string, index: number, delimiter: string): number {
+  let i = index + delimiter.length;
+
+  while (i < source.length) {
+    if (source[i] === '\\') {
+      i += 2;
+      continue;
+    }
+    if (source.startsWith(delimiter, i)) {
+      return i + delimiter.length;
+    }
+    // Only triple-quoted strings and template literals may span lines
+    if (source[i] === '\n' && delimiter.length === 1 && delimiter !== '`') {
+      return i;
+    }
+    i++;
+  }
+
+  return source.length;
+}
+
+export function tokenizeCode(source: string, language: CodeLanguage): Token[] {
+  const spec = LANGUAGES[language];
+  const tokens: Token[] = [];
+  let i = 0;
+
+  const push = (value: string, start: number, end: number) => {
+    if (!spec.ignored?.has(value)) tokens.push({ value, start, end });
+  };
+
+  scan: while (i < source.length) {
+    const char = source[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    for (const marker of spec.lineComments) {
+      if (source.startsWith(marker, i)) {
+        const newline = source.indexOf('\n', i);
+        i = newline === -1 ? source.length : newline;
+        continue scan;
+      }
+    }
+
+    if (spec.blockComment && source.startsWith(spec.blockComment[0], i)) {
+      const end = source.indexOf(spec.blockComment[1], i + spec.blockComment[0].length);
+      i = end === -1 ? source.length : end + spec.blockComment[1].length;
+      continue;
+    }
+
+    const delimiter = spec.stringDelimiters.find(d => source.startsWith(d, i));
+    if (delimiter) {
+      const end = skipString(source, i, delimiter);
+      push('STR', i, end);
+      i = end;
+      continue;
+    }
+
+    const identifier = matchAt(IDENTIFIER, source, i);
+    if (identifier) {
+      const end = i + identifier.length;
+      const prefixedDelimiter = spec.stringPrefixes?.test(identifier)
+        ? spec.stringDelimiters.find(d => source.startsWith(d, end))
+        : undefined;
+
+      if (prefixedDelimiter) {
+        const stringEnd = skipString(source, end, prefixedDelimiter);
+        push('STR', i, stringEnd);
+        i = stringEnd;
+      } else {
+        push(spec.keywords.has(identifier) ? identifier : 'ID', i, end);
+        i = end;
+      }
+      continue;
+    }
+
+    const number = /[\d.]/.test(char) ? matchAt(NUMBER, source, i) : null;
+    if (number) {
+      push('NUM', i, i + number.length);
+      i += number.length;
+      continue;
+    }
+
+    const operator = OPERATORS.find(op => source.startsWith(op, i)) || char;
+    push(operator, i, i + operator.length);
+    i += operator.length;
+  }
+
+  return tokens;
+}
+
+export function codeTokenizer(language: CodeLanguage): Tokenizer {
+  return {
+    key: `code:${language}`,
+    tokenize: source => tokenizeCode(source, language),
+  };
+}
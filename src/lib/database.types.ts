@@ -34,6 +34,7 @@ export interface Database {
           created_at?: string
           updated_at?: string
         }
+        Relationships: []
       }
       courses: {
         Row: {
@@ -60,6 +61,105 @@ export interface Database {
           created_at?: string
           updated_at?: string
         }
+        Relationships: [
+          {
+            foreignKeyName: 'courses_teacher_id_fkey'
+            columns: ['teacher_id']
+            isOneToOne: false
+            referencedRelation: 'profiles'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      enrollments: {
+        Row: {
+          id: string
+          course_id: string
+          student_id: string
+          role: 'student' | 'auditor'
+          joined_at: string
+        }
+        Insert: {
+          id?: string
+          course_id: string
+          student_id: string
+          role?: 'student' | 'auditor'
+          joined_at?: string
+        }
+        Update: {
+          id?: string
+          course_id?: string
+          student_id?: string
+          role?: 'student' | 'auditor'
+          joined_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'enrollments_course_id_fkey'
+            columns: ['course_id']
+            isOneToOne: false
+            referencedRelation: 'courses'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'enrollments_student_id_fkey'
+            columns: ['student_id']
+            isOneToOne: false
+            referencedRelation: 'profiles'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      course_invites: {
+        Row: {
+          id: string
+          course_id: string
+          code: string
+          expires_at: string | null
+          max_uses: number | null
+          use_count: number
+          revoked_at: string | null
+          created_by: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          course_id: string
+          code?: string
+          expires_at?: string | null
+          max_uses?: number | null
+          use_count?: number
+          revoked_at?: string | null
+          created_by: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          course_id?: string
+          code?: string
+          expires_at?: string | null
+          max_uses?: number | null
+          use_count?: number
+          revoked_at?: string | null
+          created_by?: string
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'course_invites_course_id_fkey'
+            columns: ['course_id']
+            isOneToOne: false
+            referencedRelation: 'courses'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'course_invites_created_by_fkey'
+            columns: ['created_by']
+            isOneToOne: false
+            referencedRelation: 'profiles'
+            referencedColumns: ['id']
+          }
+        ]
       }
       assignments: {
         Row: {
@@ -72,6 +172,24 @@ export interface Database {
           max_score: number
           created_at: string
           updated_at: string
+          allowed_file_types: string[]
+          max_file_size_mb: number
+          max_files: number
+          previous_assignment_id: string | null
+          check_mode: 'text' | 'code'
+          code_language: 'javascript' | 'typescript' | 'python' | 'java' | 'c' | null
+          exclude_description: boolean
+          starter_file_name: string | null
+          starter_text: string | null
+          language: 'auto' | 'en' | 'es' | 'fr' | 'de' | 'pt' | 'ru' | 'ar' | 'bn'
+          ignore_stop_words: boolean
+          stem_words: boolean
+          rubric_id: string | null
+          late_policy: 'accept' | 'penalty' | 'close'
+          late_penalty_percent: number
+          late_penalty_unit: 'day' | 'hour'
+          late_grace_minutes: number
+          late_max_minutes: number | null
         }
         Insert: {
           id?: string
@@ -83,6 +201,24 @@ export interface Database {
           max_score?: number
           created_at?: string
           updated_at?: string
+          allowed_file_types?: string[]
+          max_file_size_mb?: number
+          max_files?: number
+          previous_assignment_id?: string | null
+          check_mode?: 'text' | 'code'
+          code_language?: 'javascript' | 'typescript' | 'python' | 'java' | 'c' | null
+          exclude_description?: boolean
+          starter_file_name?: string | null
+          starter_text?: string | null
+          language?: 'auto' | 'en' | 'es' | 'fr' | 'de' | 'pt' | 'ru' | 'ar' | 'bn'
+          ignore_stop_words?: boolean
+          stem_words?: boolean
+          rubric_id?: string | null
+          late_policy?: 'accept' | 'penalty' | 'close'
+          late_penalty_percent?: number
+          late_penalty_unit?: 'day' | 'hour'
+          late_grace_minutes?: number
+          late_max_minutes?: number | null
         }
         Update: {
           id?: string
@@ -94,7 +230,55 @@ export interface Database {
           max_score?: number
           created_at?: string
           updated_at?: string
+          allowed_file_types?: string[]
+          max_file_size_mb?: number
+          max_files?: number
+          previous_assignment_id?: string | null
+          check_mode?: 'text' | 'code'
+          code_language?: 'javascript' | 'typescript' | 'python' | 'java' | 'c' | null
+          exclude_description?: boolean
+          starter_file_name?: string | null
+          starter_text?: string | null
+          language?: 'auto' | 'en' | 'es' | 'fr' | 'de' | 'pt' | 'ru' | 'ar' | 'bn'
+          ignore_stop_words?: boolean
+          stem_words?: boolean
+          rubric_id?: string | null
+          late_policy?: 'accept' | 'penalty' | 'close'
+          late_penalty_percent?: number
+          late_penalty_unit?: 'day' | 'hour'
+          late_grace_minutes?: number
+          late_max_minutes?: number | null
         }
+        Relationships: [
+          {
+            foreignKeyName: 'assignments_course_id_fkey'
+            columns: ['course_id']
+            isOneToOne: false
+            referencedRelation: 'courses'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'assignments_teacher_id_fkey'
+            columns: ['teacher_id']
+            isOneToOne: false
+            referencedRelation: 'profiles'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'assignments_previous_assignment_id_fkey'
+            columns: ['previous_assignment_id']
+            isOneToOne: false
+            referencedRelation: 'assignments'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'assignments_rubric_id_fkey'
+            columns: ['rubric_id']
+            isOneToOne: false
+            referencedRelation: 'rubrics'
+            referencedColumns: ['id']
+          }
+        ]
       }
       submissions: {
         Row: {
@@ -109,6 +293,11 @@ export interface Database {
           submitted_at: string | null
           created_at: string
           updated_at: string
+          plagiarism_status: 'not_checked' | 'queued' | 'running' | 'completed' | 'failed'
+          plagiarism_checked_at: string | null
+          is_late: boolean
+          late_minutes: number
+          late_penalty_percent: number
         }
         Insert: {
           id?: string
@@ -122,6 +311,11 @@ export interface Database {
           submitted_at?: string | null
           created_at?: string
           updated_at?: string
+          plagiarism_status?: 'not_checked' | 'queued' | 'running' | 'completed' | 'failed'
+          plagiarism_checked_at?: string | null
+          is_late?: boolean
+          late_minutes?: number
+          late_penalty_percent?: number
         }
         Update: {
           id?: string
@@ -135,34 +329,955 @@ export interface Database {
           submitted_at?: string | null
           created_at?: string
           updated_at?: string
+          plagiarism_status?: 'not_checked' | 'queued' | 'running' | 'completed' | 'failed'
+          plagiarism_checked_at?: string | null
+          is_late?: boolean
+          late_minutes?: number
+          late_penalty_percent?: number
         }
+        Relationships: [
+          {
+            foreignKeyName: 'submissions_assignment_id_fkey'
+            columns: ['assignment_id']
+            isOneToOne: false
+            referencedRelation: 'assignments'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'submissions_student_id_fkey'
+            columns: ['student_id']
+            isOneToOne: false
+            referencedRelation: 'profiles'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      submission_files: {
+        Row: {
+          id: string
+          submission_id: string
+          storage_path: string
+          file_name: string
+          mime_type: string
+          size_bytes: number
+          uploaded_at: string
+          extracted_text: string | null
+          page_offsets: number[]
+          extraction_status: 'pending' | 'extracted' | 'unsupported' | 'failed'
+          extracted_at: string | null
+        }
+        Insert: {
+          id?: string
+          submission_id: string
+          storage_path: string
+          file_name: string
+          mime_type?: string
+          size_bytes: number
+          uploaded_at?: string
+          extracted_text?: string | null
+          page_offsets?: number[]
+          extraction_status?: 'pending' | 'extracted' | 'unsupported' | 'failed'
+          extracted_at?: string | null
+        }
+        Update: {
+          id?: string
+          submission_id?: string
+          storage_path?: string
+          file_name?: string
+          mime_type?: string
+          size_bytes?: number
+          uploaded_at?: string
+          extracted_text?: string | null
+          page_offsets?: number[]
+          extraction_status?: 'pending' | 'extracted' | 'unsupported' | 'failed'
+          extracted_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'submission_files_submission_id_fkey'
+            columns: ['submission_id']
+            isOneToOne: false
+            referencedRelation: 'submissions'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      submission_fingerprints: {
+        Row: {
+          id: number
+          submission_id: string
+          hash: number
+          token_index: number
+          start_offset: number
+          end_offset: number
+          file_id: string | null
+          page: number | null
+        }
+        Insert: {
+          id?: number
+          submission_id: string
+          hash: number
+          token_index: number
+          start_offset: number
+          end_offset: number
+          file_id?: string | null
+          page?: number | null
+        }
+        Update: {
+          id?: number
+          submission_id?: string
+          hash?: number
+          token_index?: number
+          start_offset?: number
+          end_offset?: number
+          file_id?: string | null
+          page?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'submission_fingerprints_submission_id_fkey'
+            columns: ['submission_id']
+            isOneToOne: false
+            referencedRelation: 'submissions'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'submission_fingerprints_file_id_fkey'
+            columns: ['file_id']
+            isOneToOne: false
+            referencedRelation: 'submission_files'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      submission_fingerprint_state: {
+        Row: {
+          submission_id: string
+          params: Json
+          indexed_at: string
+        }
+        Insert: {
+          submission_id: string
+          params: Json
+          indexed_at?: string
+        }
+        Update: {
+          submission_id?: string
+          params?: Json
+          indexed_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'submission_fingerprint_state_submission_id_fkey'
+            columns: ['submission_id']
+            isOneToOne: false
+            referencedRelation: 'submissions'
+            referencedColumns: ['id']
+          }
+        ]
       }
       plagiarism_reports: {
         Row: {
           id: string
           submission_id: string
-          compared_submission_id: string
+          compared_submission_id: string | null
           similarity_score: number
           matched_content: Json
           created_at: string
+          comparison_scope: 'assignment' | 'course' | 'teacher' | 'previous_offering'
+          compared_reference_id: string | null
+          excluded_content: Json
+          cited_score: number
+          case_id: string | null
+          run_id: string | null
+          paraphrase_score: number
+          paraphrased_content: Json
         }
         Insert: {
           id?: string
           submission_id: string
-          compared_submission_id: string
+          compared_submission_id?: string | null
           similarity_score: number
           matched_content?: Json
           created_at?: string
+          comparison_scope?: 'assignment' | 'course' | 'teacher' | 'previous_offering'
+          compared_reference_id?: string | null
+          excluded_content?: Json
+          cited_score?: number
+          case_id?: string | null
+          run_id?: string | null
+          paraphrase_score?: number
+          paraphrased_content?: Json
         }
         Update: {
           id?: string
           submission_id?: string
-          compared_submission_id?: string
+          compared_submission_id?: string | null
           similarity_score?: number
           matched_content?: Json
           created_at?: string
+          comparison_scope?: 'assignment' | 'course' | 'teacher' | 'previous_offering'
+          compared_reference_id?: string | null
+          excluded_content?: Json
+          cited_score?: number
+          case_id?: string | null
+          run_id?: string | null
+          paraphrase_score?: number
+          paraphrased_content?: Json
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'plagiarism_reports_submission_id_fkey'
+            columns: ['submission_id']
+            isOneToOne: false
+            referencedRelation: 'submissions'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'plagiarism_reports_compared_submission_id_fkey'
+            columns: ['compared_submission_id']
+            isOneToOne: false
+            referencedRelation: 'submissions'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'plagiarism_reports_compared_reference_id_fkey'
+            columns: ['compared_reference_id']
+            isOneToOne: false
+            referencedRelation: 'reference_documents'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'plagiarism_reports_case_id_fkey'
+            columns: ['case_id']
+            isOneToOne: false
+            referencedRelation: 'plagiarism_cases'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'plagiarism_reports_run_id_fkey'
+            columns: ['run_id']
+            isOneToOne: false
+            referencedRelation: 'plagiarism_runs'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      plagiarism_runs: {
+        Row: {
+          id: string
+          submission_id: string
+          comparison_scope: 'assignment' | 'course' | 'teacher' | 'previous_offering'
+          algorithm_version: string
+          parameters: Json
+          overall_similarity: number
+          cited_overlap: number
+          paraphrase_overlap: number
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          submission_id: string
+          comparison_scope?: 'assignment' | 'course' | 'teacher' | 'previous_offering'
+          algorithm_version: string
+          parameters?: Json
+          overall_similarity?: number
+          cited_overlap?: number
+          paraphrase_overlap?: number
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          submission_id?: string
+          comparison_scope?: 'assignment' | 'course' | 'teacher' | 'previous_offering'
+          algorithm_version?: string
+          parameters?: Json
+          overall_similarity?: number
+          cited_overlap?: number
+          paraphrase_overlap?: number
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'plagiarism_runs_submission_id_fkey'
+            columns: ['submission_id']
+            isOneToOne: false
+            referencedRelation: 'submissions'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      plagiarism_settings: {
+        Row: {
+          id: string
+          course_id: string | null
+          assignment_id: string | null
+          min_match_tokens: number | null
+          max_gap_tokens: number | null
+          flag_score: number | null
+          moderate_score: number | null
+          high_score: number | null
+          very_high_score: number | null
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          course_id?: string | null
+          assignment_id?: string | null
+          min_match_tokens?: number | null
+          max_gap_tokens?: number | null
+          flag_score?: number | null
+          moderate_score?: number | null
+          high_score?: number | null
+          very_high_score?: number | null
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          course_id?: string | null
+          assignment_id?: string | null
+          min_match_tokens?: number | null
+          max_gap_tokens?: number | null
+          flag_score?: number | null
+          moderate_score?: number | null
+          high_score?: number | null
+          very_high_score?: number | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'plagiarism_settings_course_id_fkey'
+            columns: ['course_id']
+            isOneToOne: false
+            referencedRelation: 'courses'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'plagiarism_settings_assignment_id_fkey'
+            columns: ['assignment_id']
+            isOneToOne: false
+            referencedRelation: 'assignments'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      plagiarism_cases: {
+        Row: {
+          id: string
+          submission_id: string
+          compared_submission_id: string | null
+          compared_reference_id: string | null
+          status: 'pending' | 'dismissed' | 'confirmed' | 'escalated'
+          reviewed_by: string | null
+          reviewed_at: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          submission_id: string
+          compared_submission_id?: string | null
+          compared_reference_id?: string | null
+          status?: 'pending' | 'dismissed' | 'confirmed' | 'escalated'
+          reviewed_by?: string | null
+          reviewed_at?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          submission_id?: string
+          compared_submission_id?: string | null
+          compared_reference_id?: string | null
+          status?: 'pending' | 'dismissed' | 'confirmed' | 'escalated'
+          reviewed_by?: string | null
+          reviewed_at?: string | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'plagiarism_cases_submission_id_fkey'
+            columns: ['submission_id']
+            isOneToOne: false
+            referencedRelation: 'submissions'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'plagiarism_cases_compared_submission_id_fkey'
+            columns: ['compared_submission_id']
+            isOneToOne: false
+            referencedRelation: 'submissions'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'plagiarism_cases_compared_reference_id_fkey'
+            columns: ['compared_reference_id']
+            isOneToOne: false
+            referencedRelation: 'reference_documents'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'plagiarism_cases_reviewed_by_fkey'
+            columns: ['reviewed_by']
+            isOneToOne: false
+            referencedRelation: 'profiles'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      plagiarism_case_events: {
+        Row: {
+          id: string
+          case_id: string
+          actor_id: string | null
+          from_status: string
+          to_status: string
+          note: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          case_id: string
+          actor_id?: string | null
+          from_status: string
+          to_status: string
+          note?: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          case_id?: string
+          actor_id?: string | null
+          from_status?: string
+          to_status?: string
+          note?: string
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'plagiarism_case_events_case_id_fkey'
+            columns: ['case_id']
+            isOneToOne: false
+            referencedRelation: 'plagiarism_cases'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'plagiarism_case_events_actor_id_fkey'
+            columns: ['actor_id']
+            isOneToOne: false
+            referencedRelation: 'profiles'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      plagiarism_jobs: {
+        Row: {
+          id: string
+          submission_id: string
+          reason: 'submitted' | 'recheck'
+          kind: 'check' | 'index'
+          status: 'queued' | 'running' | 'completed' | 'failed'
+          attempts: number
+          error: string | null
+          created_at: string
+          started_at: string | null
+          finished_at: string | null
+        }
+        Insert: {
+          id?: string
+          submission_id: string
+          reason?: 'submitted' | 'recheck'
+          kind?: 'check' | 'index'
+          status?: 'queued' | 'running' | 'completed' | 'failed'
+          attempts?: number
+          error?: string | null
+          created_at?: string
+          started_at?: string | null
+          finished_at?: string | null
+        }
+        Update: {
+          id?: string
+          submission_id?: string
+          reason?: 'submitted' | 'recheck'
+          kind?: 'check' | 'index'
+          status?: 'queued' | 'running' | 'completed' | 'failed'
+          attempts?: number
+          error?: string | null
+          created_at?: string
+          started_at?: string | null
+          finished_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'plagiarism_jobs_submission_id_fkey'
+            columns: ['submission_id']
+            isOneToOne: false
+            referencedRelation: 'submissions'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      reference_documents: {
+        Row: {
+          id: string
+          teacher_id: string
+          course_id: string | null
+          title: string
+          tags: string[]
+          storage_path: string | null
+          file_name: string | null
+          content: string
+          page_offsets: number[]
+          fingerprint_params: Json | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          teacher_id: string
+          course_id?: string | null
+          title: string
+          tags?: string[]
+          storage_path?: string | null
+          file_name?: string | null
+          content?: string
+          page_offsets?: number[]
+          fingerprint_params?: Json | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          teacher_id?: string
+          course_id?: string | null
+          title?: string
+          tags?: string[]
+          storage_path?: string | null
+          file_name?: string | null
+          content?: string
+          page_offsets?: number[]
+          fingerprint_params?: Json | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'reference_documents_teacher_id_fkey'
+            columns: ['teacher_id']
+            isOneToOne: false
+            referencedRelation: 'profiles'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'reference_documents_course_id_fkey'
+            columns: ['course_id']
+            isOneToOne: false
+            referencedRelation: 'courses'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      reference_fingerprints: {
+        Row: {
+          id: number
+          reference_id: string
+          hash: number
+          token_index: number
+          start_offset: number
+          end_offset: number
+          page: number
+        }
+        Insert: {
+          id?: number
+          reference_id: string
+          hash: number
+          token_index: number
+          start_offset: number
+          end_offset: number
+          page?: number
+        }
+        Update: {
+          id?: number
+          reference_id?: string
+          hash?: number
+          token_index?: number
+          start_offset?: number
+          end_offset?: number
+          page?: number
         }
+        Relationships: [
+          {
+            foreignKeyName: 'reference_fingerprints_reference_id_fkey'
+            columns: ['reference_id']
+            isOneToOne: false
+            referencedRelation: 'reference_documents'
+            referencedColumns: ['id']
+          }
+        ]
       }
+      rubrics: {
+        Row: {
+          id: string
+          teacher_id: string
+          title: string
+          description: string
+          criteria: Json
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          teacher_id: string
+          title: string
+          description?: string
+          criteria?: Json
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          teacher_id?: string
+          title?: string
+          description?: string
+          criteria?: Json
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'rubrics_teacher_id_fkey'
+            columns: ['teacher_id']
+            isOneToOne: false
+            referencedRelation: 'profiles'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      rubric_assessments: {
+        Row: {
+          id: string
+          submission_id: string
+          rubric_id: string | null
+          criteria: Json
+          scores: Json
+          total_points: number
+          max_points: number
+          graded_by: string | null
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          submission_id: string
+          rubric_id?: string | null
+          criteria?: Json
+          scores?: Json
+          total_points?: number
+          max_points?: number
+          graded_by?: string | null
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          submission_id?: string
+          rubric_id?: string | null
+          criteria?: Json
+          scores?: Json
+          total_points?: number
+          max_points?: number
+          graded_by?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'rubric_assessments_submission_id_fkey'
+            columns: ['submission_id']
+            isOneToOne: true
+            referencedRelation: 'submissions'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'rubric_assessments_rubric_id_fkey'
+            columns: ['rubric_id']
+            isOneToOne: false
+            referencedRelation: 'rubrics'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'rubric_assessments_graded_by_fkey'
+            columns: ['graded_by']
+            isOneToOne: false
+            referencedRelation: 'profiles'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      submission_annotations: {
+        Row: {
+          id: string
+          submission_id: string
+          author_id: string | null
+          start_index: number
+          end_index: number
+          quote: string
+          comment: string
+          plagiarism_report_id: string | null
+          matched_segment: Json | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          submission_id: string
+          author_id?: string | null
+          start_index: number
+          end_index: number
+          quote: string
+          comment: string
+          plagiarism_report_id?: string | null
+          matched_segment?: Json | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          submission_id?: string
+          author_id?: string | null
+          start_index?: number
+          end_index?: number
+          quote?: string
+          comment?: string
+          plagiarism_report_id?: string | null
+          matched_segment?: Json | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'submission_annotations_submission_id_fkey'
+            columns: ['submission_id']
+            isOneToOne: false
+            referencedRelation: 'submissions'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'submission_annotations_author_id_fkey'
+            columns: ['author_id']
+            isOneToOne: false
+            referencedRelation: 'profiles'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'submission_annotations_plagiarism_report_id_fkey'
+            columns: ['plagiarism_report_id']
+            isOneToOne: false
+            referencedRelation: 'plagiarism_reports'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      deadline_extensions: {
+        Row: {
+          id: string
+          assignment_id: string
+          student_id: string
+          due_date: string
+          reason: string
+          granted_by: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          assignment_id: string
+          student_id: string
+          due_date: string
+          reason?: string
+          granted_by?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          assignment_id?: string
+          student_id?: string
+          due_date?: string
+          reason?: string
+          granted_by?: string | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'deadline_extensions_assignment_id_fkey'
+            columns: ['assignment_id']
+            isOneToOne: false
+            referencedRelation: 'assignments'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'deadline_extensions_student_id_fkey'
+            columns: ['student_id']
+            isOneToOne: false
+            referencedRelation: 'profiles'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'deadline_extensions_granted_by_fkey'
+            columns: ['granted_by']
+            isOneToOne: false
+            referencedRelation: 'profiles'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      accommodations: {
+        Row: {
+          id: string
+          course_id: string
+          student_id: string
+          extra_minutes: number
+          note: string
+          granted_by: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          course_id: string
+          student_id: string
+          extra_minutes: number
+          note?: string
+          granted_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          course_id?: string
+          student_id?: string
+          extra_minutes?: number
+          note?: string
+          granted_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'accommodations_course_id_fkey'
+            columns: ['course_id']
+            isOneToOne: false
+            referencedRelation: 'courses'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'accommodations_student_id_fkey'
+            columns: ['student_id']
+            isOneToOne: false
+            referencedRelation: 'profiles'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'accommodations_granted_by_fkey'
+            columns: ['granted_by']
+            isOneToOne: false
+            referencedRelation: 'profiles'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      submission_versions: {
+        Row: {
+          id: string
+          submission_id: string
+          version_number: number
+          content: string
+          status: 'draft' | 'submitted'
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          submission_id: string
+          version_number: number
+          content?: string
+          status: 'draft' | 'submitted'
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          submission_id?: string
+          version_number?: number
+          content?: string
+          status?: 'draft' | 'submitted'
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'submission_versions_submission_id_fkey'
+            columns: ['submission_id']
+            isOneToOne: false
+            referencedRelation: 'submissions'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+    }
+    Views: {
+      [_ in never]: never
+    }
+    Functions: {
+      claim_plagiarism_jobs: {
+        Args: { max_jobs?: number }
+        Returns: Database['public']['Tables']['plagiarism_jobs']['Row'][]
+      }
+      generate_invite_code: {
+        Args: Record<string, never>
+        Returns: string
+      }
+      is_enrolled: {
+        Args: { target_course_id: string; required_role?: 'student' | 'auditor' }
+        Returns: boolean
+      }
+      match_reference_fingerprints: {
+        Args: {
+          query_hashes: number[]
+          target_reference_ids: string[]
+        }
+        Returns: {
+          reference_id: string
+          hash: number
+          token_index: number
+          start_offset: number
+          end_offset: number
+          page: number
+        }[]
+      }
+      match_submission_fingerprints: {
+        Args: {
+          query_hashes: number[]
+          target_assignment_ids: string[]
+          exclude_submission_id: string
+        }
+        Returns: {
+          submission_id: string
+          hash: number
+          token_index: number
+          start_offset: number
+          end_offset: number
+          file_id: string | null
+          file_name: string | null
+          page: number | null
+        }[]
+      }
+      queue_plagiarism_check: {
+        Args: { target_submission_id: string }
+        Returns: undefined
+      }
+      redeem_course_invite: {
+        Args: { invite_code: string }
+        Returns: string
+      }
+      review_plagiarism_case: {
+        Args: { target_case_id: string; new_status: string; review_note?: string }
+        Returns: Database['public']['Tables']['plagiarism_cases']['Row']
+      }
+    }
+    Enums: {
+      [_ in never]: never
+    }
+    CompositeTypes: {
+      [_ in never]: never
     }
   }
 }
@@ -0,0 +1,124 @@
+import { supabase } from './supabase';
+import type { Database } from './database.types';
+
+export type DeadlineExtension = Database['public']['Tables']['deadline_extensions']['Row'];
+
+export type Accommodation = Database['public']['Tables']['accommodations']['Row'];
+
+/**
+ * A student's due date for an assignment: the later of their extension and
+ * the due date plus their course accommodation. Mirrors the database's
+ * effective_due_date(), which is what lateness is recorded against.
+ */
+export function effectiveDueDate(
+  dueDate: string,
+  extension?: Pick<DeadlineExtension, 'due_date'> | null,
+  accommodation?: Pick<Accommodation, 'extra_minutes'> | null
+): string {
+  const accommodated = new Date(dueDate).getTime() + (accommodation?.extra_minutes ?? 0) * 60000;
+  const extended = extension ? new Date(extension.due_date).getTime() : -Infinity;
+
+  return new Date(Math.max(accommodated, extended)).toISOString();
+}
+
+export function formatExtraTime(minutes: number): string {
+  const hours = minutes / 60;
+  return `+${Number.isInteger(hours) ? hours : hours.toFixed(1)}h`;
+}
+
+/** Everything that moves a student's own deadlines. */
+export async function getStudentDeadlines(studentId: string) {
+  const [extensions, accommodations] = await Promise.all([
+    supabase.from('deadline_extensions').select('*').eq('student_id', studentId),
+    supabase.from('accommodations').select('*').eq('student_id', studentId),
+  ]);
+
+  return {
+    extensions: extensions.data || [],
+    accommodations: accommodations.data || [],
+  };
+}
+
+export async function getAssignmentExtensions(assignmentId: string): Promise<DeadlineExtension[]> {
+  const { data } = await supabase
+    .from('deadline_extensions')
+    .select('*')
+    .eq('assignment_id', assignmentId);
+
+  return data || [];
+}
+
+export async function getCourseAccommodations(courseId: string): Promise<Accommodation[]> {
+  const { data } = await supabase
+    .from('accommodations')
+    .select('*')
+    .eq('course_id', courseId);
+
+  return data || [];
+}
+
+/** Gives the student a new due date for the assignment, replacing any earlier extension. */
+export async function grantExtension(extension: {
+  assignmentId: string;
+  studentId: string;
+  dueDate: string;
+  reason: string;
+  grantedBy: string;
+}) {
+  const dueDate = new Date(extension.dueDate);
+  if (Number.isNaN(dueDate.getTime())) {
+    return { error: 'Choose the new due date.' };
+  }
+
+  const { error } = await supabase
+    .from('deadline_extensions')
+    .upsert(
+      {
+        assignment_id: extension.assignmentId,
+        student_id: extension.studentId,
+        due_date: dueDate.toISOString(),
+        reason: extension.reason.trim(),
+        granted_by: extension.grantedBy,
+      },
+      { onConflict: 'assignment_id,student_id' }
+    );
+
+  return { error: error?.message ?? null };
+}
+
+export async function revokeExtension(id: string) {
+  return supabase.from('deadline_extensions').delete().eq('id', id);
+}
+
+/** Records extra time on every deadline in the course, replacing any earlier accommodation. */
+export async function saveAccommodation(accommodation: {
+  courseId: string;
+  studentId: string;
+  extraMinutes: number;
+  note: string;
+  grantedBy: string;
+}) {
+  if (!Number.isFinite(accommodation.extraMinutes) || accommodation.extraMinutes <= 0) {
+    return { error: 'Extra time must be more than zero.' };
+  }
+
+  const { error } = await supabase
+    .from('accommodations')
+    .upsert(
+      {
+        course_id: accommodation.courseId,
+        student_id: accommodation.studentId,
+        extra_minutes: Math.round(accommodation.extraMinutes),
+        note: accommodation.note.trim(),
+        granted_by: accommodation.grantedBy,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: 'course_id,student_id' }
+    );
+
+  return { error: error?.message ?? null };
+}
+
+export async function removeAccommodation(id: string) {
+  return supabase.from('accommodations').delete().eq('id', id);
+}
@@ -0,0 +1,107 @@
+export type DiffPart = {
+  type: 'equal' | 'added' | 'removed';
+  text: string;
+};
+
+export type DiffStats = {
+  addedWords: number;
+  removedWords: number;
+};
+
+// Beyond this many cells a comparison table gets too big: words fall back to lines, lines to a wholesale change
+const MAX_TABLE_CELLS = 4_000_000;
+
+function words(text: string): string[] {
+  return text.match(/\s+|\S+/g) ?? [];
+}
+
+function lines(text: string): string[] {
+  return text.match(/[^\n]*\n|[^\n]+/g) ?? [];
+}
+
+function pushPart(parts: DiffPart[], type: DiffPart['type'], text: string) {
+  const last = parts[parts.length - 1];
+  if (last?.type === type) {
+    last.text += text;
+  } else if (text) {
+    parts.push({ type, text });
+  }
+}
+
+/** Longest-common-subsequence diff of two token lists, without their shared start and end. */
+function diffTokens(before: string[], after: string[], parts: DiffPart[]) {
+  const n = before.length;
+  const m = after.length;
+  const table = new Uint32Array((n + 1) * (m + 1));
+
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      table[i * (m + 1) + j] = before[i] === after[j]
+        ? table[(i + 1) * (m + 1) + j + 1] + 1
+        : Math.max(table[(i + 1) * (m + 1) + j], table[i * (m + 1) + j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (before[i] === after[j]) {
+      pushPart(parts, 'equal', before[i]);
+      i++;
+      j++;
+    } else if (table[(i + 1) * (m + 1) + j] >= table[i * (m + 1) + j + 1]) {
+      pushPart(parts, 'removed', before[i++]);
+    } else {
+      pushPart(parts, 'added', after[j++]);
+    }
+  }
+  while (i < n) pushPart(parts, 'removed', before[i++]);
+  while (j < m) pushPart(parts, 'added', after[j++]);
+}
+
+/**
+ * Word-level diff of two versions of a text. Joining the equal and removed
+ * parts gives `before`; joining the equal and added parts gives `after`.
+ */
+export function diffText(before: string, after: string): DiffPart[] {
+  const wordsBefore = words(before);
+  const wordsAfter = words(after);
+
+  let start = 0;
+  while (start < wordsBefore.length && start < wordsAfter.length && wordsBefore[start] === wordsAfter[start]) start++;
+
+  let end = 0;
+  while (
+    end < wordsBefore.length - start &&
+    end < wordsAfter.length - start &&
+    wordsBefore[wordsBefore.length - 1 - end] === wordsAfter[wordsAfter.length - 1 - end]
+  ) end++;
+
+  const changedBefore = wordsBefore.slice(start, wordsBefore.length - end);
+  const changedAfter = wordsAfter.slice(start, wordsAfter.length - end);
+  const linesBefore = lines(changedBefore.join(''));
+  const linesAfter = lines(changedAfter.join(''));
+
+  const parts: DiffPart[] = [];
+  pushPart(parts, 'equal', wordsBefore.slice(0, start).join(''));
+
+  if ((changedBefore.length + 1) * (changedAfter.length + 1) <= MAX_TABLE_CELLS) {
+    diffTokens(changedBefore, changedAfter, parts);
+  } else if ((linesBefore.length + 1) * (linesAfter.length + 1) <= MAX_TABLE_CELLS) {
+    diffTokens(linesBefore, linesAfter, parts);
+  } else {
+    pushPart(parts, 'removed', changedBefore.join(''));
+    pushPart(parts, 'added', changedAfter.join(''));
+  }
+
+  pushPart(parts, 'equal', wordsAfter.slice(wordsAfter.length - end).join(''));
+  return parts;
+}
+
+export function diffStats(parts: DiffPart[]): DiffStats {
+  const count = (type: DiffPart['type']) => parts
+    .filter(part => part.type === type)
+    .reduce((sum, part) => sum + (part.text.match(/\S+/g)?.length ?? 0), 0);
+
+  return { addedWords: count('added'), removedWords: count('removed') };
+}
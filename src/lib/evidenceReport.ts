@@ -0,0 +1,361 @@
+import { supabase } from './supabase';
+import type { Json } from './database.types';
+import { splitByRanges, type HighlightRange } from './highlight';
+import {
+  COMPARISON_SCOPE_OPTIONS,
+  getPlagiarismReports,
+  getPlagiarismRuns,
+  getSourceText,
+  type ExcludedSegment,
+  type MatchedSegment,
+  type ParaphrasedSegment,
+  type PlagiarismRun,
+} from './plagiarism';
+import { getCaseHistory, getCaseStatusLabel, type CaseStatus } from './plagiarismCases';
+import type { MatchLocation } from './submissionText';
+
+type EvidenceMatch<T extends MatchedSegment = MatchedSegment> = {
+  segment: T;
+  /** The passage of the matched source that this match corresponds to. */
+  counterpartText: string;
+};
+
+type EvidenceSource = {
+  number: number;
+  name: string;
+  detail: string;
+  score: number;
+  citedScore: number;
+  paraphraseScore: number;
+  caseStatus: CaseStatus | null;
+  history: Awaited<ReturnType<typeof getCaseHistory>>;
+  matches: EvidenceMatch[];
+  paraphrases: EvidenceMatch<ParaphrasedSegment>[];
+};
+
+export type Evidence = {
+  studentName: string;
+  studentEmail: string;
+  assignmentTitle: string;
+  courseTitle: string;
+  submittedAt: string | null;
+  content: string;
+  run: PlagiarismRun;
+  excluded: ExcludedSegment[];
+  sources: EvidenceSource[];
+  generatedAt: string;
+};
+
+const PARAMETER_LABELS: Record<string, string> = {
+  k: 'Fingerprint length (tokens)',
+  windowSize: 'Winnowing window (fingerprints)',
+  minMatchTokens: 'Minimum match length (tokens)',
+  maxGapTokens: 'Allowed gap inside a match (tokens)',
+  checkMode: 'Check mode',
+  codeLanguage: 'Code language',
+  tokenizer: 'Tokenizer',
+  excludeDescription: 'Assignment prompt excluded',
+  excludeStarter: 'Starter file excluded',
+  flagScore: 'Flag score (%)',
+  paraphrase: 'Paraphrase detection (window, stride, similarity, sources compared)',
+};
+
+/**
+ * Collects everything the evidence report shows for one run of a
+ * submission's check: the latest run when `runId` is omitted. Returns null
+ * when the submission has never been checked.
+ */
+export async function gatherEvidence(submissionId: string, runId?: string): Promise<Evidence | null> {
+  const { data: submission } = await supabase
+    .from('submissions')
+    .select(`
+      content,
+      submitted_at,
+      student:profiles(full_name, email),
+      assignment:assignments(title, course:courses(title))
+    `)
+    .eq('id', submissionId)
+    .single();
+
+  const runs = await getPlagiarismRuns(supabase, submissionId);
+  const run = runId ? runs.find(r => r.id === runId) : runs[0];
+  if (!submission || !run) return null;
+
+  const reports = await getPlagiarismReports(supabase, submissionId, run.id);
+
+  const texts = new Map<string, Promise<string>>();
+  const loadText = (source: { submissionId?: string; referenceId?: string; fileId?: string }) => {
+    const key = JSON.stringify(source);
+    if (!texts.has(key)) texts.set(key, getSourceText(supabase, source));
+    return texts.get(key)!;
+  };
+
+  const sources: EvidenceSource[] = [];
+
+  for (const [index, report] of reports.entries()) {
+    const withCounterpart = async <T extends MatchedSegment>(segment: T): Promise<EvidenceMatch<T>> => {
+      const counterpart = await loadText({
+        referenceId: segment.matchedReferenceId,
+        fileId: segment.matchedFile?.fileId,
+        submissionId: segment.matchedSubmissionId,
+      });
+      return { segment, counterpartText: counterpart.slice(segment.matchedStartIndex, segment.matchedEndIndex) };
+    };
+
+    const matches: EvidenceMatch[] = [];
+    for (const segment of report.matched_content as MatchedSegment[]) {
+      matches.push(await withCounterpart(segment));
+    }
+
+    const paraphrases: EvidenceMatch<ParaphrasedSegment>[] = [];
+    for (const segment of report.paraphrased_content as ParaphrasedSegment[]) {
+      paraphrases.push(await withCounterpart(segment));
+    }
+
+    sources.push({
+      number: index + 1,
+      name: report.compared_reference
+        ? `Reference: ${report.compared_reference.title}`
+        : `Student: ${report.compared_submission?.student?.full_name || 'Unknown'}`,
+      detail: report.compared_reference
+        ? report.compared_reference.tags.join(', ')
+        : [
+          report.compared_submission?.student?.email,
+          report.compared_submission?.assignment?.title,
+        ].filter(Boolean).join(' · '),
+      score: report.similarity_score - report.cited_score,
+      citedScore: report.cited_score,
+      paraphraseScore: report.paraphrase_score,
+      caseStatus: report.review_case?.status ?? null,
+      history: report.review_case ? await getCaseHistory(report.review_case.id) : [],
+      matches,
+      paraphrases,
+    });
+  }
+
+  return {
+    studentName: submission.student?.full_name || 'Unknown student',
+    studentEmail: submission.student?.email || '',
+    assignmentTitle: submission.assignment?.title || '',
+    courseTitle: submission.assignment?.course?.title || '',
+    submittedAt: submission.submitted_at,
+    content: submission.content,
+    run,
+    excluded: ((reports[0]?.excluded_content || []) as ExcludedSegment[]).filter(span => !span.file),
+    sources,
+    generatedAt: new Date().toISOString(),
+  };
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function formatDate(value: string | null): string {
+  return value ? new Date(value).toLocaleString() : 'Not recorded';
+}
+
+function formatParameter(value: Json): string {
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (value === null) return 'None';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+function locationLabel(location: MatchLocation | undefined, fallback: string): string {
+  return location ? `${location.fileName}, page ${location.page}` : fallback;
+}
+
+function renderHighlightedContent(evidence: Evidence): string {
+  // Dismissed sources are listed for the record but not highlighted as evidence
+  const ranges: HighlightRange<number | 'excluded'>[] = [
+    ...evidence.sources
+      .filter(source => source.caseStatus !== 'dismissed')
+      .flatMap(source => source.matches
+        .filter(match => !match.segment.file)
+        .map(match => ({ startIndex: match.segment.startIndex, endIndex: match.segment.endIndex, data: source.number }))),
+    ...evidence.excluded.map(span => ({ startIndex: span.startIndex, endIndex: span.endIndex, data: 'excluded' as const })),
+  ];
+
+  return splitByRanges(evidence.content, ranges)
+    .map(piece => {
+      if (piece.data === null) return escapeHtml(piece.text);
+      if (piece.data === 'excluded') return `<span class="excluded">${escapeHtml(piece.text)}</span>`;
+      return `<mark>${escapeHtml(piece.text)}<sup>[${piece.data}]</sup></mark>`;
+    })
+    .join('');
+}
+
+// Paraphrased passages are numbered apart from verbatim matches and show how similar their wording is
+function renderMatchRows(
+  source: EvidenceSource,
+  matches: EvidenceMatch<MatchedSegment & { similarity?: number }>[],
+  prefix = ''
+): string {
+  return matches.map((match, index) => `
+    <tr>
+      <td class="number">${prefix}${source.number}.${index + 1}${
+        match.segment.similarity !== undefined ? `<div>${Math.round(match.segment.similarity * 100)}%</div>` : ''
+      }</td>
+      <td>
+        <div class="location">${escapeHtml(locationLabel(match.segment.file, 'Typed answer'))}</div>
+        <div class="excerpt">${escapeHtml(match.segment.text)}</div>
+      </td>
+      <td>
+        <div class="location">${escapeHtml(locationLabel(match.segment.matchedFile, 'Matched text'))}</div>
+        <div class="excerpt">${escapeHtml(match.counterpartText)}</div>
+      </td>
+    </tr>`).join('');
+}
+
+function renderSource(source: EvidenceSource): string {
+  const paraphrases = source.paraphrases.length === 0 ? '' : `
+      <h4>Likely paraphrased passages</h4>
+      <p class="muted">
+        These passages share few exact phrases with the source but use the same words, synonyms or word forms.
+        The percentage after each number is how similar the wording of the two passages is.
+      </p>
+      <table class="matches">
+        <thead><tr><th></th><th>This submission</th><th>Matched source</th></tr></thead>
+        <tbody>${renderMatchRows(source, source.paraphrases, 'P')}</tbody>
+      </table>`;
+
+  const history = source.history.length === 0
+    ? '<p class="muted">No review decisions recorded.</p>'
+    : `<ul class="history">${source.history.map(event => `
+        <li>
+          <span class="muted">${escapeHtml(formatDate(event.created_at))}</span> ·
+          ${escapeHtml(event.actor?.full_name || 'Unknown reviewer')}:
+          ${escapeHtml(
+            event.from_status !== event.to_status
+              ? `${getCaseStatusLabel(event.from_status as CaseStatus)} → ${getCaseStatusLabel(event.to_status as CaseStatus)}`
+              : 'added a note'
+          )}
+          ${event.note ? `<div class="note">${escapeHtml(event.note)}</div>` : ''}
+        </li>`).join('')}</ul>`;
+
+  return `
+    <section class="source">
+      <h3>[${source.number}] ${escapeHtml(source.name)}</h3>
+      ${source.detail ? `<p class="muted">${escapeHtml(source.detail)}</p>` : ''}
+      <p>
+        Uncited overlap: <strong>${source.score.toFixed(1)}%</strong>
+        · Cited overlap: ${source.citedScore.toFixed(1)}%
+        ${source.paraphraseScore > 0 ? `· Likely paraphrased: ${source.paraphraseScore.toFixed(1)}%` : ''}
+        · Case status: ${escapeHtml(source.caseStatus ? getCaseStatusLabel(source.caseStatus) : 'Below the flag score')}
+      </p>
+      ${source.matches.length === 0 ? '<p class="muted">No passages matched word for word.</p>' : `
+      <table class="matches">
+        <thead><tr><th></th><th>This submission</th><th>Matched source</th></tr></thead>
+        <tbody>${renderMatchRows(source, source.matches)}</tbody>
+      </table>`}
+      ${paraphrases}
+      <h4>Review history</h4>
+      ${history}
+    </section>`;
+}
+
+/** Renders the evidence as a standalone HTML document that also prints cleanly to PDF. */
+export function renderEvidenceReport(evidence: Evidence): string {
+  const { run } = evidence;
+  const parameters = Object.entries((run.parameters || {}) as Record<string, Json>);
+  const scope = COMPARISON_SCOPE_OPTIONS.find(option => option.value === run.comparison_scope)?.label;
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Plagiarism evidence – ${escapeHtml(evidence.studentName)} – ${escapeHtml(evidence.assignmentTitle)}</title>
+<style>
+  body { font-family: system-ui, -apple-system, 'Segoe UI', sans-serif; color: #111827; max-width: 960px; margin: 2rem auto; padding: 0 1rem; font-size: 14px; line-height: 1.5; }
+  h1 { font-size: 1.6rem; margin-bottom: 0.25rem; }
+  h2 { font-size: 1.2rem; border-bottom: 1px solid #d1d5db; padding-bottom: 0.25rem; margin-top: 2rem; }
+  h3 { font-size: 1rem; margin-bottom: 0.25rem; }
+  h4 { font-size: 0.9rem; margin: 1rem 0 0.25rem; }
+  table { border-collapse: collapse; width: 100%; }
+  th, td { border: 1px solid #d1d5db; padding: 0.4rem 0.6rem; text-align: left; vertical-align: top; }
+  th { background: #f3f4f6; }
+  .muted { color: #6b7280; }
+  .print-hint { background: #eff6ff; border: 1px solid #bfdbfe; padding: 0.5rem 0.75rem; border-radius: 6px; }
+  .content, .excerpt, .note { white-space: pre-wrap; }
+  .content { border: 1px solid #d1d5db; padding: 0.75rem; border-radius: 6px; }
+  .excerpt { font-family: ui-monospace, monospace; font-size: 12px; }
+  .location { font-size: 12px; color: #6b7280; margin-bottom: 0.25rem; }
+  .number { width: 3rem; color: #6b7280; }
+  mark { background: #fde68a; }
+  mark sup { font-size: 10px; color: #92400e; }
+  .excluded { color: #9ca3af; }
+  .source { margin-top: 1.5rem; }
+  .history { padding-left: 1.25rem; }
+  .summary td:first-child { width: 40%; }
+  @page { margin: 18mm; }
+  @media print {
+    body { margin: 0; max-width: none; }
+    .print-hint { display: none; }
+    .source { break-inside: avoid-page; }
+    tr { break-inside: avoid; }
+    mark { -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+  }
+</style>
+</head>
+<body>
+<p class="print-hint">To save this report as a PDF, print it and choose "Save as PDF" as the printer.</p>
+<h1>Plagiarism Evidence Report</h1>
+<p class="muted">Generated ${escapeHtml(formatDate(evidence.generatedAt))}</p>
+
+<h2>Submission</h2>
+<table class="summary">
+  <tr><td>Student</td><td>${escapeHtml(evidence.studentName)}${evidence.studentEmail ? ` (${escapeHtml(evidence.studentEmail)})` : ''}</td></tr>
+  <tr><td>Course</td><td>${escapeHtml(evidence.courseTitle)}</td></tr>
+  <tr><td>Assignment</td><td>${escapeHtml(evidence.assignmentTitle)}</td></tr>
+  <tr><td>Submitted</td><td>${escapeHtml(formatDate(evidence.submittedAt))}</td></tr>
+</table>
+
+<h2>Check</h2>
+<table class="summary">
+  <tr><td>Checked</td><td>${escapeHtml(formatDate(run.created_at))}</td></tr>
+  <tr><td>Compared against</td><td>${escapeHtml(scope || run.comparison_scope)}</td></tr>
+  <tr><td>Overall similarity</td><td>${run.overall_similarity.toFixed(1)}%</td></tr>
+  <tr><td>Uncited overlap</td><td><strong>${(run.overall_similarity - run.cited_overlap).toFixed(1)}%</strong></td></tr>
+  <tr><td>Cited overlap</td><td>${run.cited_overlap.toFixed(1)}%</td></tr>
+  ${run.paraphrase_overlap > 0 ? `<tr><td>Likely paraphrased</td><td>${run.paraphrase_overlap.toFixed(1)}%</td></tr>` : ''}
+  <tr><td>Algorithm version</td><td>${escapeHtml(run.algorithm_version)}</td></tr>
+  ${parameters.length === 0
+    ? '<tr><td>Parameters</td><td class="muted">Not recorded for this run</td></tr>'
+    : parameters.map(([key, value]) => `
+  <tr><td>${escapeHtml(PARAMETER_LABELS[key] || key)}</td><td>${escapeHtml(formatParameter(value))}</td></tr>`).join('')}
+</table>
+
+<h2>Submitted Text</h2>
+${evidence.content.trim()
+    ? `<p class="muted">Highlighted passages match the numbered sources below. Grey text matches the assignment prompt or starter file and was not scored.</p>
+<div class="content">${renderHighlightedContent(evidence)}</div>`
+    : '<p class="muted">The submission has no typed answer; matches in attachments are listed below.</p>'}
+
+<h2>Matched Sources</h2>
+${evidence.sources.length === 0
+    ? '<p class="muted">This check found no matching sources.</p>'
+    : evidence.sources.map(renderSource).join('')}
+</body>
+</html>
+`;
+}
+
+export function downloadEvidenceReport(evidence: Evidence) {
+  const html = renderEvidenceReport(evidence);
+  const slug = `${evidence.studentName}-${evidence.assignmentTitle}`
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+
+  const url = URL.createObjectURL(new Blob([html], { type: 'text/html' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `plagiarism-evidence-${slug}.html`;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
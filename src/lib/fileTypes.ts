@@ -0,0 +1,28 @@
+/**
+ * File type helpers shared by the app and the plagiarism worker. Nothing here
+ * may import the browser Supabase client.
+ */
+
+export const SUBMISSION_FILES_BUCKET = 'submission-files';
+
+export const FILE_TYPE_OPTIONS = [
+  { extension: 'pdf', label: 'PDF' },
+  { extension: 'docx', label: 'Word (.docx)' },
+  { extension: 'odt', label: 'OpenDocument (.odt)' },
+  { extension: 'txt', label: 'Plain text' },
+  { extension: 'zip', label: 'ZIP archive' },
+  { extension: 'gz', label: 'Tarball (.tar.gz)' },
+  { extension: 'png', label: 'PNG image' },
+  { extension: 'jpg', label: 'JPEG image' },
+  { extension: 'js', label: 'JavaScript (.js)' },
+  { extension: 'ts', label: 'TypeScript (.ts)' },
+  { extension: 'py', label: 'Python (.py)' },
+  { extension: 'java', label: 'Java (.java)' },
+  { extension: 'c', label: 'C source (.c)' },
+  { extension: 'h', label: 'C header (.h)' },
+];
+
+export function getFileExtension(fileName: string): string {
+  const dot = fileName.lastIndexOf('.');
+  return dot === -1 ? '' : fileName.slice(dot + 1).toLowerCase();
+}
@@ -0,0 +1,367 @@
+/**
+ * k-gram fingerprinting with winnowing (Schleimer, Wilkerson & Aiken, 2003).
+ *
+ * Text is reduced to a token stream, every run of k consecutive tokens is
+ * hashed, and from each window of `windowSize` consecutive hashes the minimum
+ * is kept as a fingerprint. Any shared passage of at least
+ * k + windowSize - 1 tokens is guaranteed to share a fingerprint, which we use
+ * as a seed and then extend token by token, bridging small edits, to recover
+ * the full passage.
+ */
+
+export type FingerprintOptions = {
+  /** Number of tokens per k-gram. Shorter values find shorter matches but are noisier. */
+  k: number;
+  /** Number of consecutive k-gram hashes per winnowing window. */
+  windowSize: number;
+  /** Passages shorter than this many tokens are discarded. */
+  minMatchTokens: number;
+  /** Unmatched tokens allowed between two runs before they stop being one passage. */
+  maxGapTokens: number;
+};
+
+export const DEFAULT_FINGERPRINT_OPTIONS: FingerprintOptions = {
+  k: 5,
+  windowSize: 4,
+  minMatchTokens: 8,
+  maxGapTokens: 3,
+};
+
+export type Token = {
+  value: string;
+  start: number;
+  end: number;
+};
+
+export type Fingerprint = {
+  hash: number;
+  tokenIndex: number;
+};
+
+export type MatchedPassage = {
+  startToken: number;
+  endToken: number;
+  matchedStartToken: number;
+  matchedEndToken: number;
+};
+
+/** Turns text into the token stream that is fingerprinted; `key` identifies it in the stored index. */
+export type Tokenizer = {
+  key: string;
+  tokenize: (text: string) => Token[];
+};
+
+// Very common k-grams (boilerplate phrases) would otherwise produce a seed for every pairing
+const MAX_SEEDS_PER_HASH = 32;
+
+// Scripts written without spaces between words; each character, with its marks, is taken as a token
+const UNSEGMENTED_SCRIPTS =
+  '\\p{Script=Han}\\p{Script=Hiragana}\\p{Script=Katakana}\\p{Script=Thai}\\p{Script=Lao}\\p{Script=Khmer}\\p{Script=Myanmar}';
+
+// Letters, combining marks and digits of any script; the joiners keep Indic and Persian words whole
+const WORD_PATTERN = new RegExp(
+  `(?!\\p{M})[${UNSEGMENTED_SCRIPTS}]\\p{M}*|(?:(?![${UNSEGMENTED_SCRIPTS}])[\\p{L}\\p{M}\\p{N}\\u200C\\u200D])+`,
+  'gu'
+);
+
+/**
+ * Splits text into words of any script. Token values are NFKC-normalized and
+ * lowercased, so full-width, ligature and composed/decomposed forms of the
+ * same word compare equal; offsets still point into the original text.
+ */
+export function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  const pattern = new RegExp(WORD_PATTERN);
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(text)) !== null) {
+    const value = match[0].normalize('NFKC').replace(/[\u200C\u200D]/g, '').toLowerCase();
+    if (!value) continue;
+
+    tokens.push({
+      value,
+      start: match.index,
+      end: match.index + match[0].length,
+    });
+  }
+
+  return tokens;
+}
+
+export const TEXT_TOKENIZER: Tokenizer = { key: 'text:auto', tokenize };
+
+// 32-bit FNV-1a; stable across runs so fingerprints can be stored and compared later
+function hashKGram(tokens: Token[], start: number, k: number): number {
+  let hash = 0x811c9dc5;
+
+  for (let i = start; i < start + k; i++) {
+    const value = tokens[i].value;
+    for (let c = 0; c < value.length; c++) {
+      hash ^= value.charCodeAt(c);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    hash ^= 0x20;
+    hash = Math.imul(hash, 0x01000193);
+  }
+
+  return hash >>> 0;
+}
+
+export function winnow(tokens: Token[], options: FingerprintOptions = DEFAULT_FINGERPRINT_OPTIONS): Fingerprint[] {
+  const { k, windowSize } = options;
+  if (tokens.length < k) return [];
+
+  const hashes: number[] = [];
+  for (let i = 0; i + k <= tokens.length; i++) {
+    hashes.push(hashKGram(tokens, i, k));
+  }
+
+  if (hashes.length <= windowSize) {
+    let min = 0;
+    hashes.forEach((hash, i) => {
+      if (hash <= hashes[min]) min = i;
+    });
+    return [{ hash: hashes[min], tokenIndex: min }];
+  }
+
+  const fingerprints: Fingerprint[] = [];
+  let lastSelected = -1;
+
+  for (let windowStart = 0; windowStart + windowSize <= hashes.length; windowStart++) {
+    let min = windowStart;
+    for (let i = windowStart + 1; i < windowStart + windowSize; i++) {
+      // Rightmost minimum, so a window shift only records a new fingerprint when it must
+      if (hashes[i] <= hashes[min]) min = i;
+    }
+
+    if (min !== lastSelected) {
+      fingerprints.push({ hash: hashes[min], tokenIndex: min });
+      lastSelected = min;
+    }
+  }
+
+  return fingerprints;
+}
+
+function tokensEqual(a: Token[], i: number, b: Token[], j: number): boolean {
+  return a[i].value === b[j].value;
+}
+
+function exactRunLength(a: Token[], i: number, b: Token[], j: number, direction: 1 | -1): number {
+  let length = 0;
+  while (
+    i + direction * length >= 0 && i + direction * length < a.length &&
+    j + direction * length >= 0 && j + direction * length < b.length &&
+    tokensEqual(a, i + direction * length, b, j + direction * length)
+  ) {
+    length++;
+  }
+  return length;
+}
+
+/**
+ * Looks past a small edit (inserted, deleted or substituted tokens) at the
+ * edge of a run and returns how far the run can continue, or null when fewer
+ * than k tokens line up again on the other side of the gap.
+ */
+function bridgeGap(
+  a: Token[],
+  edgeA: number,
+  b: Token[],
+  edgeB: number,
+  direction: 1 | -1,
+  options: FingerprintOptions
+): { edgeA: number; edgeB: number } | null {
+  let best: { edgeA: number; edgeB: number; length: number } | null = null;
+
+  for (let gapA = 0; gapA <= options.maxGapTokens; gapA++) {
+    for (let gapB = 0; gapB <= options.maxGapTokens; gapB++) {
+      if (gapA === 0 && gapB === 0) continue;
+
+      const i = edgeA + direction * gapA;
+      const j = edgeB + direction * gapB;
+      const length = exactRunLength(a, i, b, j, direction);
+
+      if (length >= options.k && (!best || length > best.length)) {
+        best = { edgeA: i + direction * length, edgeB: j + direction * length, length };
+      }
+    }
+  }
+
+  return best && { edgeA: best.edgeA, edgeB: best.edgeB };
+}
+
+/**
+ * Expands shared fingerprints into maximal runs of identical tokens, then
+ * joins runs separated by small edits into near-exact passages.
+ */
+export function findSharedPassages(
+  tokensA: Token[],
+  fingerprintsA: Fingerprint[],
+  tokensB: Token[],
+  fingerprintsB: Fingerprint[],
+  options: FingerprintOptions = DEFAULT_FINGERPRINT_OPTIONS
+): MatchedPassage[] {
+  const { k, minMatchTokens, maxGapTokens } = options;
+
+  const positionsB = new Map<number, number[]>();
+  for (const fingerprint of fingerprintsB) {
+    const positions = positionsB.get(fingerprint.hash);
+    if (!positions) {
+      positionsB.set(fingerprint.hash, [fingerprint.tokenIndex]);
+    } else if (positions.length < MAX_SEEDS_PER_HASH) {
+      positions.push(fingerprint.tokenIndex);
+    }
+  }
+
+  const runs: MatchedPassage[] = [];
+  const seen = new Set<string>();
+
+  for (const fingerprint of fingerprintsA) {
+    for (const seedB of positionsB.get(fingerprint.hash) || []) {
+      const seedA = fingerprint.tokenIndex;
+
+      // Seeds inside a passage we already expanded would only rediscover it
+      if (runs.some(run =>
+        seedA >= run.startToken && seedA < run.endToken &&
+        seedB >= run.matchedStartToken && seedB < run.matchedEndToken
+      )) continue;
+
+      // Hash collisions are possible; confirm the k-gram really is identical
+      let identical = true;
+      for (let offset = 0; offset < k; offset++) {
+        if (!tokensEqual(tokensA, seedA + offset, tokensB, seedB + offset)) {
+          identical = false;
+          break;
+        }
+      }
+      if (!identical) continue;
+
+      const before = exactRunLength(tokensA, seedA - 1, tokensB, seedB - 1, -1);
+      let startA = seedA - before;
+      let startB = seedB - before;
+
+      const after = exactRunLength(tokensA, seedA + k, tokensB, seedB + k, 1);
+      let endA = seedA + k + after;
+      let endB = seedB + k + after;
+
+      // `start` is inclusive and `end` exclusive, so the backward edge is the token before start
+      for (let bridge = bridgeGap(tokensA, startA - 1, tokensB, startB - 1, -1, options); bridge;
+        bridge = bridgeGap(tokensA, startA - 1, tokensB, startB - 1, -1, options)) {
+        startA = bridge.edgeA + 1;
+        startB = bridge.edgeB + 1;
+      }
+
+      for (let bridge = bridgeGap(tokensA, endA, tokensB, endB, 1, options); bridge;
+        bridge = bridgeGap(tokensA, endA, tokensB, endB, 1, options)) {
+        endA = bridge.edgeA;
+        endB = bridge.edgeB;
+      }
+
+      const key = `${startA}:${startB}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      runs.push({ startToken: startA, endToken: endA, matchedStartToken: startB, matchedEndToken: endB });
+    }
+  }
+
+  runs.sort((a, b) => a.startToken - b.startToken || a.matchedStartToken - b.matchedStartToken);
+
+  const passages: MatchedPassage[] = [];
+  for (const run of runs) {
+    const last = passages[passages.length - 1];
+    const gapA = last ? run.startToken - last.endToken : Infinity;
+    const gapB = last ? run.matchedStartToken - last.matchedEndToken : Infinity;
+
+    if (last && gapA <= maxGapTokens && gapB >= -k && gapB <= maxGapTokens) {
+      last.endToken = Math.max(last.endToken, run.endToken);
+      last.matchedEndToken = Math.max(last.matchedEndToken, run.matchedEndToken);
+    } else if (last && run.startToken >= last.startToken && run.endToken <= last.endToken) {
+      // Same passage of A matched again elsewhere in B; the first occurrence is enough
+      continue;
+    } else {
+      passages.push({ ...run });
+    }
+  }
+
+  return passages.filter(p => p.endToken - p.startToken >= minMatchTokens);
+}
+
+/** A fingerprint read back from the stored index, with where its k-gram sits in its source. */
+export type IndexedFingerprint = Fingerprint & {
+  startOffset: number;
+  endOffset: number;
+  fileId: string | null;
+  fileName: string | null;
+  page: number | null;
+};
+
+export type IndexedPassage = {
+  startToken: number;
+  endToken: number;
+  first: IndexedFingerprint;
+  last: IndexedFingerprint;
+};
+
+/**
+ * Builds passages from index hits against one other document, without its
+ * full text. Shared fingerprints that lie on (roughly) the same diagonal and
+ * close together in both documents are chained into one passage.
+ */
+export function chainIndexedFingerprints(
+  fingerprintsA: Fingerprint[],
+  hitsB: IndexedFingerprint[],
+  options: FingerprintOptions = DEFAULT_FINGERPRINT_OPTIONS
+): IndexedPassage[] {
+  const { k, windowSize, minMatchTokens, maxGapTokens } = options;
+  // Winnowing picks at least one fingerprint per window in a shared region; an
+  // edit can additionally disturb every k-gram that overlaps it
+  const maxStep = windowSize + k + maxGapTokens;
+
+  const hitsByHash = new Map<number, IndexedFingerprint[]>();
+  for (const hit of hitsB) {
+    const hits = hitsByHash.get(hit.hash);
+    if (!hits) {
+      hitsByHash.set(hit.hash, [hit]);
+    } else if (hits.length < MAX_SEEDS_PER_HASH) {
+      hits.push(hit);
+    }
+  }
+
+  const chains: { firstA: number; lastA: number; first: IndexedFingerprint; last: IndexedFingerprint }[] = [];
+
+  for (const fingerprint of [...fingerprintsA].sort((a, b) => a.tokenIndex - b.tokenIndex)) {
+    for (const hit of hitsByHash.get(fingerprint.hash) || []) {
+      const a = fingerprint.tokenIndex;
+      const chain = chains.find(c => {
+        const stepA = a - c.lastA;
+        const stepB = hit.tokenIndex - c.last.tokenIndex;
+        return stepA > 0 && stepA <= maxStep &&
+          Math.abs(stepB - stepA) <= maxGapTokens &&
+          hit.fileId === c.last.fileId;
+      });
+
+      if (chain) {
+        chain.lastA = a;
+        chain.last = hit;
+      } else {
+        chains.push({ firstA: a, lastA: a, first: hit, last: hit });
+      }
+    }
+  }
+
+  const passages: IndexedPassage[] = [];
+  for (const chain of chains.sort((a, b) => a.firstA - b.firstA)) {
+    const endToken = chain.lastA + k;
+    const last = passages[passages.length - 1];
+
+    // Same passage of A matched again elsewhere in B; the first occurrence is enough
+    if (last && chain.firstA >= last.startToken && endToken <= last.endToken) continue;
+    if (endToken - chain.firstA < minMatchTokens) continue;
+
+    passages.push({ startToken: chain.firstA, endToken, first: chain.first, last: chain.last });
+  }
+
+  return passages;
+}
@@ -0,0 +1,232 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from './database.types';
+import {
+  chainIndexedFingerprints,
+  TEXT_TOKENIZER,
+  winnow,
+  type Fingerprint,
+  type FingerprintOptions,
+  type IndexedFingerprint,
+  type IndexedPassage,
+  type Tokenizer,
+} from './fingerprint';
+import { combineSubmissionText, locateOffset, pageAt, SUBMISSION_TEXT_COLUMNS } from './submissionText';
+
+const INSERT_BATCH_SIZE = 1000;
+
+export type IndexMatches = {
+  /** Passages shared with each matching document */
+  passages: Map<string, IndexedPassage[]>;
+  /** Distinct hashes shared with each document, counting those too scattered to form a passage */
+  sharedHashes: Map<string, number>;
+};
+
+function indexParams(options: FingerprintOptions, tokenizer: Tokenizer) {
+  return { k: options.k, windowSize: options.windowSize, tokenizer: tokenizer.key };
+}
+
+function isCurrent(params: unknown, options: FingerprintOptions, tokenizer: Tokenizer): boolean {
+  const expected = indexParams(options, tokenizer);
+  const stored = params as Partial<typeof expected> | null;
+  return stored?.k === expected.k &&
+    stored?.windowSize === expected.windowSize &&
+    stored?.tokenizer === expected.tokenizer;
+}
+
+/**
+ * Makes sure every given submission has fingerprints built with `options`
+ * and `tokenizer`. Only submissions whose index is missing or stale are
+ * fetched and hashed.
+ */
+export async function ensureFingerprints(
+  client: SupabaseClient<Database>,
+  submissionIds: string[],
+  options: FingerprintOptions,
+  tokenizer: Tokenizer = TEXT_TOKENIZER
+) {
+  if (submissionIds.length === 0) return;
+
+  const { data: states } = await client
+    .from('submission_fingerprint_state')
+    .select('submission_id, params')
+    .in('submission_id', submissionIds);
+
+  const indexed = new Set(
+    (states || []).filter(state => isCurrent(state.params, options, tokenizer)).map(state => state.submission_id)
+  );
+  const staleIds = submissionIds.filter(id => !indexed.has(id));
+  if (staleIds.length === 0) return;
+
+  const { data: submissions } = await client
+    .from('submissions')
+    .select(`id, ${SUBMISSION_TEXT_COLUMNS}`)
+    .in('id', staleIds);
+
+  for (const submission of submissions || []) {
+    const combined = combineSubmissionText(submission);
+    const tokens = tokenizer.tokenize(combined.text);
+
+    const rows = winnow(tokens, options).map(fingerprint => {
+      const start = locateOffset(tokens[fingerprint.tokenIndex].start, combined);
+      const endChar = tokens[fingerprint.tokenIndex + options.k - 1].end;
+      const endOffset = start.range ? Math.min(endChar, start.range.end) - start.range.start : endChar;
+
+      return {
+        submission_id: submission.id,
+        hash: fingerprint.hash,
+        token_index: fingerprint.tokenIndex,
+        start_offset: start.offset,
+        end_offset: endOffset,
+        file_id: start.file?.fileId ?? null,
+        page: start.file?.page ?? null,
+      };
+    });
+
+    await client.from('submission_fingerprints').delete().eq('submission_id', submission.id);
+
+    for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+      await client.from('submission_fingerprints').insert(rows.slice(i, i + INSERT_BATCH_SIZE));
+    }
+
+    await client.from('submission_fingerprint_state').upsert({
+      submission_id: submission.id,
+      params: indexParams(options, tokenizer),
+      indexed_at: new Date().toISOString(),
+    });
+  }
+}
+
+/**
+ * Looks up the given fingerprints in the index and returns, per matching
+ * submission, the passages they share with it and how many hashes it shares.
+ */
+export async function findIndexedPassages(
+  client: SupabaseClient<Database>,
+  fingerprints: Fingerprint[],
+  assignmentIds: string[],
+  excludeSubmissionId: string,
+  options: FingerprintOptions
+): Promise<IndexMatches> {
+  if (fingerprints.length === 0 || assignmentIds.length === 0) return { passages: new Map(), sharedHashes: new Map() };
+
+  const { data: hits } = await client.rpc('match_submission_fingerprints', {
+    query_hashes: [...new Set(fingerprints.map(f => f.hash))],
+    target_assignment_ids: assignmentIds,
+    exclude_submission_id: excludeSubmissionId,
+  });
+
+  return chainHitsByDocument(
+    fingerprints,
+    (hits || []).map(hit => ({
+      documentId: hit.submission_id,
+      hash: hit.hash,
+      tokenIndex: hit.token_index,
+      startOffset: hit.start_offset,
+      endOffset: hit.end_offset,
+      fileId: hit.file_id,
+      fileName: hit.file_name,
+      page: hit.page,
+    })),
+    options
+  );
+}
+
+function chainHitsByDocument(
+  fingerprints: Fingerprint[],
+  hits: (IndexedFingerprint & { documentId: string })[],
+  options: FingerprintOptions
+): IndexMatches {
+  const hitsByDocument = new Map<string, IndexedFingerprint[]>();
+  for (const { documentId, ...hit } of hits) {
+    const documentHits = hitsByDocument.get(documentId) || [];
+    documentHits.push(hit);
+    hitsByDocument.set(documentId, documentHits);
+  }
+
+  const passagesByDocument = new Map<string, IndexedPassage[]>();
+  const sharedHashes = new Map<string, number>();
+  for (const [documentId, documentHits] of hitsByDocument) {
+    const passages = chainIndexedFingerprints(fingerprints, documentHits, options);
+    if (passages.length > 0) passagesByDocument.set(documentId, passages);
+    sharedHashes.set(documentId, new Set(documentHits.map(hit => hit.hash)).size);
+  }
+
+  return { passages: passagesByDocument, sharedHashes };
+}
+
+/**
+ * Same as `ensureFingerprints`, for documents in the teacher's reference
+ * library. References are prose, indexed with the checked assignment's text
+ * tokenizer so that its language settings apply to them too.
+ */
+export async function ensureReferenceFingerprints(
+  client: SupabaseClient<Database>,
+  referenceIds: string[],
+  options: FingerprintOptions,
+  tokenizer: Tokenizer = TEXT_TOKENIZER
+) {
+  if (referenceIds.length === 0) return;
+
+  const { data: documents } = await client
+    .from('reference_documents')
+    .select('id, content, page_offsets, fingerprint_params')
+    .in('id', referenceIds);
+
+  for (const document of documents || []) {
+    if (isCurrent(document.fingerprint_params, options, tokenizer)) continue;
+
+    const tokens = tokenizer.tokenize(document.content);
+    const rows = winnow(tokens, options).map(fingerprint => {
+      const startOffset = tokens[fingerprint.tokenIndex].start;
+      return {
+        reference_id: document.id,
+        hash: fingerprint.hash,
+        token_index: fingerprint.tokenIndex,
+        start_offset: startOffset,
+        end_offset: tokens[fingerprint.tokenIndex + options.k - 1].end,
+        page: pageAt(startOffset, document.page_offsets),
+      };
+    });
+
+    await client.from('reference_fingerprints').delete().eq('reference_id', document.id);
+
+    for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+      await client.from('reference_fingerprints').insert(rows.slice(i, i + INSERT_BATCH_SIZE));
+    }
+
+    await client
+      .from('reference_documents')
+      .update({ fingerprint_params: indexParams(options, tokenizer) })
+      .eq('id', document.id);
+  }
+}
+
+/** Same as `findIndexedPassages`, against reference documents instead of submissions. */
+export async function findReferencePassages(
+  client: SupabaseClient<Database>,
+  fingerprints: Fingerprint[],
+  referenceIds: string[],
+  options: FingerprintOptions
+): Promise<IndexMatches> {
+  if (fingerprints.length === 0 || referenceIds.length === 0) return { passages: new Map(), sharedHashes: new Map() };
+
+  const { data: hits } = await client.rpc('match_reference_fingerprints', {
+    query_hashes: [...new Set(fingerprints.map(f => f.hash))],
+    target_reference_ids: referenceIds,
+  });
+
+  return chainHitsByDocument(
+    fingerprints,
+    (hits || []).map(hit => ({
+      documentId: hit.reference_id,
+      hash: hit.hash,
+      tokenIndex: hit.token_index,
+      startOffset: hit.start_offset,
+      endOffset: hit.end_offset,
+      fileId: null,
+      fileName: null,
+      page: hit.page,
+    })),
+    options
+  );
+}
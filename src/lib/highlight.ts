@@ -0,0 +1,40 @@
+export type HighlightRange<T> = {
+  startIndex: number;
+  endIndex: number;
+  data: T;
+};
+
+/** A run of text that is either plain (`data` is null) or covered by one highlight range. */
+export type TextPiece<T> = {
+  text: string;
+  startIndex: number;
+  data: T | null;
+};
+
+/**
+ * Cuts `text` into plain and highlighted pieces so it can be rendered as
+ * React elements rather than as an HTML string. Where ranges overlap, the one
+ * that starts first keeps the overlapping text.
+ */
+export function splitByRanges<T>(text: string, ranges: HighlightRange<T>[]): TextPiece<T>[] {
+  const pieces: TextPiece<T>[] = [];
+  let lastIndex = 0;
+
+  for (const range of [...ranges].sort((a, b) => a.startIndex - b.startIndex)) {
+    const start = Math.max(range.startIndex, lastIndex);
+    const end = Math.min(range.endIndex, text.length);
+    if (end <= start) continue;
+
+    if (start > lastIndex) {
+      pieces.push({ text: text.slice(lastIndex, start), startIndex: lastIndex, data: null });
+    }
+    pieces.push({ text: text.slice(start, end), startIndex: start, data: range.data });
+    lastIndex = end;
+  }
+
+  if (lastIndex < text.length) {
+    pieces.push({ text: text.slice(lastIndex), startIndex: lastIndex, data: null });
+  }
+
+  return pieces;
+}
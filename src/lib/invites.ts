@@ -0,0 +1,28 @@
+import type { Database } from './database.types';
+
+type CourseInvite = Database['public']['Tables']['course_invites']['Row'];
+
+const JOIN_PARAM = 'join';
+
+export function buildJoinLink(code: string): string {
+  const url = new URL(import.meta.env.BASE_URL, window.location.origin);
+  url.searchParams.set(JOIN_PARAM, code);
+  return url.toString();
+}
+
+export function readJoinCodeFromUrl(): string | null {
+  return new URLSearchParams(window.location.search).get(JOIN_PARAM);
+}
+
+export function clearJoinCodeFromUrl() {
+  const url = new URL(window.location.href);
+  url.searchParams.delete(JOIN_PARAM);
+  window.history.replaceState(null, '', url.toString());
+}
+
+export function getInviteStatus(invite: CourseInvite): 'active' | 'revoked' | 'expired' | 'used_up' {
+  if (invite.revoked_at) return 'revoked';
+  if (invite.expires_at && new Date(invite.expires_at) < new Date()) return 'expired';
+  if (invite.max_uses !== null && invite.use_count >= invite.max_uses) return 'used_up';
+  return 'active';
+}
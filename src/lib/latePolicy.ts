@@ -0,0 +1,126 @@
+import { supabase } from './supabase';
+import type { Database } from './database.types';
+
+type AssignmentRow = Database['public']['Tables']['assignments']['Row'];
+
+export type LatePolicy = AssignmentRow['late_policy'];
+
+export type LatePenaltyUnit = AssignmentRow['late_penalty_unit'];
+
+/** The columns of an assignment that decide whether and how work turned in late counts. */
+export type LatePolicySettings = Pick<
+  AssignmentRow,
+  'due_date' | 'late_policy' | 'late_penalty_percent' | 'late_penalty_unit' | 'late_grace_minutes' | 'late_max_minutes'
+>;
+
+export type LatePolicyValues = Omit<LatePolicySettings, 'due_date'>;
+
+export type Lateness = {
+  /** Minutes after the due date; 0 when the work is on time or within the grace period. */
+  lateMinutes: number;
+  penaltyPercent: number;
+  /** The assignment no longer accepts the work. */
+  closed: boolean;
+};
+
+export const LATE_POLICY_LABELS: Record<LatePolicy, string> = {
+  accept: 'Accept late work',
+  penalty: 'Accept late work with a penalty',
+  close: 'Close at the due date',
+};
+
+export const DEFAULT_LATE_POLICY: LatePolicyValues = {
+  late_policy: 'accept',
+  late_penalty_percent: 0,
+  late_penalty_unit: 'day',
+  late_grace_minutes: 0,
+  late_max_minutes: null,
+};
+
+const UNIT_MINUTES: Record<LatePenaltyUnit, number> = { day: 1440, hour: 60 };
+
+/**
+ * Lateness of work turned in at a time. The database's assess_lateness()
+ * records the lateness that counts; this mirrors it so the app can warn first.
+ */
+export function assessLateness(settings: LatePolicySettings, turnedInAt: Date = new Date()): Lateness {
+  const due = new Date(settings.due_date).getTime();
+  const elapsed = turnedInAt.getTime() - due;
+
+  if (elapsed <= settings.late_grace_minutes * 60000) {
+    return { lateMinutes: 0, penaltyPercent: 0, closed: false };
+  }
+
+  const lateMinutes = Math.ceil(elapsed / 60000);
+  const closed = settings.late_policy === 'close'
+    || (settings.late_max_minutes !== null && lateMinutes > settings.late_max_minutes);
+  const penaltyPercent = settings.late_policy === 'penalty'
+    ? Math.min(100, settings.late_penalty_percent * Math.ceil(lateMinutes / UNIT_MINUTES[settings.late_penalty_unit]))
+    : 0;
+
+  return { lateMinutes, penaltyPercent, closed };
+}
+
+/** When the assignment stops accepting work, or null if it never does. */
+export function closesAt(settings: LatePolicySettings): Date | null {
+  const due = new Date(settings.due_date).getTime();
+
+  if (settings.late_policy === 'close') return new Date(due + settings.late_grace_minutes * 60000);
+  if (settings.late_max_minutes !== null) {
+    return new Date(due + Math.max(settings.late_max_minutes, settings.late_grace_minutes) * 60000);
+  }
+  return null;
+}
+
+/** The score less the late penalty, rounded like every other score. */
+export function finalScore(score: number, penaltyPercent: number): number {
+  return Math.max(0, Math.round(score * (1 - penaltyPercent / 100)));
+}
+
+export function formatLateness(minutes: number): string {
+  const days = Math.floor(minutes / 1440);
+  const hours = Math.floor((minutes % 1440) / 60);
+  const rest = minutes % 60;
+
+  const parts = [
+    days > 0 ? `${days} ${days === 1 ? 'day' : 'days'}` : '',
+    hours > 0 ? `${hours} ${hours === 1 ? 'hour' : 'hours'}` : '',
+    rest > 0 && days === 0 ? `${rest} ${rest === 1 ? 'minute' : 'minutes'}` : '',
+  ].filter(Boolean);
+
+  return parts.length > 0 ? parts.join(' ') : 'less than a minute';
+}
+
+/** One sentence for students saying what happens to late work. */
+export function describeLatePolicy(settings: LatePolicySettings): string {
+  const grace = settings.late_grace_minutes > 0
+    ? ` after a grace period of ${formatLateness(settings.late_grace_minutes)}`
+    : '';
+
+  if (settings.late_policy === 'close') {
+    return `Late work is not accepted${grace}.`;
+  }
+
+  const penalty = settings.late_policy === 'penalty' && settings.late_penalty_percent > 0
+    ? ` with a penalty of ${settings.late_penalty_percent}% per ${settings.late_penalty_unit} late`
+    : ' without a penalty';
+  const limit = settings.late_max_minutes !== null
+    ? ` up to ${formatLateness(settings.late_max_minutes)} after the due date`
+    : '';
+
+  return `Late work is accepted${limit}${penalty}${grace ? `; it counts as late${grace}` : ''}.`;
+}
+
+/** Drops settings the chosen policy does not use, so they cannot apply by surprise later. */
+export function normalizeLatePolicy(values: LatePolicyValues): LatePolicyValues {
+  return {
+    ...values,
+    late_penalty_percent: values.late_policy === 'penalty' ? values.late_penalty_percent : 0,
+    late_max_minutes: values.late_policy === 'close' ? null : values.late_max_minutes,
+  };
+}
+
+/** Changes apply to work turned in from now on; lateness already recorded is kept. */
+export async function saveLatePolicy(assignmentId: string, values: LatePolicyValues) {
+  return supabase.from('assignments').update(normalizeLatePolicy(values)).eq('id', assignmentId);
+}
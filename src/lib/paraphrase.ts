@@ -0,0 +1,373 @@
+/**
+ * Paraphrase detection: a second stage after fingerprinting that catches
+ * passages rewritten with synonyms or reordered clauses, which share too few
+ * exact word runs to fingerprint.
+ *
+ * Words are reduced to a canonical term (stop words dropped, inflections
+ * stemmed, irregular forms and common synonyms mapped onto one member of their
+ * group), both texts are cut into overlapping windows of terms, and every
+ * window is weighted by TF-IDF over all windows being compared. Windows whose
+ * cosine similarity clears the threshold are merged into passages. Word order
+ * inside a window is ignored, so reordered clauses still match. Everything
+ * runs locally against the bundled dictionary.
+ */
+import type { Token, Tokenizer } from './fingerprint';
+import { textTokenizer, type TextLanguage } from './textTokenizer';
+
+export type ParaphraseOptions = {
+  /** Terms per window compared. */
+  windowTerms: number;
+  /** Terms between the starts of consecutive windows. */
+  stride: number;
+  /** Cosine similarity, from 0 to 1, at which two windows are taken as a paraphrase. */
+  minSimilarity: number;
+};
+
+export const DEFAULT_PARAPHRASE_OPTIONS: ParaphraseOptions = {
+  windowTerms: 24,
+  stride: 8,
+  minSimilarity: 0.6,
+};
+
+/** A likely paraphrased passage, as character offsets into both texts. */
+export type ParaphrasedPassage = {
+  startIndex: number;
+  endIndex: number;
+  matchedStartIndex: number;
+  matchedEndIndex: number;
+  /** Highest cosine similarity of the windows the passage was merged from. */
+  similarity: number;
+};
+
+// Words that are swapped for each other in rewrites; each group is mapped onto its first word
+const SYNONYM_GROUPS = [
+  'important significant crucial vital essential key critical major fundamental',
+  'show demonstrate reveal indicate illustrate display exhibit',
+  'use utilize employ apply',
+  'help assist aid support',
+  'big large huge enormous vast massive immense substantial considerable',
+  'small little tiny minor slight modest',
+  'begin start commence initiate launch',
+  'end finish conclude complete terminate',
+  'make create produce generate form construct build',
+  'get obtain acquire gain receive',
+  'give provide offer supply grant',
+  'need require necessitate',
+  'change alter modify transform adjust shift',
+  'increase rise grow expand boost raise',
+  'decrease decline reduce diminish lower drop fall shrink',
+  'cause produce trigger induce',
+  'effect impact consequence outcome result',
+  'reason cause motive basis ground',
+  'problem issue difficulty challenge obstacle',
+  'method approach technique way means procedure',
+  'idea concept notion thought',
+  'aim goal objective purpose intention target',
+  'study research investigation inquiry examination analysis',
+  'examine investigate analyze analyse explore inspect scrutinize assess evaluate',
+  'explain describe clarify elucidate',
+  'suggest propose recommend imply',
+  'think believe consider suppose reckon',
+  'argue claim contend assert maintain',
+  'say state declare mention remark note',
+  'find discover uncover detect identify',
+  'seem appear look',
+  'often frequently regularly commonly',
+  'sometimes occasionally periodically',
+  'quick rapid swift fast speedy',
+  'slowly gradually steadily',
+  'very extremely highly really particularly especially',
+  'many numerous several various countless',
+  'whole entire total complete full',
+  'main primary principal chief central leading',
+  'clear obvious evident apparent plain',
+  'hard difficult tough challenging demanding',
+  'easy simple straightforward effortless',
+  'good fine excellent great positive beneficial',
+  'bad poor negative harmful detrimental adverse',
+  'new novel recent modern fresh',
+  'old ancient aged former previous prior earlier',
+  'therefore thus hence consequently accordingly',
+  'however nevertheless nonetheless yet still',
+  'moreover furthermore additionally besides',
+  'because since',
+  'although though whereas while',
+  'about approximately roughly around nearly almost',
+  'enough sufficient adequate ample',
+  'part portion section segment component element',
+  'kind type sort category class variety',
+  'area region zone territory district',
+  'people individuals persons humans population',
+  'child kid youngster',
+  'job work occupation profession career employment',
+  'buy purchase acquire',
+  'try attempt endeavor endeavour strive',
+  'keep retain preserve maintain conserve',
+  'allow permit enable let',
+  'stop halt cease prevent',
+  'choose select pick opt',
+  'rule regulation law policy',
+  'answer reply response respond',
+  'ask inquire enquire question query',
+  'understand comprehend grasp',
+  'improve enhance better advance',
+  'connect link join relate associate',
+  'include contain comprise encompass involve',
+  'happen occur arise',
+  'affect influence',
+  'benefit advantage merit',
+  'drawback disadvantage downside',
+  'danger risk hazard threat peril',
+  'dangerous hazardous risky perilous unsafe',
+  'rich wealthy affluent prosperous',
+  'poor impoverished needy',
+  'country nation state',
+  'world globe earth planet',
+  'economy market',
+  'environment surroundings habitat',
+  'pollution contamination',
+  'government administration authority',
+  'society community',
+  'education schooling learning',
+  'student pupil learner',
+  'teacher instructor educator tutor',
+  'fact truth reality',
+  'example instance illustration case',
+  'evidence proof data',
+  'likely probable possible',
+  'hide conceal obscure',
+  'strong powerful robust mighty',
+  'weak feeble frail fragile',
+  'finally eventually ultimately lastly',
+  'first initially originally',
+  'similar alike comparable analogous',
+  'different distinct diverse dissimilar',
+  'especially notably particularly specifically',
+  'mainly mostly chiefly largely primarily predominantly',
+];
+
+// Irregular forms the suffix stemmer cannot reach
+const IRREGULAR_FORMS = [
+  'go went gone goes', 'make made', 'take took taken', 'give gave given', 'get got gotten',
+  'see saw seen', 'come came', 'know knew known', 'think thought', 'find found', 'say said',
+  'tell told', 'bring brought', 'buy bought', 'teach taught', 'build built', 'lead led',
+  'grow grew grown', 'rise rose risen', 'fall fell fallen', 'begin began begun', 'write wrote written',
+  'choose chose chosen', 'show shown', 'hold held', 'keep kept', 'leave left', 'lose lost',
+  'mean meant', 'pay paid', 'run ran', 'spend spent', 'stand stood', 'understand understood',
+  'child children', 'man men', 'woman women', 'person people', 'mouse mice', 'foot feet',
+  'tooth teeth', 'analysis analyses', 'criterion criteria', 'phenomenon phenomena',
+  'datum data', 'good better best', 'bad worse worst', 'much more most', 'little less least',
+];
+
+// Other languages keep their own stems and stop words; the bundled dictionary is English
+const ENGLISH_NORMALIZATION = { stopWords: true, stemming: true };
+
+// The light stemmer does not undo spelling changes (change/changed, easy/easily), so inflected forms are listed too
+function inflections(word: string): string[] {
+  const forms = [word, `${word}s`, `${word}d`, `${word}ed`, `${word}ing`, `${word}ly`];
+  if (word.endsWith('e')) forms.push(`${word.slice(0, -1)}ing`, `${word.slice(0, -1)}y`);
+  if (word.endsWith('y')) forms.push(`${word.slice(0, -1)}ies`, `${word.slice(0, -1)}ied`, `${word.slice(0, -1)}ily`);
+  return forms;
+}
+
+/**
+ * Maps every word of each group, and its regular inflections, normalized the
+ * same way as the text, onto the normalized first word. A word listed in
+ * several groups keeps its first one.
+ */
+function buildCanonicalTerms(tokenizer: Tokenizer): Map<string, string> {
+  const canonical = new Map<string, string>();
+  const normalize = (word: string) => tokenizer.tokenize(word)[0]?.value;
+
+  for (const group of [...IRREGULAR_FORMS, ...SYNONYM_GROUPS]) {
+    const words = group.split(' ');
+    const head = normalize(words[0]);
+    if (!head) continue;
+    const target = canonical.get(head) ?? head;
+
+    for (const form of words.flatMap(inflections)) {
+      const term = normalize(form);
+      if (term && !canonical.has(term)) canonical.set(term, target);
+    }
+  }
+
+  return canonical;
+}
+
+/**
+ * The tokenizer whose token values are canonical terms. Prose in an unknown
+ * language is normalized as English: the English stop words, suffixes and
+ * dictionary only touch Latin-script words.
+ */
+export function paraphraseTokenizer(language: TextLanguage): Tokenizer {
+  if (language !== 'auto' && language !== 'en') {
+    return textTokenizer(language, { stopWords: true, stemming: true });
+  }
+
+  const english = textTokenizer('en', ENGLISH_NORMALIZATION);
+  const canonical = buildCanonicalTerms(english);
+
+  return {
+    key: 'paraphrase:en',
+    tokenize: text => english.tokenize(text).map(token => ({
+      ...token,
+      value: canonical.get(token.value) ?? token.value,
+    })),
+  };
+}
+
+type TermWindow = {
+  startIndex: number;
+  endIndex: number;
+  counts: Map<string, number>;
+};
+
+export type WindowedText = TermWindow[];
+
+/** Cuts a token stream into overlapping windows; a text shorter than one window is a single window. */
+export function buildWindows(tokens: Token[], options: ParaphraseOptions = DEFAULT_PARAPHRASE_OPTIONS): WindowedText {
+  if (tokens.length === 0) return [];
+
+  const windows: TermWindow[] = [];
+  const lastStart = Math.max(tokens.length - options.windowTerms, 0);
+
+  for (let start = 0; ; start = Math.min(start + options.stride, lastStart)) {
+    const windowTokens = tokens.slice(start, start + options.windowTerms);
+    const counts = new Map<string, number>();
+    for (const token of windowTokens) {
+      counts.set(token.value, (counts.get(token.value) || 0) + 1);
+    }
+
+    windows.push({
+      startIndex: windowTokens[0].start,
+      endIndex: windowTokens[windowTokens.length - 1].end,
+      counts,
+    });
+
+    if (start === lastStart) break;
+  }
+
+  return windows;
+}
+
+/**
+ * Smoothed inverse document frequency of every term, taking each window of
+ * every text as a document, so terms common across the corpus weigh little.
+ */
+export function inverseDocumentFrequencies(texts: WindowedText[]): Map<string, number> {
+  const documentFrequency = new Map<string, number>();
+  let documents = 0;
+
+  for (const windows of texts) {
+    for (const window of windows) {
+      documents++;
+      for (const term of window.counts.keys()) {
+        documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1);
+      }
+    }
+  }
+
+  const idf = new Map<string, number>();
+  for (const [term, frequency] of documentFrequency) {
+    idf.set(term, Math.log((documents + 1) / (frequency + 1)) + 1);
+  }
+
+  return idf;
+}
+
+// Unit-length TF-IDF vector of a window
+function weigh(window: TermWindow, idf: Map<string, number>): Map<string, number> {
+  const vector = new Map<string, number>();
+  let norm = 0;
+
+  for (const [term, count] of window.counts) {
+    const weight = count * (idf.get(term) ?? 1);
+    vector.set(term, weight);
+    norm += weight * weight;
+  }
+
+  norm = Math.sqrt(norm) || 1;
+  for (const [term, weight] of vector) {
+    vector.set(term, weight / norm);
+  }
+
+  return vector;
+}
+
+/**
+ * Finds passages of the current text whose windows are close, by cosine
+ * similarity of their TF-IDF vectors, to windows of the compared text.
+ * Overlapping matching windows whose counterparts also overlap are merged
+ * into one passage.
+ */
+export function findParaphrasedPassages(
+  current: WindowedText,
+  compared: WindowedText,
+  idf: Map<string, number>,
+  options: ParaphraseOptions = DEFAULT_PARAPHRASE_OPTIONS
+): ParaphrasedPassage[] {
+  const comparedVectors = compared.map(window => weigh(window, idf));
+
+  // Only windows sharing at least one term can score above zero
+  const windowsByTerm = new Map<string, number[]>();
+  comparedVectors.forEach((vector, index) => {
+    for (const term of vector.keys()) {
+      const list = windowsByTerm.get(term);
+      if (list) list.push(index);
+      else windowsByTerm.set(term, [index]);
+    }
+  });
+
+  const hits: ParaphrasedPassage[] = [];
+
+  for (const window of current) {
+    const vector = weigh(window, idf);
+    const scores = new Map<number, number>();
+
+    for (const [term, weight] of vector) {
+      for (const index of windowsByTerm.get(term) || []) {
+        scores.set(index, (scores.get(index) || 0) + weight * (comparedVectors[index].get(term) || 0));
+      }
+    }
+
+    let bestIndex = -1;
+    let bestScore = 0;
+    for (const [index, score] of scores) {
+      if (score > bestScore) {
+        bestIndex = index;
+        bestScore = score;
+      }
+    }
+
+    if (bestIndex >= 0 && bestScore >= options.minSimilarity) {
+      hits.push({
+        startIndex: window.startIndex,
+        endIndex: window.endIndex,
+        matchedStartIndex: compared[bestIndex].startIndex,
+        matchedEndIndex: compared[bestIndex].endIndex,
+        similarity: Math.min(bestScore, 1),
+      });
+    }
+  }
+
+  const merged: ParaphrasedPassage[] = [];
+
+  for (const hit of hits) {
+    const last = merged[merged.length - 1];
+    const continuesLast = last &&
+      hit.startIndex <= last.endIndex &&
+      hit.matchedStartIndex <= last.matchedEndIndex &&
+      hit.matchedEndIndex >= last.matchedStartIndex;
+
+    if (continuesLast) {
+      last.endIndex = Math.max(last.endIndex, hit.endIndex);
+      last.matchedStartIndex = Math.min(last.matchedStartIndex, hit.matchedStartIndex);
+      last.matchedEndIndex = Math.max(last.matchedEndIndex, hit.matchedEndIndex);
+      last.similarity = Math.max(last.similarity, hit.similarity);
+    } else {
+      merged.push({ ...hit });
+    }
+  }
+
+  return merged;
+}
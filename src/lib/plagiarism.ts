@@ -1,79 +1,346 @@
-import { supabase } from './supabase';
-
-interface MatchedSegment {
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from './database.types';
+import { extractPendingFiles } from './textExtraction';
+import {
+  combineSubmissionText,
+  locateOffset,
+  SUBMISSION_TEXT_COLUMNS,
+  type CombinedText,
+  type MatchLocation,
+} from './submissionText';
+import {
+  DEFAULT_FINGERPRINT_OPTIONS,
+  findSharedPassages,
+  tokenize,
+  winnow,
+  type FingerprintOptions,
+  type IndexedPassage,
+  type Token,
+  type Tokenizer,
+} from './fingerprint';
+import { codeTokenizer } from './codeTokenizer';
+import { textTokenizer, type TextLanguage } from './textTokenizer';
+import {
+  buildWindows,
+  DEFAULT_PARAPHRASE_OPTIONS,
+  findParaphrasedPassages,
+  inverseDocumentFrequencies,
+  paraphraseTokenizer,
+  type ParaphrasedPassage,
+} from './paraphrase';
+import { citedLength, findQuotations } from './citations';
+import {
+  ensureFingerprints,
+  ensureReferenceFingerprints,
+  findIndexedPassages,
+  findReferencePassages,
+} from './fingerprintIndex';
+import { resolvePlagiarismSettings } from './plagiarismSettings';
+
+export type MatchedSegment = {
   text: string;
   startIndex: number;
   endIndex: number;
-  matchedSubmissionId: string;
+  /** The other submission this passage matches; unset for reference matches. */
+  matchedSubmissionId?: string;
+  /** The reference document this passage matches; unset for submission matches. */
+  matchedReferenceId?: string;
+  matchedStartIndex: number;
+  matchedEndIndex: number;
+  file?: MatchLocation;
+  matchedFile?: MatchLocation;
+};
+
+/** A passage that likely restates the matched source in other words; `similarity` is from 0 to 1. */
+export type ParaphrasedSegment = MatchedSegment & {
+  similarity: number;
+};
+
+/** A span of the checked submission that matched the exclusion corpus and was not scored. */
+export type ExcludedSegment = {
+  startIndex: number;
+  endIndex: number;
+  file?: MatchLocation;
+};
+
+export type ComparisonScope = Database['public']['Tables']['plagiarism_reports']['Row']['comparison_scope'];
+
+export const COMPARISON_SCOPE_OPTIONS: { value: ComparisonScope; label: string }[] = [
+  { value: 'assignment', label: 'This assignment' },
+  { value: 'course', label: 'All assignments in this course' },
+  { value: 'teacher', label: 'All of my courses' },
+  { value: 'previous_offering', label: 'This assignment and previous offerings' },
+];
+
+export type PlagiarismStatus = Database['public']['Tables']['submissions']['Row']['plagiarism_status'];
+
+export const PLAGIARISM_STATUS_LABELS: Record<PlagiarismStatus, string> = {
+  not_checked: 'Not checked',
+  queued: 'Check queued',
+  running: 'Checking',
+  completed: 'Checked',
+  failed: 'Check failed',
+};
+
+/**
+ * Recorded on every run. Bump it whenever a change to tokenizing,
+ * fingerprinting or scoring can change the results of the same check.
+ */
+export const PLAGIARISM_ALGORITHM_VERSION = 'winnowing-3';
+
+// Submissions and references each, read in full for the paraphrase stage
+const MAX_PARAPHRASE_CANDIDATES = 20;
+
+export type PlagiarismRun = Database['public']['Tables']['plagiarism_runs']['Row'];
+
+type ScopeAssignment = Pick<
+  Database['public']['Tables']['assignments']['Row'],
+  | 'id'
+  | 'course_id'
+  | 'teacher_id'
+  | 'previous_assignment_id'
+  | 'check_mode'
+  | 'code_language'
+  | 'language'
+  | 'ignore_stop_words'
+  | 'stem_words'
+>;
+
+const SCOPE_ASSIGNMENT_COLUMNS =
+  'id, course_id, teacher_id, previous_assignment_id, check_mode, code_language, language, ignore_stop_words, stem_words';
+const CHECKED_ASSIGNMENT_COLUMNS = `${SCOPE_ASSIGNMENT_COLUMNS}, description, exclude_description, starter_text`;
+
+function getTokenizer(assignment: ScopeAssignment): Tokenizer {
+  return assignment.check_mode === 'code' && assignment.code_language
+    ? codeTokenizer(assignment.code_language)
+    : textTokenizer(assignment.language, {
+      stopWords: assignment.ignore_stop_words,
+      stemming: assignment.stem_words,
+    });
 }
 
-function normalizeText(text: string): string {
-  return text
-    .toLowerCase()
-    .replace(/[^\w\s]/g, '')
-    .replace(/\s+/g, ' ')
-    .trim();
+// Code is only worth comparing with code in the same language, and prose with prose processed the same way
+function isComparable(a: ScopeAssignment, b: ScopeAssignment): boolean {
+  return getTokenizer(a).key === getTokenizer(b).key;
 }
 
-function splitIntoSentences(text: string): string[] {
-  return text
-    .split(/[.!?]+/)
-    .map(s => s.trim())
-    .filter(s => s.length > 20);
+/**
+ * Resolves a comparison scope to the assignments whose submissions are
+ * compared against. The checked assignment itself is always included.
+ */
+async function resolveScopeAssignmentIds(
+  client: SupabaseClient<Database>,
+  assignment: ScopeAssignment,
+  scope: ComparisonScope
+): Promise<string[]> {
+  let candidates: ScopeAssignment[] = [assignment];
+
+  switch (scope) {
+    case 'course': {
+      const { data } = await client
+        .from('assignments')
+        .select(SCOPE_ASSIGNMENT_COLUMNS)
+        .eq('course_id', assignment.course_id);
+      candidates = data || [];
+      break;
+    }
+    case 'teacher': {
+      const { data } = await client
+        .from('assignments')
+        .select(SCOPE_ASSIGNMENT_COLUMNS)
+        .eq('teacher_id', assignment.teacher_id);
+      candidates = data || [];
+      break;
+    }
+    case 'previous_offering': {
+      let previousId = assignment.previous_assignment_id;
+
+      // Offerings can be chained term after term; stop on a loop
+      while (previousId && !candidates.some(a => a.id === previousId)) {
+        const { data: previous } = await client
+          .from('assignments')
+          .select(SCOPE_ASSIGNMENT_COLUMNS)
+          .eq('id', previousId)
+          .single();
+        if (!previous) break;
+
+        candidates.push(previous);
+        previousId = previous.previous_assignment_id;
+      }
+      break;
+    }
+  }
+
+  const ids = candidates.filter(a => isComparable(a, assignment)).map(a => a.id);
+  return ids.includes(assignment.id) ? ids : [assignment.id, ...ids];
 }
 
-function calculateSimilarity(text1: string, text2: string): number {
-  const words1 = text1.split(/\s+/);
-  const words2 = text2.split(/\s+/);
+/**
+ * Reference documents in the teacher's library that apply to the checked
+ * assignment: course-wide and teacher-wide documents, or all of them when the
+ * check spans every course. The library holds prose, so code checks skip it.
+ */
+async function resolveScopeReferenceIds(
+  client: SupabaseClient<Database>,
+  assignment: ScopeAssignment,
+  scope: ComparisonScope
+): Promise<string[]> {
+  if (assignment.check_mode === 'code') return [];
+
+  let query = client.from('reference_documents').select('id').eq('teacher_id', assignment.teacher_id);
+
+  if (scope !== 'teacher') {
+    query = query.or(`course_id.is.null,course_id.eq.${assignment.course_id}`);
+  }
 
-  const set1 = new Set(words1);
-  const set2 = new Set(words2);
+  const { data } = await query;
+  return (data || []).map(reference => reference.id);
+}
 
-  const intersection = new Set([...set1].filter(x => set2.has(x)));
-  const union = new Set([...set1, ...set2]);
+/**
+ * Token ranges of the checked submission that also appear in the exclusion
+ * corpus (the assignment description and starter file, when provided).
+ */
+function findExcludedRanges(
+  tokens: Token[],
+  corpus: string[],
+  tokenizer: Tokenizer,
+  options: FingerprintOptions
+): { startToken: number; endToken: number }[] {
+  const fingerprints = winnow(tokens, options);
+  // Even a short quoted line of the prompt should be excluded
+  const exclusionOptions = { ...options, minMatchTokens: options.k };
+
+  return corpus.flatMap(text => {
+    const corpusTokens = tokenizer.tokenize(text);
+    return findSharedPassages(tokens, fingerprints, corpusTokens, winnow(corpusTokens, options), exclusionOptions)
+      .map(passage => ({ startToken: passage.startToken, endToken: passage.endToken }));
+  });
+}
 
-  return (intersection.size / union.size) * 100;
+/**
+ * Rewrites a span of the combined text so its offsets point into the typed
+ * content or, for attachments, into that file's extracted text.
+ */
+function localizeRange<T extends ExcludedSegment>(segment: T, currentText: CombinedText): T {
+  const localized = { ...segment };
+
+  const start = locateOffset(segment.startIndex, currentText);
+  if (start.range) {
+    localized.startIndex = start.offset;
+    localized.endIndex = Math.min(segment.endIndex, start.range.end) - start.range.start;
+    localized.file = start.file;
+  }
+
+  return localized;
 }
 
-function findMatchingSegments(
+/** Like `localizeRange`, and also localizes the matched side when its combined text is known. */
+function localizeSegment<T extends MatchedSegment>(
+  segment: T,
+  currentText: CombinedText,
+  comparedText?: CombinedText
+): T {
+  const localized = localizeRange(segment, currentText);
+
+  if (comparedText) {
+    const matchedStart = locateOffset(segment.matchedStartIndex, comparedText);
+    if (matchedStart.range) {
+      localized.matchedStartIndex = matchedStart.offset;
+      localized.matchedEndIndex = Math.min(segment.matchedEndIndex, matchedStart.range.end) - matchedStart.range.start;
+      localized.matchedFile = matchedStart.file;
+    }
+  }
+
+  return localized;
+}
+
+/**
+ * Compares two texts that are already in memory. Plagiarism checks go
+ * through the fingerprint index instead; this is for ad-hoc pair comparisons.
+ */
+export function findMatchingSegments(
   originalText: string,
   comparedText: string,
   comparedSubmissionId: string,
-  threshold: number = 70
+  options: FingerprintOptions = DEFAULT_FINGERPRINT_OPTIONS
 ): MatchedSegment[] {
-  const matches: MatchedSegment[] = [];
-  const originalSentences = splitIntoSentences(originalText);
-  const comparedSentences = splitIntoSentences(comparedText);
-
-  for (const sentence of originalSentences) {
-    const normalizedSentence = normalizeText(sentence);
-
-    for (const comparedSentence of comparedSentences) {
-      const normalizedCompared = normalizeText(comparedSentence);
-      const similarity = calculateSimilarity(normalizedSentence, normalizedCompared);
-
-      if (similarity >= threshold) {
-        const startIndex = originalText.indexOf(sentence);
-        if (startIndex !== -1) {
-          matches.push({
-            text: sentence,
-            startIndex,
-            endIndex: startIndex + sentence.length,
-            matchedSubmissionId: comparedSubmissionId,
-          });
-        }
-      }
+  const originalTokens = tokenize(originalText);
+  const comparedTokens = tokenize(comparedText);
+
+  const passages = findSharedPassages(
+    originalTokens,
+    winnow(originalTokens, options),
+    comparedTokens,
+    winnow(comparedTokens, options),
+    options
+  );
+
+  return passages.map(passage => {
+    const startIndex = originalTokens[passage.startToken].start;
+    const endIndex = originalTokens[passage.endToken - 1].end;
+
+    return {
+      text: originalText.slice(startIndex, endIndex),
+      startIndex,
+      endIndex,
+      matchedSubmissionId: comparedSubmissionId,
+      matchedStartIndex: comparedTokens[passage.matchedStartToken].start,
+      matchedEndIndex: comparedTokens[passage.matchedEndToken - 1].end,
+    };
+  });
+}
+
+// Index hits already carry offsets relative to the matched file or content
+function indexedPassageToSegment(
+  passage: IndexedPassage,
+  tokens: Token[],
+  sourceText: string,
+  matchedSource: Pick<MatchedSegment, 'matchedSubmissionId' | 'matchedReferenceId'>
+): MatchedSegment {
+  const startIndex = tokens[passage.startToken].start;
+  const endIndex = tokens[passage.endToken - 1].end;
+
+  const segment: MatchedSegment = {
+    text: sourceText.slice(startIndex, endIndex),
+    startIndex,
+    endIndex,
+    ...matchedSource,
+    matchedStartIndex: passage.first.startOffset,
+    matchedEndIndex: passage.last.endOffset,
+  };
+
+  if (passage.first.fileId) {
+    segment.matchedFile = {
+      fileId: passage.first.fileId,
+      fileName: passage.first.fileName || '',
+      page: passage.first.page || 1,
+    };
+  }
+
+  return segment;
+}
+
+function mergeOverlappingRanges(ranges: ExcludedSegment[]): ExcludedSegment[] {
+  const merged: ExcludedSegment[] = [];
+
+  for (const range of [...ranges].sort((a, b) => a.startIndex - b.startIndex)) {
+    const last = merged[merged.length - 1];
+    if (last && range.startIndex <= last.endIndex) {
+      last.endIndex = Math.max(last.endIndex, range.endIndex);
+    } else {
+      merged.push({ ...range });
     }
   }
 
-  return matches;
+  return merged;
 }
 
-function mergeOverlappingSegments(segments: MatchedSegment[]): MatchedSegment[] {
+function mergeOverlappingSegments(segments: MatchedSegment[], sourceText: string): MatchedSegment[] {
   if (segments.length === 0) return [];
 
   const sorted = [...segments].sort((a, b) => a.startIndex - b.startIndex);
-  const merged: MatchedSegment[] = [sorted[0]];
+  const merged: MatchedSegment[] = [{ ...sorted[0] }];
 
   for (let i = 1; i < sorted.length; i++) {
     const current = sorted[i];
@@ -81,96 +348,521 @@ function mergeOverlappingSegments(segments: MatchedSegment[]): MatchedSegment[]
 
     if (current.startIndex <= last.endIndex) {
       last.endIndex = Math.max(last.endIndex, current.endIndex);
-      last.text = last.text + ' ' + current.text;
+      last.text = sourceText.slice(last.startIndex, last.endIndex);
     } else {
-      merged.push(current);
+      merged.push({ ...current });
     }
   }
 
   return merged;
 }
 
-export async function checkPlagiarism(submissionId: string, assignmentId: string) {
-  const { data: currentSubmission } = await supabase
+function overlapLength(range: { startIndex: number; endIndex: number }, segments: MatchedSegment[]): number {
+  return segments.reduce(
+    (sum, s) => sum + Math.max(Math.min(range.endIndex, s.endIndex) - Math.max(range.startIndex, s.startIndex), 0),
+    0
+  );
+}
+
+/**
+ * The documents sharing the most fingerprints with the checked text, leaving
+ * out pairs a teacher dismissed. A rewording rarely changes every word, so
+ * a paraphrased source still shares some hashes while unrelated work in the
+ * scope shares few or none.
+ */
+function paraphraseCandidates(
+  sharedHashes: Map<string, number>,
+  kind: 'submission' | 'reference',
+  dismissed: Set<string>
+): string[] {
+  return [...sharedHashes]
+    .filter(([id]) => !dismissed.has(`${kind}:${id}`))
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, MAX_PARAPHRASE_CANDIDATES)
+    .map(([id]) => id);
+}
+
+/**
+ * Likely paraphrased passages of the checked text, keyed like review cases
+ * (`submission:<id>` or `reference:<id>`). Excluded prompt and starter text is
+ * left out of the windows, and term weights are taken over every text
+ * compared, so words common across them count for little.
+ */
+async function findScopeParaphrases(
+  client: SupabaseClient<Database>,
+  currentText: CombinedText,
+  excludedSegments: ExcludedSegment[],
+  submissionIds: string[],
+  referenceIds: string[],
+  language: TextLanguage
+) {
+  const paraphrases = new Map<string, { passages: ParaphrasedPassage[]; comparedText: CombinedText }>();
+  if (submissionIds.length === 0 && referenceIds.length === 0) return paraphrases;
+
+  const tokenizer = paraphraseTokenizer(language);
+  const currentTokens = tokenizer.tokenize(currentText.text).filter(token =>
+    !excludedSegments.some(e => token.start < e.endIndex && token.end > e.startIndex)
+  );
+
+  const { data: submissions } = await client
+    .from('submissions')
+    .select(`id, ${SUBMISSION_TEXT_COLUMNS}`)
+    .in('id', submissionIds);
+  const { data: references } = await client
+    .from('reference_documents')
+    .select('id, content')
+    .in('id', referenceIds);
+
+  const sources: { key: string; text: CombinedText }[] = [
+    ...(submissions || []).map(s => ({ key: `submission:${s.id}`, text: combineSubmissionText(s) })),
+    ...(references || []).map(r => ({ key: `reference:${r.id}`, text: { text: r.content, files: [] } })),
+  ];
+
+  const current = buildWindows(currentTokens, DEFAULT_PARAPHRASE_OPTIONS);
+  const sourceWindows = sources.map(source => buildWindows(tokenizer.tokenize(source.text.text), DEFAULT_PARAPHRASE_OPTIONS));
+  const idf = inverseDocumentFrequencies([current, ...sourceWindows]);
+
+  sources.forEach((source, index) => {
+    const passages = findParaphrasedPassages(current, sourceWindows[index], idf, DEFAULT_PARAPHRASE_OPTIONS);
+    if (passages.length > 0) {
+      paraphrases.set(source.key, { passages, comparedText: source.text });
+    }
+  });
+
+  return paraphrases;
+}
+
+/**
+ * Review cases that involve the submission: the case id for each source it
+ * has been matched against, and the sources whose pairing with it was
+ * dismissed. A dismissal applies in both directions.
+ */
+async function getSubmissionCases(client: SupabaseClient<Database>, submissionId: string) {
+  const { data } = await client
+    .from('plagiarism_cases')
+    .select('id, submission_id, compared_submission_id, compared_reference_id, status')
+    .or(`submission_id.eq.${submissionId},compared_submission_id.eq.${submissionId}`);
+
+  const existing = new Map<string, string>();
+  const dismissed = new Set<string>();
+
+  for (const reviewCase of data || []) {
+    const key = reviewCase.submission_id !== submissionId
+      ? `submission:${reviewCase.submission_id}`
+      : reviewCase.compared_reference_id
+        ? `reference:${reviewCase.compared_reference_id}`
+        : `submission:${reviewCase.compared_submission_id}`;
+
+    if (reviewCase.status === 'dismissed') {
+      dismissed.add(key);
+    } else if (reviewCase.submission_id === submissionId) {
+      existing.set(key, reviewCase.id);
+    }
+  }
+
+  return { existing, dismissed };
+}
+
+async function markChecked(client: SupabaseClient<Database>, submissionId: string) {
+  await client
     .from('submissions')
-    .select('content')
+    .update({ plagiarism_status: 'completed', plagiarism_checked_at: new Date().toISOString() })
+    .eq('id', submissionId);
+}
+
+/**
+ * Fingerprints one submission's work, attachments included, with its own
+ * assignment's settings. The plagiarism worker runs this as soon as work is
+ * turned in, so checks find it in the index.
+ */
+export async function indexSubmission(client: SupabaseClient<Database>, submissionId: string) {
+  const { data: submission } = await client
+    .from('submissions')
+    .select('assignment_id')
     .eq('id', submissionId)
     .single();
 
-  if (!currentSubmission || !currentSubmission.content) {
-    return { error: 'Submission not found or empty' };
+  if (!submission) {
+    return { error: 'Submission not found' };
+  }
+
+  const { data: assignment } = await client
+    .from('assignments')
+    .select(SCOPE_ASSIGNMENT_COLUMNS)
+    .eq('id', submission.assignment_id)
+    .single();
+
+  if (!assignment) {
+    return { error: 'Assignment not found' };
   }
 
-  const { data: otherSubmissions } = await supabase
+  const settings = await resolvePlagiarismSettings(client, assignment);
+
+  await extractPendingFiles(client, [submissionId]);
+  await ensureFingerprints(client, [submissionId], settings.fingerprintOptions, getTokenizer(assignment));
+
+  return { error: null };
+}
+
+/**
+ * Runs a plagiarism check for one submission, recording it as a run with a
+ * report per matching source. Earlier runs are kept so results can be
+ * compared across re-runs. `client` is the app's client when a teacher runs
+ * the check, or the plagiarism worker's service client for automatic checks.
+ */
+export async function checkPlagiarism(
+  client: SupabaseClient<Database>,
+  submissionId: string,
+  assignmentId: string,
+  scope: ComparisonScope = 'assignment',
+  options: Partial<FingerprintOptions> = {}
+) {
+  const { data: assignment } = await client
+    .from('assignments')
+    .select(CHECKED_ASSIGNMENT_COLUMNS)
+    .eq('id', assignmentId)
+    .single();
+
+  if (!assignment) {
+    return { error: 'Assignment not found' };
+  }
+
+  const tokenizer = getTokenizer(assignment);
+  const settings = await resolvePlagiarismSettings(client, assignment);
+  const fingerprintOptions = { ...settings.fingerprintOptions, ...options };
+
+  const scopeAssignmentIds = await resolveScopeAssignmentIds(client, assignment, scope);
+  const referenceIds = await resolveScopeReferenceIds(client, assignment, scope);
+
+  const { data: scopeSubmissions } = await client
     .from('submissions')
-    .select('id, content')
-    .eq('assignment_id', assignmentId)
-    .neq('id', submissionId)
-    .eq('status', 'submitted');
+    .select('id, status')
+    .in('assignment_id', scopeAssignmentIds);
+
+  const indexableIds = (scopeSubmissions || [])
+    .filter(s => s.id === submissionId || s.status !== 'draft')
+    .map(s => s.id);
+
+  await extractPendingFiles(client, indexableIds);
+  await ensureFingerprints(client, indexableIds, fingerprintOptions, tokenizer);
+  await ensureReferenceFingerprints(client, referenceIds, fingerprintOptions, tokenizer);
+
+  const { data: currentSubmission } = await client
+    .from('submissions')
+    .select(SUBMISSION_TEXT_COLUMNS)
+    .eq('id', submissionId)
+    .single();
+
+  const currentText = currentSubmission ? combineSubmissionText(currentSubmission) : null;
+
+  if (!currentText || !currentText.text) {
+    return { error: 'Submission not found or empty' };
+  }
 
-  if (!otherSubmissions || otherSubmissions.length === 0) {
+  const { data: run } = await client
+    .from('plagiarism_runs')
+    .insert({
+      submission_id: submissionId,
+      comparison_scope: scope,
+      algorithm_version: PLAGIARISM_ALGORITHM_VERSION,
+      parameters: {
+        ...fingerprintOptions,
+        checkMode: assignment.check_mode,
+        codeLanguage: assignment.code_language,
+        tokenizer: tokenizer.key,
+        excludeDescription: assignment.exclude_description,
+        excludeStarter: Boolean(assignment.starter_text?.trim()),
+        flagScore: settings.flagScore,
+        paraphrase: assignment.check_mode === 'text'
+          ? { ...DEFAULT_PARAPHRASE_OPTIONS, maxCandidates: MAX_PARAPHRASE_CANDIDATES }
+          : null,
+      },
+    })
+    .select('id')
+    .single();
+
+  if (!run) {
+    return { error: 'Could not record the plagiarism run' };
+  }
+
+  if (!indexableIds.some(id => id !== submissionId) && referenceIds.length === 0) {
+    await markChecked(client, submissionId);
     return {
+      runId: run.id,
       overallSimilarity: 0,
       reports: [],
-      message: 'No other submissions to compare against',
+      message: 'No other submissions or reference documents to compare against',
     };
   }
 
+  const tokens = tokenizer.tokenize(currentText.text);
+  const exclusionCorpus = [
+    assignment.exclude_description ? assignment.description : '',
+    assignment.starter_text || '',
+  ].filter(text => text.trim().length > 0);
+  const excludedRanges = findExcludedRanges(tokens, exclusionCorpus, tokenizer, fingerprintOptions);
+
+  // Fingerprints touching excluded text are dropped, so those passages never match anything
+  const fingerprints = winnow(tokens, fingerprintOptions).filter(fingerprint =>
+    !excludedRanges.some(range =>
+      fingerprint.tokenIndex < range.endToken &&
+      fingerprint.tokenIndex + fingerprintOptions.k > range.startToken
+    )
+  );
+
+  const excludedSegments = mergeOverlappingRanges(
+    excludedRanges.map(range => ({
+      startIndex: tokens[range.startToken].start,
+      endIndex: tokens[range.endToken - 1].end,
+    }))
+  );
+  const excludedChars = excludedSegments.reduce((sum, e) => sum + (e.endIndex - e.startIndex), 0);
+  const scoredLength = Math.max(currentText.text.length - excludedChars, 1);
+  const localizedExclusions = excludedSegments.map(e => localizeRange(e, currentText));
+
+  // Source code has string literals rather than quotations
+  const quotations = assignment.check_mode === 'code' ? [] : findQuotations(currentText.text);
+
+  const submissionMatches = await findIndexedPassages(
+    client,
+    fingerprints,
+    scopeAssignmentIds,
+    submissionId,
+    fingerprintOptions
+  );
+  const referenceMatches = await findReferencePassages(client, fingerprints, referenceIds, fingerprintOptions);
+  const passagesBySubmission = submissionMatches.passages;
+  const passagesByReference = referenceMatches.passages;
+
+  const cases = await getSubmissionCases(client, submissionId);
+
+  // Synonym swaps and reordered clauses leave too few exact runs to fingerprint; code renames are tokenized away already
+  const paraphrases = assignment.check_mode === 'text'
+    ? await findScopeParaphrases(
+      client,
+      currentText,
+      excludedSegments,
+      paraphraseCandidates(submissionMatches.sharedHashes, 'submission', cases.dismissed),
+      paraphraseCandidates(referenceMatches.sharedHashes, 'reference', cases.dismissed),
+      assignment.language
+    )
+    : new Map<string, { passages: ParaphrasedPassage[]; comparedText: CombinedText }>();
+
+  const comparisonKeys = new Set([
+    ...[...passagesBySubmission.keys()].map(id => `submission:${id}`),
+    ...[...passagesByReference.keys()].map(id => `reference:${id}`),
+    ...paraphrases.keys(),
+  ]);
+
+  // Pairs a teacher dismissed as false positives are neither reported nor scored again
+  const comparisons = [...comparisonKeys]
+    .filter(key => !cases.dismissed.has(key))
+    .map(key => {
+      const id = key.slice(key.indexOf(':') + 1);
+      const paraphrase = paraphrases.get(key);
+      return key.startsWith('reference:')
+        ? {
+          key,
+          source: { matchedReferenceId: id },
+          report: { compared_reference_id: id },
+          passages: passagesByReference.get(id) || [],
+          paraphrase,
+        }
+        : {
+          key,
+          source: { matchedSubmissionId: id },
+          report: { compared_submission_id: id },
+          passages: passagesBySubmission.get(id) || [],
+          paraphrase,
+        };
+    });
+
   const allMatchedSegments: MatchedSegment[] = [];
+  const allParaphrasedRanges: ExcludedSegment[] = [];
   const reports = [];
 
-  for (const otherSubmission of otherSubmissions) {
-    if (!otherSubmission.content) continue;
-
-    const matches = findMatchingSegments(
-      currentSubmission.content,
-      otherSubmission.content,
-      otherSubmission.id
+  for (const comparison of comparisons) {
+    const matches = comparison.passages.map(passage =>
+      indexedPassageToSegment(passage, tokens, currentText.text, comparison.source)
     );
+    allMatchedSegments.push(...matches);
 
-    if (matches.length > 0) {
-      allMatchedSegments.push(...matches);
+    const totalMatchedChars = matches.reduce((sum, m) => sum + (m.endIndex - m.startIndex), 0);
+    const similarity = Math.min((totalMatchedChars / scoredLength) * 100, 100);
+    const cited = Math.min((citedLength(matches, quotations) / scoredLength) * 100, similarity);
+    const localizedMatches = matches.map(m => localizeSegment(m, currentText));
 
-      const totalMatchedChars = matches.reduce((sum, m) => sum + (m.endIndex - m.startIndex), 0);
-      const similarity = (totalMatchedChars / currentSubmission.content.length) * 100;
-
-      reports.push({
-        compared_submission_id: otherSubmission.id,
-        similarity_score: Math.round(similarity * 100) / 100,
-        matched_content: matches,
-      });
+    // Passages mostly matched verbatim are already scored; only the rest counts as paraphrased
+    const paraphrased = (comparison.paraphrase?.passages || []).filter(passage =>
+      overlapLength(passage, matches) * 2 < passage.endIndex - passage.startIndex
+    );
+    if (matches.length === 0 && paraphrased.length === 0) continue;
+    allParaphrasedRanges.push(...paraphrased);
 
-      await supabase.from('plagiarism_reports').insert({
-        submission_id: submissionId,
-        compared_submission_id: otherSubmission.id,
-        similarity_score: Math.round(similarity * 100) / 100,
-        matched_content: matches,
-      });
+    const paraphrasedChars = paraphrased.reduce(
+      (sum, p) => sum + (p.endIndex - p.startIndex) - overlapLength(p, matches),
+      0
+    );
+    const paraphraseScore = Math.min((paraphrasedChars / scoredLength) * 100, 100);
+    const localizedParaphrases = paraphrased.map(passage => localizeSegment<ParaphrasedSegment>(
+      {
+        text: currentText.text.slice(passage.startIndex, passage.endIndex),
+        startIndex: passage.startIndex,
+        endIndex: passage.endIndex,
+        ...comparison.source,
+        matchedStartIndex: passage.matchedStartIndex,
+        matchedEndIndex: passage.matchedEndIndex,
+        similarity: Math.round(passage.similarity * 100) / 100,
+      },
+      currentText,
+      comparison.paraphrase?.comparedText
+    ));
+
+    // Only matches at or above the flag score, verbatim or paraphrased, are opened for review
+    let caseId = cases.existing.get(comparison.key);
+    if (!caseId && (similarity - cited >= settings.flagScore || paraphraseScore >= settings.flagScore)) {
+      const { data: openedCase } = await client
+        .from('plagiarism_cases')
+        .insert({ submission_id: submissionId, ...comparison.report })
+        .select('id')
+        .single();
+      caseId = openedCase?.id;
     }
+
+    const report = {
+      ...comparison.report,
+      run_id: run.id,
+      case_id: caseId ?? null,
+      similarity_score: Math.round(similarity * 100) / 100,
+      cited_score: Math.round(cited * 100) / 100,
+      matched_content: localizedMatches,
+      paraphrase_score: Math.round(paraphraseScore * 100) / 100,
+      paraphrased_content: localizedParaphrases,
+      excluded_content: localizedExclusions,
+      comparison_scope: scope,
+    };
+
+    reports.push(report);
+    await client.from('plagiarism_reports').insert({ submission_id: submissionId, ...report });
   }
 
-  const mergedSegments = mergeOverlappingSegments(allMatchedSegments);
+  const mergedSegments = mergeOverlappingSegments(allMatchedSegments, currentText.text);
   const totalMatchedChars = mergedSegments.reduce((sum, m) => sum + (m.endIndex - m.startIndex), 0);
-  const overallSimilarity = (totalMatchedChars / currentSubmission.content.length) * 100;
+  const overallSimilarity = Math.min((totalMatchedChars / scoredLength) * 100, 100);
+  const citedOverlap = Math.min((citedLength(mergedSegments, quotations) / scoredLength) * 100, overallSimilarity);
+  // Like the per-source scores, text that also matched verbatim is not counted as paraphrased
+  const paraphrasedChars = mergeOverlappingRanges(allParaphrasedRanges).reduce(
+    (sum, p) => sum + (p.endIndex - p.startIndex) - overlapLength(p, mergedSegments),
+    0
+  );
+  const paraphraseOverlap = Math.min((paraphrasedChars / scoredLength) * 100, 100);
+
+  await client
+    .from('plagiarism_runs')
+    .update({
+      overall_similarity: Math.round(overallSimilarity * 100) / 100,
+      cited_overlap: Math.round(citedOverlap * 100) / 100,
+      paraphrase_overlap: Math.round(paraphraseOverlap * 100) / 100,
+    })
+    .eq('id', run.id);
+  await markChecked(client, submissionId);
 
   return {
+    runId: run.id,
     overallSimilarity: Math.round(overallSimilarity * 100) / 100,
+    citedOverlap: Math.round(citedOverlap * 100) / 100,
+    uncitedOverlap: Math.round((overallSimilarity - citedOverlap) * 100) / 100,
+    paraphraseOverlap: Math.round(paraphraseOverlap * 100) / 100,
     reports: reports.sort((a, b) => b.similarity_score - a.similarity_score),
-    matchedSegments: mergedSegments,
+    matchedSegments: mergedSegments.map(m => localizeSegment(m, currentText)),
+    excludedSegments: localizedExclusions,
   };
 }
 
-export async function getPlagiarismReports(submissionId: string) {
-  const { data } = await supabase
+/**
+ * Loads the full text a match points into: a reference document, an
+ * attachment's extracted text, or a submission's typed content.
+ */
+export async function getSourceText(
+  client: SupabaseClient<Database>,
+  source: { submissionId?: string; referenceId?: string; fileId?: string }
+) {
+  if (source.referenceId) {
+    const { data } = await client
+      .from('reference_documents')
+      .select('content')
+      .eq('id', source.referenceId)
+      .single();
+    return data?.content ?? '';
+  }
+
+  if (source.fileId) {
+    const { data } = await client
+      .from('submission_files')
+      .select('extracted_text')
+      .eq('id', source.fileId)
+      .single();
+    return data?.extracted_text ?? '';
+  }
+
+  if (source.submissionId) {
+    const { data } = await client
+      .from('submissions')
+      .select('content')
+      .eq('id', source.submissionId)
+      .single();
+    return data?.content ?? '';
+  }
+
+  return '';
+}
+
+/** The submission's check runs, newest first. */
+export async function getPlagiarismRuns(client: SupabaseClient<Database>, submissionId: string) {
+  const { data } = await client
+    .from('plagiarism_runs')
+    .select('*')
+    .eq('submission_id', submissionId)
+    .order('created_at', { ascending: false });
+
+  return data || [];
+}
+
+/** The reports of one run of the submission's check; the latest run when `runId` is omitted. */
+export async function getPlagiarismReports(
+  client: SupabaseClient<Database>,
+  submissionId: string,
+  runId?: string
+) {
+  let targetRunId = runId;
+
+  if (!targetRunId) {
+    const { data: latest } = await client
+      .from('plagiarism_runs')
+      .select('id')
+      .eq('submission_id', submissionId)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+    if (!latest) return [];
+    targetRunId = latest.id;
+  }
+
+  const { data } = await client
     .from('plagiarism_reports')
     .select(`
       *,
       compared_submission:submissions!plagiarism_reports_compared_submission_id_fkey(
         id,
-        student:profiles(full_name, email)
-      )
+        assignment_id,
+        student:profiles(full_name, email),
+        assignment:assignments(title)
+      ),
+      compared_reference:reference_documents(id, title, tags),
+      review_case:plagiarism_cases(id, status, reviewed_at)
     `)
     .eq('submission_id', submissionId)
+    .eq('run_id', targetRunId)
     .order('similarity_score', { ascending: false });
 
   return data || [];
@@ -0,0 +1,65 @@
+import { supabase } from './supabase';
+import type { Database } from './database.types';
+
+export type CaseStatus = Database['public']['Tables']['plagiarism_cases']['Row']['status'];
+
+export const CASE_STATUS_OPTIONS: { value: CaseStatus; label: string }[] = [
+  { value: 'pending', label: 'Pending review' },
+  { value: 'dismissed', label: 'Dismissed (false positive)' },
+  { value: 'confirmed', label: 'Confirmed' },
+  { value: 'escalated', label: 'Escalated' },
+];
+
+/** Cases that still need the teacher's (or someone else's) attention. */
+export const OPEN_CASE_STATUSES: CaseStatus[] = ['pending', 'escalated'];
+
+export function getCaseStatusLabel(status: CaseStatus): string {
+  return CASE_STATUS_OPTIONS.find(option => option.value === status)?.label ?? status;
+}
+
+/** Changes a case's status and records the decision, with the note, in its history. */
+export async function reviewCase(caseId: string, status: CaseStatus, note: string) {
+  const { data, error } = await supabase.rpc('review_plagiarism_case', {
+    target_case_id: caseId,
+    new_status: status,
+    review_note: note.trim(),
+  });
+
+  return { data, error: error?.message ?? null };
+}
+
+export async function getCaseHistory(caseId: string) {
+  const { data } = await supabase
+    .from('plagiarism_case_events')
+    .select('*, actor:profiles(full_name)')
+    .eq('case_id', caseId)
+    .order('created_at', { ascending: false });
+
+  return data || [];
+}
+
+/** The teacher's cases with the given statuses, newest first, with the latest report of each. */
+export async function getCases(statuses: CaseStatus[]) {
+  const { data } = await supabase
+    .from('plagiarism_cases')
+    .select(`
+      *,
+      submission:submissions!plagiarism_cases_submission_id_fkey(
+        id,
+        assignment_id,
+        content,
+        student:profiles(full_name, email),
+        assignment:assignments(title, check_mode)
+      ),
+      compared_submission:submissions!plagiarism_cases_compared_submission_id_fkey(
+        id,
+        student:profiles(full_name)
+      ),
+      compared_reference:reference_documents(id, title),
+      reports:plagiarism_reports(similarity_score, cited_score, matched_content, created_at)
+    `)
+    .in('status', statuses)
+    .order('created_at', { ascending: false });
+
+  return data || [];
+}
@@ -0,0 +1,145 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from './database.types';
+import { DEFAULT_FINGERPRINT_OPTIONS, type FingerprintOptions } from './fingerprint';
+import { CODE_FINGERPRINT_OPTIONS } from './codeTokenizer';
+
+type SettingsRow = Database['public']['Tables']['plagiarism_settings']['Row'];
+
+/** The configurable columns of a settings row; null means "inherit". */
+export type PlagiarismSettingsValues = Pick<
+  SettingsRow,
+  'min_match_tokens' | 'max_gap_tokens' | 'flag_score' | 'moderate_score' | 'high_score' | 'very_high_score'
+>;
+
+/** A course's settings, or an assignment's overrides of its course's settings. */
+export type SettingsTarget = { courseId: string } | { assignmentId: string };
+
+export type SeverityBands = {
+  moderate: number;
+  high: number;
+  veryHigh: number;
+};
+
+export type Severity = 'low' | 'moderate' | 'high' | 'very_high';
+
+export type PlagiarismSettings = {
+  fingerprintOptions: FingerprintOptions;
+  /** Uncited overlap, in percent, at which a matched source is flagged for review. */
+  flagScore: number;
+  bands: SeverityBands;
+};
+
+export const DEFAULT_SEVERITY_BANDS: SeverityBands = { moderate: 20, high: 40, veryHigh: 60 };
+
+export const DEFAULT_FLAG_SCORE = 40;
+
+export const EMPTY_SETTINGS_VALUES: PlagiarismSettingsValues = {
+  min_match_tokens: null,
+  max_gap_tokens: null,
+  flag_score: null,
+  moderate_score: null,
+  high_score: null,
+  very_high_score: null,
+};
+
+export function getDefaultSettings(checkMode: 'text' | 'code' = 'text'): PlagiarismSettings {
+  return {
+    fingerprintOptions: checkMode === 'code' ? CODE_FINGERPRINT_OPTIONS : DEFAULT_FINGERPRINT_OPTIONS,
+    flagScore: DEFAULT_FLAG_SCORE,
+    bands: DEFAULT_SEVERITY_BANDS,
+  };
+}
+
+/** Applies each layer's set values over the ones before it, so later layers win. */
+export function mergeSettings(
+  base: PlagiarismSettings,
+  ...layers: (PlagiarismSettingsValues | null | undefined)[]
+): PlagiarismSettings {
+  return layers.reduce<PlagiarismSettings>((settings, layer) => (!layer ? settings : {
+    fingerprintOptions: {
+      ...settings.fingerprintOptions,
+      minMatchTokens: layer.min_match_tokens ?? settings.fingerprintOptions.minMatchTokens,
+      maxGapTokens: layer.max_gap_tokens ?? settings.fingerprintOptions.maxGapTokens,
+    },
+    flagScore: layer.flag_score ?? settings.flagScore,
+    bands: {
+      moderate: layer.moderate_score ?? settings.bands.moderate,
+      high: layer.high_score ?? settings.bands.high,
+      veryHigh: layer.very_high_score ?? settings.bands.veryHigh,
+    },
+  }), base);
+}
+
+/** Returns an error message when the bands would overlap, or null. */
+export function validateBands(bands: SeverityBands): string | null {
+  if (bands.moderate >= bands.high || bands.high >= bands.veryHigh) {
+    return 'Severity bands must increase: moderate, then high, then very high.';
+  }
+  return null;
+}
+
+export function getSeverity(score: number, bands: SeverityBands = DEFAULT_SEVERITY_BANDS): Severity {
+  if (score < bands.moderate) return 'low';
+  if (score < bands.high) return 'moderate';
+  if (score < bands.veryHigh) return 'high';
+  return 'very_high';
+}
+
+export async function getSettingsValues(client: SupabaseClient<Database>, target: SettingsTarget) {
+  const { data } = await client
+    .from('plagiarism_settings')
+    .select('*')
+    .eq('courseId' in target ? 'course_id' : 'assignment_id', 'courseId' in target ? target.courseId : target.assignmentId)
+    .maybeSingle();
+
+  return data;
+}
+
+export async function saveSettingsValues(
+  client: SupabaseClient<Database>,
+  target: SettingsTarget,
+  values: PlagiarismSettingsValues
+) {
+  const { error } = await client
+    .from('plagiarism_settings')
+    .upsert(
+      {
+        ...('courseId' in target ? { course_id: target.courseId } : { assignment_id: target.assignmentId }),
+        ...values,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: 'courseId' in target ? 'course_id' : 'assignment_id' }
+    );
+
+  return { error: error?.message ?? null };
+}
+
+/**
+ * The settings in effect for an assignment: its own overrides, then its
+ * course's settings, then the defaults for its check mode.
+ */
+export async function resolvePlagiarismSettings(
+  client: SupabaseClient<Database>,
+  assignment: { id: string; course_id: string; check_mode: 'text' | 'code' }
+): Promise<PlagiarismSettings> {
+  const { data } = await client
+    .from('plagiarism_settings')
+    .select('*')
+    .or(`course_id.eq.${assignment.course_id},assignment_id.eq.${assignment.id}`);
+
+  const courseSettings = data?.find(row => row.course_id === assignment.course_id);
+  const assignmentSettings = data?.find(row => row.assignment_id === assignment.id);
+
+  return mergeSettings(getDefaultSettings(assignment.check_mode), courseSettings, assignmentSettings);
+}
+
+/** Like `resolvePlagiarismSettings`, for when only the assignment's id is at hand. */
+export async function getAssignmentSettings(client: SupabaseClient<Database>, assignmentId: string) {
+  const { data: assignment } = await client
+    .from('assignments')
+    .select('id, course_id, check_mode')
+    .eq('id', assignmentId)
+    .single();
+
+  return assignment ? resolvePlagiarismSettings(client, assignment) : getDefaultSettings();
+}
@@ -0,0 +1,126 @@
+import { supabase } from './supabase';
+import type { Database } from './database.types';
+import { extractText } from './textExtraction';
+import { getFileExtension } from './fileTypes';
+
+export type ReferenceDocument = Database['public']['Tables']['reference_documents']['Row'];
+
+export const REFERENCE_DOCUMENTS_BUCKET = 'reference-documents';
+
+export const REFERENCE_FILE_TYPES = ['pdf', 'docx', 'odt', 'txt'];
+
+export function parseTags(input: string): string[] {
+  const tags = input
+    .split(',')
+    .map(tag => tag.trim().toLowerCase())
+    .filter(tag => tag.length > 0);
+
+  return [...new Set(tags)];
+}
+
+/**
+ * Adds a document to the teacher's reference library, either from an
+ * uploaded file (whose text is extracted here) or from pasted text.
+ */
+export async function addReferenceDocument(reference: {
+  teacherId: string;
+  courseId: string | null;
+  title: string;
+  tags: string[];
+  file?: File | null;
+  text?: string;
+}) {
+  let content = reference.text?.trim() || '';
+  let pageOffsets = [0];
+  let storagePath: string | null = null;
+
+  if (reference.file) {
+    if (!REFERENCE_FILE_TYPES.includes(getFileExtension(reference.file.name))) {
+      return { data: null, error: `Only ${REFERENCE_FILE_TYPES.join(', ')} files can be used as references.` };
+    }
+
+    let extracted;
+    try {
+      extracted = await extractText(reference.file.name, reference.file);
+    } catch {
+      extracted = null;
+    }
+
+    if (!extracted || !extracted.text.trim()) {
+      return { data: null, error: `Could not read any text from ${reference.file.name}.` };
+    }
+
+    content = extracted.text;
+    pageOffsets = extracted.pageOffsets;
+
+    const safeName = reference.file.name.replace(/[^\w.-]+/g, '_');
+    storagePath = `${reference.teacherId}/${crypto.randomUUID()}-${safeName}`;
+
+    const { error: uploadError } = await supabase.storage
+      .from(REFERENCE_DOCUMENTS_BUCKET)
+      .upload(storagePath, reference.file, { contentType: reference.file.type || undefined });
+
+    if (uploadError) {
+      return { data: null, error: uploadError.message };
+    }
+  }
+
+  if (!content) {
+    return { data: null, error: 'Upload a file or paste the text of the document.' };
+  }
+
+  const { data, error } = await supabase
+    .from('reference_documents')
+    .insert({
+      teacher_id: reference.teacherId,
+      course_id: reference.courseId,
+      title: reference.title,
+      tags: reference.tags,
+      storage_path: storagePath,
+      file_name: reference.file?.name ?? null,
+      content,
+      page_offsets: pageOffsets,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    if (storagePath) {
+      await supabase.storage.from(REFERENCE_DOCUMENTS_BUCKET).remove([storagePath]);
+    }
+    return { data: null, error: error.message };
+  }
+
+  return { data, error: null };
+}
+
+export async function getReferenceDocuments(teacherId: string) {
+  const { data } = await supabase
+    .from('reference_documents')
+    .select('*')
+    .eq('teacher_id', teacherId)
+    .order('created_at', { ascending: false });
+
+  return data || [];
+}
+
+export async function updateReferenceTags(id: string, tags: string[]) {
+  return supabase.from('reference_documents').update({ tags }).eq('id', id);
+}
+
+export async function getReferenceDocumentUrl(reference: ReferenceDocument) {
+  if (!reference.storage_path) return null;
+
+  const { data } = await supabase.storage
+    .from(REFERENCE_DOCUMENTS_BUCKET)
+    .createSignedUrl(reference.storage_path, 60 * 10);
+
+  return data?.signedUrl ?? null;
+}
+
+export async function deleteReferenceDocument(reference: ReferenceDocument) {
+  await supabase.from('reference_documents').delete().eq('id', reference.id);
+  if (reference.storage_path) {
+    await supabase.storage.from(REFERENCE_DOCUMENTS_BUCKET).remove([reference.storage_path]);
+  }
+}
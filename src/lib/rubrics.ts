@@ -0,0 +1,195 @@
+import { supabase } from './supabase';
+import type { Database } from './database.types';
+
+export type RubricLevel = {
+  id: string;
+  title: string;
+  description: string;
+  points: number;
+};
+
+export type RubricCriterion = {
+  id: string;
+  title: string;
+  description: string;
+  levels: RubricLevel[];
+};
+
+/** The level chosen for one criterion of a graded submission, with the grader's comment. */
+export type CriterionScore = {
+  criterionId: string;
+  levelId: string | null;
+  points: number;
+  comment: string;
+};
+
+type RubricRow = Database['public']['Tables']['rubrics']['Row'];
+type AssessmentRow = Database['public']['Tables']['rubric_assessments']['Row'];
+
+export type Rubric = Omit<RubricRow, 'criteria'> & { criteria: RubricCriterion[] };
+
+export type RubricAssessment = Omit<AssessmentRow, 'criteria' | 'scores'> & {
+  criteria: RubricCriterion[];
+  scores: CriterionScore[];
+};
+
+// Ids only need to be unique within a rubric; they tie scores to criteria and levels across edits
+export function newLevel(points: number, title = ''): RubricLevel {
+  return { id: crypto.randomUUID(), title, description: '', points };
+}
+
+export function newCriterion(): RubricCriterion {
+  return {
+    id: crypto.randomUUID(),
+    title: '',
+    description: '',
+    levels: [newLevel(4, 'Exemplary'), newLevel(3, 'Proficient'), newLevel(2, 'Developing'), newLevel(1, 'Beginning')],
+  };
+}
+
+/** The highest total a rubric allows: the best level of every criterion. */
+export function maxRubricPoints(criteria: RubricCriterion[]): number {
+  return criteria.reduce((sum, criterion) => sum + Math.max(0, ...criterion.levels.map(level => level.points)), 0);
+}
+
+export function totalRubricPoints(scores: CriterionScore[]): number {
+  return scores.reduce((sum, score) => sum + score.points, 0);
+}
+
+/**
+ * The submission score for a rubric total. A rubric worth as many points as
+ * the assignment maps one to one; otherwise the total is scaled to the
+ * assignment's max score and rounded, as scores are whole numbers.
+ */
+export function rubricScore(totalPoints: number, maxPoints: number, maxScore: number): number {
+  if (maxPoints <= 0) return 0;
+  if (maxPoints === maxScore) return Math.round(totalPoints);
+  return Math.round((totalPoints / maxPoints) * maxScore);
+}
+
+/** Returns an error message when the rubric cannot be saved, or null. */
+export function validateRubric(title: string, criteria: RubricCriterion[]): string | null {
+  if (!title.trim()) return 'Give the rubric a title.';
+  if (criteria.length === 0) return 'Add at least one criterion.';
+
+  for (const criterion of criteria) {
+    if (!criterion.title.trim()) return 'Every criterion needs a title.';
+    if (criterion.levels.length === 0) return `Add at least one level to "${criterion.title}".`;
+    if (criterion.levels.some(level => !level.title.trim())) return `Every level of "${criterion.title}" needs a title.`;
+    if (criterion.levels.some(level => !Number.isFinite(level.points) || level.points < 0)) {
+      return `Points in "${criterion.title}" must be zero or more.`;
+    }
+  }
+
+  return null;
+}
+
+/** Returns an error message unless a level is chosen for every criterion, or null. */
+export function validateScores(criteria: RubricCriterion[], scores: CriterionScore[]): string | null {
+  const missing = criteria.find(criterion => !scores.some(s => s.criterionId === criterion.id && s.levelId));
+  return missing ? `Choose a level for "${missing.title}".` : null;
+}
+
+function toRubric(row: RubricRow): Rubric {
+  return { ...row, criteria: row.criteria as RubricCriterion[] };
+}
+
+export async function getRubrics(teacherId: string): Promise<Rubric[]> {
+  const { data } = await supabase
+    .from('rubrics')
+    .select('*')
+    .eq('teacher_id', teacherId)
+    .order('title');
+
+  return (data || []).map(toRubric);
+}
+
+export async function getRubric(id: string): Promise<Rubric | null> {
+  const { data } = await supabase
+    .from('rubrics')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle();
+
+  return data ? toRubric(data) : null;
+}
+
+/** Creates the rubric, or updates it when `id` is set. */
+export async function saveRubric(rubric: {
+  id?: string;
+  teacherId: string;
+  title: string;
+  description: string;
+  criteria: RubricCriterion[];
+}) {
+  const error = validateRubric(rubric.title, rubric.criteria);
+  if (error) return { data: null, error };
+
+  const values = {
+    teacher_id: rubric.teacherId,
+    title: rubric.title.trim(),
+    description: rubric.description.trim(),
+    criteria: rubric.criteria,
+    updated_at: new Date().toISOString(),
+  };
+
+  const { data, error: saveError } = rubric.id
+    ? await supabase.from('rubrics').update(values).eq('id', rubric.id).select().single()
+    : await supabase.from('rubrics').insert(values).select().single();
+
+  if (saveError) return { data: null, error: saveError.message };
+  return { data: toRubric(data), error: null };
+}
+
+export async function deleteRubric(id: string) {
+  return supabase.from('rubrics').delete().eq('id', id);
+}
+
+export async function setAssignmentRubric(assignmentId: string, rubricId: string | null) {
+  return supabase.from('assignments').update({ rubric_id: rubricId }).eq('id', assignmentId);
+}
+
+export async function getAssessment(submissionId: string): Promise<RubricAssessment | null> {
+  const { data } = await supabase
+    .from('rubric_assessments')
+    .select('*')
+    .eq('submission_id', submissionId)
+    .maybeSingle();
+
+  return data
+    ? { ...data, criteria: data.criteria as RubricCriterion[], scores: data.scores as CriterionScore[] }
+    : null;
+}
+
+/**
+ * Records a rubric grade. The criteria are stored with it, so the grade still
+ * reads the same after the rubric is edited or deleted.
+ */
+export async function saveAssessment(assessment: {
+  submissionId: string;
+  rubricId: string | null;
+  criteria: RubricCriterion[];
+  scores: CriterionScore[];
+  gradedBy: string;
+}) {
+  const error = validateScores(assessment.criteria, assessment.scores);
+  if (error) return { error };
+
+  const { error: saveError } = await supabase
+    .from('rubric_assessments')
+    .upsert(
+      {
+        submission_id: assessment.submissionId,
+        rubric_id: assessment.rubricId,
+        criteria: assessment.criteria,
+        scores: assessment.scores,
+        total_points: totalRubricPoints(assessment.scores),
+        max_points: maxRubricPoints(assessment.criteria),
+        graded_by: assessment.gradedBy,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: 'submission_id' }
+    );
+
+  return { error: saveError?.message ?? null };
+}
@@ -0,0 +1,149 @@
+import { supabase } from './supabase';
+import type { MatchedSegment } from './plagiarism';
+
+export type MatrixSubmission = {
+  id: string;
+  studentName: string;
+};
+
+/** The strongest report between two submissions, in whichever direction it was produced. */
+export type SimilarityPair = {
+  reportId: string;
+  submissionId: string;
+  comparedSubmissionId: string;
+  /** Uncited overlap, which is what the heatmap and clusters are based on. */
+  score: number;
+  citedScore: number;
+  matchedContent: MatchedSegment[];
+};
+
+export type SimilarityCluster = {
+  submissionIds: string[];
+  maxScore: number;
+};
+
+export function pairKey(a: string, b: string): string {
+  return a < b ? `${a}:${b}` : `${b}:${a}`;
+}
+
+/**
+ * Loads the submitted work for an assignment and, for every pair of it, the
+ * highest-scoring report of their latest plagiarism runs. Pairs that were never
+ * checked, share nothing, or were dismissed on review are absent from the map.
+ */
+export async function getAssignmentSimilarity(assignmentId: string) {
+  const { data: submissionRows } = await supabase
+    .from('submissions')
+    .select('id, plagiarism_status, profiles (full_name)')
+    .eq('assignment_id', assignmentId)
+    .neq('status', 'draft');
+
+  const submissions: MatrixSubmission[] = (submissionRows || [])
+    .map(row => ({ id: row.id, studentName: row.profiles?.full_name || 'Unknown student' }))
+    .sort((a, b) => a.studentName.localeCompare(b.studentName));
+  const uncheckedCount = (submissionRows || []).filter(row => row.plagiarism_status !== 'completed').length;
+
+  const ids = submissions.map(s => s.id);
+  const pairs = new Map<string, SimilarityPair>();
+  if (ids.length < 2) return { submissions, pairs, uncheckedCount };
+
+  // Only each submission's latest run counts; earlier runs are history
+  const { data: runs } = await supabase
+    .from('plagiarism_runs')
+    .select('id, submission_id')
+    .in('submission_id', ids)
+    .order('created_at', { ascending: false });
+
+  const latestRuns = new Map<string, string>();
+  for (const run of runs || []) {
+    if (!latestRuns.has(run.submission_id)) latestRuns.set(run.submission_id, run.id);
+  }
+
+  const { data: reports } = await supabase
+    .from('plagiarism_reports')
+    .select(`
+      id,
+      submission_id,
+      compared_submission_id,
+      similarity_score,
+      cited_score,
+      matched_content,
+      review_case:plagiarism_cases(status)
+    `)
+    .in('run_id', [...latestRuns.values()])
+    .in('compared_submission_id', ids);
+
+  for (const report of reports || []) {
+    if (!report.compared_submission_id) continue;
+    // Teachers dismissed this pair as a false positive
+    if (report.review_case?.status === 'dismissed') continue;
+
+    const score = report.similarity_score - report.cited_score;
+    const key = pairKey(report.submission_id, report.compared_submission_id);
+    const existing = pairs.get(key);
+
+    if (!existing || score > existing.score) {
+      pairs.set(key, {
+        reportId: report.id,
+        submissionId: report.submission_id,
+        comparedSubmissionId: report.compared_submission_id,
+        score,
+        citedScore: report.cited_score,
+        matchedContent: (report.matched_content || []) as MatchedSegment[],
+      });
+    }
+  }
+
+  return { submissions, pairs, uncheckedCount };
+}
+
+/**
+ * Groups submissions connected by pairs at or above `threshold` (uncited
+ * overlap, in percent). Connections are transitive, so three students who
+ * each copied from one shared source end up in one cluster even if not every
+ * pair among them crosses the threshold. Largest clusters come first.
+ */
+export function findClusters(
+  submissionIds: string[],
+  pairs: Map<string, SimilarityPair>,
+  threshold: number
+): SimilarityCluster[] {
+  const parent = new Map(submissionIds.map(id => [id, id]));
+
+  const find = (id: string): string => {
+    let root = id;
+    while (parent.get(root) !== root) root = parent.get(root)!;
+    // Path compression
+    while (parent.get(id) !== root) {
+      const next = parent.get(id)!;
+      parent.set(id, root);
+      id = next;
+    }
+    return root;
+  };
+
+  for (const pair of pairs.values()) {
+    if (pair.score < threshold) continue;
+    if (!parent.has(pair.submissionId) || !parent.has(pair.comparedSubmissionId)) continue;
+    parent.set(find(pair.submissionId), find(pair.comparedSubmissionId));
+  }
+
+  const members = new Map<string, string[]>();
+  for (const id of submissionIds) {
+    const root = find(id);
+    members.set(root, [...(members.get(root) || []), id]);
+  }
+
+  return [...members.values()]
+    .filter(ids => ids.length > 1)
+    .map(ids => {
+      let maxScore = 0;
+      for (let i = 0; i < ids.length; i++) {
+        for (let j = i + 1; j < ids.length; j++) {
+          maxScore = Math.max(maxScore, pairs.get(pairKey(ids[i], ids[j]))?.score ?? 0);
+        }
+      }
+      return { submissionIds: ids, maxScore };
+    })
+    .sort((a, b) => b.submissionIds.length - a.submissionIds.length || b.maxScore - a.maxScore);
+}
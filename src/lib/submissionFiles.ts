@@ -0,0 +1,92 @@
+import { supabase } from './supabase';
+import type { Database } from './database.types';
+import { getFileExtension, SUBMISSION_FILES_BUCKET } from './fileTypes';
+
+type Assignment = Database['public']['Tables']['assignments']['Row'];
+export type SubmissionFile = Database['public']['Tables']['submission_files']['Row'];
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export function validateSubmissionFiles(
+  files: File[],
+  assignment: Pick<Assignment, 'allowed_file_types' | 'max_file_size_mb' | 'max_files'>,
+  existingCount: number
+): string | null {
+  if (existingCount + files.length > assignment.max_files) {
+    return `You can attach at most ${assignment.max_files} file(s) to this assignment.`;
+  }
+
+  for (const file of files) {
+    if (!assignment.allowed_file_types.includes(getFileExtension(file.name))) {
+      return `${file.name}: only ${assignment.allowed_file_types.join(', ')} files are accepted.`;
+    }
+    if (file.size > assignment.max_file_size_mb * 1024 * 1024) {
+      return `${file.name}: files must be smaller than ${assignment.max_file_size_mb} MB.`;
+    }
+  }
+
+  return null;
+}
+
+export async function uploadSubmissionFile(
+  submission: { id: string; assignment_id: string; student_id: string },
+  file: File
+) {
+  const safeName = file.name.replace(/[^\w.-]+/g, '_');
+  const storagePath = `${submission.assignment_id}/${submission.student_id}/${crypto.randomUUID()}-${safeName}`;
+
+  const { error: uploadError } = await supabase.storage
+    .from(SUBMISSION_FILES_BUCKET)
+    .upload(storagePath, file, { contentType: file.type || undefined });
+
+  if (uploadError) {
+    return { data: null, error: uploadError.message };
+  }
+
+  const { data, error } = await supabase
+    .from('submission_files')
+    .insert({
+      submission_id: submission.id,
+      storage_path: storagePath,
+      file_name: file.name,
+      mime_type: file.type || 'application/octet-stream',
+      size_bytes: file.size,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    await supabase.storage.from(SUBMISSION_FILES_BUCKET).remove([storagePath]);
+    return { data: null, error: error.message };
+  }
+
+  return { data, error: null };
+}
+
+export async function getSubmissionFiles(submissionId: string) {
+  const { data } = await supabase
+    .from('submission_files')
+    .select('*')
+    .eq('submission_id', submissionId)
+    .order('uploaded_at', { ascending: true });
+
+  return data || [];
+}
+
+export async function getSubmissionFileUrl(file: SubmissionFile) {
+  const { data } = await supabase.storage
+    .from(SUBMISSION_FILES_BUCKET)
+    .createSignedUrl(file.storage_path, 60 * 10);
+
+  return data?.signedUrl ?? null;
+}
+
+// The object goes first: storage only lets students remove files whose row shows the work is not graded
+export async function deleteSubmissionFile(file: SubmissionFile) {
+  await supabase.storage.from(SUBMISSION_FILES_BUCKET).remove([file.storage_path]);
+  await supabase.from('submission_files').delete().eq('id', file.id);
+}
@@ -0,0 +1,73 @@
+export type MatchLocation = {
+  fileId: string;
+  fileName: string;
+  page: number;
+};
+
+export type SubmissionText = {
+  content: string | null;
+  submission_files: {
+    id: string;
+    file_name: string;
+    extracted_text: string | null;
+    page_offsets: number[];
+  }[];
+};
+
+type FileRange = {
+  start: number;
+  end: number;
+  fileId: string;
+  fileName: string;
+  pageOffsets: number[];
+};
+
+/**
+ * A submission's typed content and the extracted text of its attachments,
+ * joined into one string so they can be fingerprinted together. `files`
+ * records where each attachment sits in that string.
+ */
+export type CombinedText = {
+  text: string;
+  files: FileRange[];
+};
+
+export const SUBMISSION_TEXT_COLUMNS = 'content, submission_files (id, file_name, extracted_text, page_offsets)';
+
+export function combineSubmissionText(submission: SubmissionText): CombinedText {
+  let text = submission.content || '';
+  const files: FileRange[] = [];
+
+  for (const file of submission.submission_files) {
+    if (!file.extracted_text) continue;
+
+    if (text.length > 0) text += '\n\n';
+    files.push({
+      start: text.length,
+      end: text.length + file.extracted_text.length,
+      fileId: file.id,
+      fileName: file.file_name,
+      pageOffsets: file.page_offsets,
+    });
+    text += file.extracted_text;
+  }
+
+  return { text, files };
+}
+
+export function pageAt(offset: number, pageOffsets: number[]): number {
+  return pageOffsets.filter(pageOffset => pageOffset <= offset).length || 1;
+}
+
+export function locateOffset(index: number, combined: CombinedText) {
+  const range = combined.files.find(f => index >= f.start && index < f.end);
+  if (!range) return { offset: index, range: null, file: null };
+
+  const offset = index - range.start;
+
+  return {
+    offset,
+    range,
+    file: { fileId: range.fileId, fileName: range.fileName, page: pageAt(offset, range.pageOffsets) },
+  };
+}
@@ -0,0 +1,44 @@
+import { supabase } from './supabase';
+import type { Database } from './database.types';
+import { diffStats, diffText, type DiffStats } from './diff';
+
+export type SubmissionVersion = Database['public']['Tables']['submission_versions']['Row'];
+
+/** A version with what changed since the one before it. */
+export type VersionSummary = {
+  version: SubmissionVersion;
+  words: number;
+  change: DiffStats;
+  /** Many words arrived in this one save and make up most of the text, as when text is pasted in. */
+  largeInsertion: boolean;
+};
+
+export const LARGE_INSERTION_WORDS = 200;
+
+export function wordCount(text: string): number {
+  return text.match(/\S+/g)?.length ?? 0;
+}
+
+export async function getVersions(submissionId: string): Promise<SubmissionVersion[]> {
+  const { data } = await supabase
+    .from('submission_versions')
+    .select('*')
+    .eq('submission_id', submissionId)
+    .order('version_number');
+
+  return data || [];
+}
+
+export function summarizeVersions(versions: SubmissionVersion[]): VersionSummary[] {
+  return versions.map((version, index) => {
+    const words = wordCount(version.content);
+    const change = diffStats(diffText(versions[index - 1]?.content ?? '', version.content));
+
+    return {
+      version,
+      words,
+      change,
+      largeInsertion: change.addedWords >= LARGE_INSERTION_WORDS && change.addedWords * 2 >= words,
+    };
+  });
+}
@@ -0,0 +1,280 @@
+import { unzipSync, strFromU8 } from 'fflate';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from './database.types';
+import { getFileExtension, SUBMISSION_FILES_BUCKET } from './fileTypes';
+
+export type ExtractedText = {
+  text: string;
+  pageOffsets: number[];
+};
+
+function joinPages(pages: string[]): ExtractedText {
+  const pageOffsets: number[] = [];
+  let text = '';
+
+  pages.forEach((page, index) => {
+    if (index > 0) text += '\n\n';
+    pageOffsets.push(text.length);
+    text += page.trim();
+  });
+
+  return { text, pageOffsets: pageOffsets.length > 0 ? pageOffsets : [0] };
+}
+
+let pdfWorkerSrc: string | null = null;
+
+/**
+ * Points pdf.js at its worker script. The app calls this once at startup
+ * with the bundled worker URL; the plagiarism worker leaves it unset and
+ * pdf.js parses on the main thread.
+ */
+export function configurePdfWorker(workerSrc: string) {
+  pdfWorkerSrc = workerSrc;
+}
+
+async function extractPdf(data: ArrayBuffer): Promise<ExtractedText> {
+  const pdfjs = await import('pdfjs-dist');
+  if (pdfWorkerSrc) {
+    pdfjs.GlobalWorkerOptions.workerSrc = pdfWorkerSrc;
+  }
+
+  const document = await pdfjs.getDocument({ data: new Uint8Array(data) }).promise;
+  const pages: string[] = [];
+
+  for (let pageNumber = 1; pageNumber <= document.numPages; pageNumber++) {
+    const page = await document.getPage(pageNumber);
+    const content = await page.getTextContent();
+    let pageText = '';
+
+    for (const item of content.items) {
+      if (!('str' in item)) continue;
+      pageText += item.str;
+      pageText += item.hasEOL ? '\n' : ' ';
+    }
+
+    pages.push(pageText.replace(/[ \t]+/g, ' '));
+  }
+
+  await document.destroy();
+  return joinPages(pages);
+}
+
+type XmlEvent =
+  | { type: 'open'; name: string; attributes: Record<string, string>; selfClosing: boolean }
+  | { type: 'close'; name: string }
+  | { type: 'text'; text: string };
+
+const XML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+function decodeXmlEntities(text: string): string {
+  return text.replace(/&(#x[\da-fA-F]+|#\d+|\w+);/g, (entity, name: string) => {
+    if (name.startsWith('#x')) return String.fromCodePoint(parseInt(name.slice(2), 16));
+    if (name.startsWith('#')) return String.fromCodePoint(parseInt(name.slice(1), 10));
+    return XML_ENTITIES[name] ?? entity;
+  });
+}
+
+/**
+ * Streams the tags and text of an XML document. Office documents only need
+ * element names, a few attributes and text, and DOMParser is not available
+ * in the plagiarism worker, so this stands in for it.
+ */
+function* readXmlEvents(xml: string): Generator<XmlEvent> {
+  const pattern = /<!\[CDATA\[([\s\S]*?)\]\]>|<!--[\s\S]*?-->|<[?!][^>]*>|<(\/?)([^\s/>]+)([^>]*?)(\/?)>|([^<]+)/g;
+
+  for (const match of xml.matchAll(pattern)) {
+    const [, cdata, closing, name, attributeText, selfClosing, text] = match;
+
+    if (cdata !== undefined) {
+      yield { type: 'text', text: cdata };
+    } else if (text !== undefined) {
+      yield { type: 'text', text: decodeXmlEntities(text) };
+    } else if (name && closing) {
+      yield { type: 'close', name };
+    } else if (name) {
+      const attributes: Record<string, string> = {};
+      for (const [, key, , value] of (attributeText || '').matchAll(/([^\s=]+)\s*=\s*(["'])(.*?)\2/g)) {
+        attributes[key] = decodeXmlEntities(value);
+      }
+      yield { type: 'open', name, attributes, selfClosing: selfClosing === '/' };
+    }
+  }
+}
+
+// Element names without their namespace prefix, like DOM's localName
+function localName(name: string): string {
+  return name.slice(name.indexOf(':') + 1);
+}
+
+function readXmlEntry(data: ArrayBuffer, entry: string): string {
+  const files = unzipSync(new Uint8Array(data), { filter: (file) => file.name === entry });
+  if (!files[entry]) {
+    throw new Error(`Missing ${entry} in archive`);
+  }
+  return strFromU8(files[entry]);
+}
+
+function extractDocx(data: ArrayBuffer): ExtractedText {
+  const xml = readXmlEntry(data, 'word/document.xml');
+  const pages: string[] = [''];
+  let textDepth = 0;
+
+  for (const event of readXmlEvents(xml)) {
+    if (event.type === 'text') {
+      if (textDepth > 0) pages[pages.length - 1] += event.text;
+      continue;
+    }
+
+    const name = localName(event.name);
+
+    if (event.type === 'close') {
+      if (name === 't') textDepth--;
+      if (name === 'p') pages[pages.length - 1] += '\n';
+      continue;
+    }
+
+    switch (name) {
+      case 't':
+        if (!event.selfClosing) textDepth++;
+        break;
+      case 'tab':
+        pages[pages.length - 1] += '\t';
+        break;
+      case 'br':
+        if (event.attributes['w:type'] === 'page') {
+          pages.push('');
+        } else {
+          pages[pages.length - 1] += '\n';
+        }
+        break;
+      case 'lastRenderedPageBreak':
+        pages.push('');
+        break;
+      case 'p':
+        if (event.selfClosing) pages[pages.length - 1] += '\n';
+        break;
+    }
+  }
+
+  return joinPages(pages);
+}
+
+function extractOdt(data: ArrayBuffer): ExtractedText {
+  const xml = readXmlEntry(data, 'content.xml');
+  const pages: string[] = [''];
+  let inBody = false;
+
+  for (const event of readXmlEvents(xml)) {
+    if (event.type === 'open' && event.name === 'office:text') {
+      inBody = !event.selfClosing;
+      continue;
+    }
+    if (event.type === 'close' && event.name === 'office:text') {
+      inBody = false;
+      continue;
+    }
+    if (!inBody) continue;
+
+    if (event.type === 'text') {
+      pages[pages.length - 1] += event.text;
+      continue;
+    }
+
+    const name = localName(event.name);
+
+    if (event.type === 'close') {
+      if (name === 'p' || name === 'h') pages[pages.length - 1] += '\n';
+      continue;
+    }
+
+    switch (name) {
+      case 's':
+        pages[pages.length - 1] += ' '.repeat(parseInt(event.attributes['text:c'] || '1'));
+        break;
+      case 'tab':
+        pages[pages.length - 1] += '\t';
+        break;
+      case 'line-break':
+        pages[pages.length - 1] += '\n';
+        break;
+      case 'soft-page-break':
+        pages.push('');
+        break;
+      case 'p':
+      case 'h':
+        if (event.selfClosing) pages[pages.length - 1] += '\n';
+        break;
+    }
+  }
+
+  return joinPages(pages);
+}
+
+/**
+ * Pulls plain text out of an uploaded file. Returns null for file types we
+ * cannot read (archives, images), so callers can mark them as unsupported.
+ */
+export async function extractText(fileName: string, data: Blob): Promise<ExtractedText | null> {
+  switch (getFileExtension(fileName)) {
+    case 'pdf':
+      return extractPdf(await data.arrayBuffer());
+    case 'docx':
+      return extractDocx(await data.arrayBuffer());
+    case 'odt':
+      return extractOdt(await data.arrayBuffer());
+    case 'txt':
+      return joinPages([await data.text()]);
+    case 'js':
+    case 'ts':
+    case 'py':
+    case 'java':
+    case 'c':
+    case 'h':
+      // Kept verbatim so line numbers in code match reports line up with the file
+      return { text: await data.text(), pageOffsets: [0] };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Extracts text for every not-yet-processed file attached to the given
+ * submissions and stores the result on the file row.
+ */
+export async function extractPendingFiles(client: SupabaseClient<Database>, submissionIds: string[]) {
+  if (submissionIds.length === 0) return;
+
+  const { data: pendingFiles } = await client
+    .from('submission_files')
+    .select('id, file_name, storage_path')
+    .in('submission_id', submissionIds)
+    .eq('extraction_status', 'pending');
+
+  for (const file of pendingFiles || []) {
+    const { data: blob } = await client.storage
+      .from(SUBMISSION_FILES_BUCKET)
+      .download(file.storage_path);
+
+    let extracted: ExtractedText | null = null;
+    let status: 'extracted' | 'unsupported' | 'failed' = 'failed';
+
+    if (blob) {
+      try {
+        extracted = await extractText(file.file_name, blob);
+        status = extracted ? 'extracted' : 'unsupported';
+      } catch {
+        status = 'failed';
+      }
+    }
+
+    await client
+      .from('submission_files')
+      .update({
+        extracted_text: extracted?.text ?? null,
+        page_offsets: extracted?.pageOffsets ?? [0],
+        extraction_status: status,
+        extracted_at: new Date().toISOString(),
+      })
+      .eq('id', file.id);
+  }
+}
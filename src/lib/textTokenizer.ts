@@ -0,0 +1,202 @@
+/**
+ * Language-aware tokenizers for prose checks. Every language shares the
+ * Unicode word splitting and NFKC normalization of `tokenize`; a language can
+ * add spelling folds (Arabic letter variants, German ß, Russian ё), a
+ * stop-word list and a light suffix-stripping stemmer. Stop words and stems
+ * make matches survive swapped function words and changed inflections, at the
+ * cost of some precision, so both are opt-in per assignment.
+ */
+import { tokenize, type Token, type Tokenizer } from './fingerprint';
+
+export type TextLanguage = 'auto' | 'en' | 'es' | 'fr' | 'de' | 'pt' | 'ru' | 'ar' | 'bn';
+
+export const TEXT_LANGUAGE_OPTIONS: { value: TextLanguage; label: string }[] = [
+  { value: 'auto', label: 'Any language' },
+  { value: 'en', label: 'English' },
+  { value: 'es', label: 'Spanish' },
+  { value: 'fr', label: 'French' },
+  { value: 'de', label: 'German' },
+  { value: 'pt', label: 'Portuguese' },
+  { value: 'ru', label: 'Russian' },
+  { value: 'ar', label: 'Arabic' },
+  { value: 'bn', label: 'Bengali' },
+];
+
+export type TextNormalizationOptions = {
+  stopWords?: boolean;
+  stemming?: boolean;
+};
+
+type LanguageSpec = {
+  fold?: (word: string) => string;
+  stopWords: string[];
+  /** Sorted longest first before use, so the longest matching ending is stripped. */
+  suffixes: string[];
+  prefixes?: string[];
+  /** Shortest stem, in characters, a word may be cut down to. */
+  minStem: number;
+};
+
+const LANGUAGES: Record<Exclude<TextLanguage, 'auto'>, LanguageSpec> = {
+  en: {
+    stopWords: [
+      'a', 'an', 'the', 'and', 'or', 'but', 'if', 'then', 'of', 'to', 'in', 'on', 'at', 'by', 'for',
+      'with', 'from', 'as', 'is', 'are', 'was', 'were', 'be', 'been', 'being', 'it', 'its', 'this',
+      'that', 'these', 'those', 'there', 'their', 'they', 'he', 'she', 'we', 'you', 'i', 'not', 'no',
+      'so', 'do', 'does', 'did', 'has', 'have', 'had', 'which', 'who', 'what', 'will', 'would', 'can',
+      'could', 'also', 'than', 'into', 'about',
+    ],
+    suffixes: [
+      'ations', 'ation', 'ments', 'ment', 'nesses', 'ness', 'ingly', 'edly', 'ings', 'ing', 'ies',
+      'ied', 'ers', 'er', 'ed', 'es', 'ly', 's',
+    ],
+    minStem: 3,
+  },
+  es: {
+    stopWords: [
+      'el', 'la', 'los', 'las', 'un', 'una', 'unos', 'unas', 'y', 'o', 'pero', 'de', 'del', 'a', 'al',
+      'en', 'con', 'por', 'para', 'que', 'se', 'es', 'son', 'fue', 'era', 'su', 'sus', 'lo', 'le',
+      'les', 'como', 'más', 'mas', 'no', 'sí', 'si', 'ya', 'este', 'esta', 'estos', 'estas', 'ese',
+      'esa', 'también', 'muy', 'sin', 'sobre', 'entre', 'cuando', 'donde', 'porque', 'hay', 'ha', 'han',
+    ],
+    suffixes: [
+      'amientos', 'imientos', 'amiento', 'imiento', 'aciones', 'ación', 'adoras', 'adores', 'adora',
+      'ador', 'mente', 'ancias', 'ancia', 'idades', 'idad', 'ismos', 'ismo', 'istas', 'ista', 'ables',
+      'able', 'ibles', 'ible', 'osos', 'osas', 'oso', 'osa', 'ando', 'iendo', 'ados', 'adas', 'ado',
+      'ada', 'idos', 'idas', 'ido', 'ida', 'ieron', 'aron', 'aban', 'aba', 'ían', 'ía', 'ar', 'er', 'ir',
+      'es', 'as', 'os', 'a', 'o', 'e', 's',
+    ],
+    minStem: 3,
+  },
+  fr: {
+    stopWords: [
+      'le', 'la', 'les', 'un', 'une', 'des', 'du', 'de', 'et', 'ou', 'mais', 'à', 'au', 'aux', 'en',
+      'dans', 'par', 'pour', 'sur', 'avec', 'sans', 'que', 'qui', 'ne', 'pas', 'plus', 'se', 'ce',
+      'cette', 'ces', 'son', 'sa', 'ses', 'leur', 'leurs', 'il', 'elle', 'ils', 'elles', 'nous', 'vous',
+      'on', 'est', 'sont', 'était', 'a', 'ont', 'été', 'être', 'comme', 'si', 'aussi', 'très',
+      // Elided articles and pronouns (l'homme, d'abord, qu'il) split off as their own words
+      'l', 'd', 'qu', 'n', 's', 'c', 'j',
+    ],
+    suffixes: [
+      'issements', 'issement', 'atrices', 'ateurs', 'ations', 'ation', 'atrice', 'ateur', 'ements',
+      'ement', 'ités', 'ité', 'ismes', 'isme', 'istes', 'iste', 'ables', 'able', 'euses', 'euse', 'eux',
+      'ives', 'ive', 'ifs', 'if', 'aient', 'ais', 'ait', 'antes', 'ants', 'ante', 'ant', 'ées', 'ée',
+      'és', 'er', 'ez', 'es', 'e', 's', 'x',
+    ],
+    minStem: 3,
+  },
+  de: {
+    fold: word => word.replace(/ß/g, 'ss'),
+    stopWords: [
+      'der', 'die', 'das', 'den', 'dem', 'des', 'ein', 'eine', 'einer', 'eines', 'einem', 'einen', 'und',
+      'oder', 'aber', 'in', 'im', 'an', 'am', 'auf', 'aus', 'bei', 'mit', 'nach', 'von', 'vom', 'zu',
+      'zum', 'zur', 'für', 'über', 'unter', 'ist', 'sind', 'war', 'waren', 'wird', 'werden', 'hat',
+      'haben', 'nicht', 'kein', 'keine', 'auch', 'als', 'wie', 'so', 'es', 'er', 'sie', 'wir', 'ihr',
+      'ich', 'du', 'sich', 'dass', 'noch', 'nur', 'sehr',
+    ],
+    suffixes: [
+      'ungen', 'ung', 'heiten', 'heit', 'keiten', 'keit', 'lichen', 'licher', 'liches', 'lich',
+      'ischen', 'ische', 'isch', 'ern', 'em', 'en', 'er', 'es', 'e', 's', 'n',
+    ],
+    minStem: 4,
+  },
+  pt: {
+    stopWords: [
+      'o', 'a', 'os', 'as', 'um', 'uma', 'uns', 'umas', 'e', 'ou', 'mas', 'de', 'do', 'da', 'dos', 'das',
+      'em', 'no', 'na', 'nos', 'nas', 'por', 'para', 'com', 'sem', 'que', 'se', 'é', 'são', 'foi', 'era',
+      'seu', 'sua', 'seus', 'suas', 'como', 'mais', 'não', 'sim', 'já', 'este', 'esta', 'estes', 'estas',
+      'esse', 'essa', 'também', 'muito', 'sobre', 'entre', 'quando', 'onde', 'porque', 'há', 'ao', 'aos',
+      'pelo', 'pela',
+    ],
+    suffixes: [
+      'amentos', 'imentos', 'amento', 'imento', 'ações', 'ação', 'adoras', 'adores', 'adora', 'ador',
+      'mente', 'ências', 'ência', 'idades', 'idade', 'ismos', 'ismo', 'istas', 'ista', 'áveis', 'ável',
+      'íveis', 'ível', 'osos', 'osas', 'oso', 'osa', 'ando', 'endo', 'indo', 'ados', 'adas', 'ado', 'ada',
+      'idos', 'idas', 'ido', 'ida', 'aram', 'eram', 'iram', 'avam', 'ava', 'ar', 'er', 'ir', 'es', 'as',
+      'os', 'a', 'o', 'e', 's',
+    ],
+    minStem: 3,
+  },
+  ru: {
+    fold: word => word.replace(/ё/g, 'е'),
+    stopWords: [
+      'и', 'в', 'во', 'не', 'что', 'он', 'на', 'я', 'с', 'со', 'как', 'а', 'то', 'все', 'она', 'так',
+      'его', 'но', 'да', 'ты', 'к', 'у', 'же', 'вы', 'за', 'бы', 'по', 'только', 'ее', 'мне', 'было',
+      'вот', 'от', 'меня', 'еще', 'нет', 'о', 'из', 'ему', 'когда', 'даже', 'ли', 'если', 'уже', 'или',
+      'ни', 'быть', 'был', 'него', 'до', 'вас', 'они', 'мы', 'это', 'этот', 'эта', 'эти',
+    ],
+    suffixes: [
+      'иями', 'ями', 'ами', 'ого', 'его', 'ому', 'ему', 'ыми', 'ими', 'ться', 'ой', 'ей', 'ий', 'ый',
+      'ая', 'яя', 'ое', 'ее', 'ые', 'ие', 'ов', 'ев', 'ах', 'ях', 'ом', 'ем', 'ам', 'ям', 'ть', 'ет',
+      'ут', 'ют', 'ит', 'ат', 'ят', 'ла', 'ло', 'ли', 'л', 'а', 'я', 'о', 'е', 'ы', 'и', 'у', 'ю', 'ь', 'й',
+    ],
+    minStem: 3,
+  },
+  ar: {
+    // Short vowels and tatweel are written inconsistently; alef, yeh and teh marbuta variants are folded
+    fold: word => word
+      .replace(/[\u064B-\u065F\u0670\u0640]/g, '')
+      .replace(/[أإآ]/g, 'ا')
+      .replace(/ى/g, 'ي')
+      .replace(/ة/g, 'ه'),
+    stopWords: [
+      'في', 'من', 'على', 'إلى', 'عن', 'مع', 'هذا', 'هذه', 'ذلك', 'التي', 'الذي', 'هو', 'هي', 'هم', 'أن',
+      'إن', 'كان', 'كانت', 'لا', 'ما', 'لم', 'لن', 'قد', 'ثم', 'أو', 'و', 'كل', 'بين', 'عند', 'حتى',
+      'إذا', 'غير', 'بعد', 'قبل',
+    ],
+    prefixes: ['وال', 'بال', 'كال', 'فال', 'لل', 'ال', 'و'],
+    suffixes: ['ها', 'ان', 'ات', 'ون', 'ين', 'يه', 'ه', 'ي'],
+    minStem: 3,
+  },
+  bn: {
+    stopWords: [
+      'এবং', 'ও', 'এই', 'সেই', 'যে', 'না', 'কি', 'করে', 'হয়', 'একটি', 'তার', 'তিনি', 'আমি', 'আমরা',
+      'তুমি', 'আপনি', 'থেকে', 'জন্য', 'দিয়ে', 'সঙ্গে', 'সাথে', 'কিন্তু', 'বা', 'যদি', 'তবে', 'এর',
+      'এ', 'সে', 'তা', 'এটি', 'ছিল', 'হবে', 'আর', 'মধ্যে', 'পর', 'নিয়ে',
+    ],
+    suffixes: [
+      'গুলোর', 'গুলির', 'গুলো', 'গুলি', 'দের', 'েরা', 'রা', 'টির', 'টার', 'টি', 'টা', 'কে', 'তে',
+      'য়ের', 'ের', 'ে', 'র',
+    ],
+    minStem: 2,
+  },
+};
+
+// Stop words are compared after the same normalization as the text itself
+function normalizeWord(word: string, spec: LanguageSpec): string {
+  const value = tokenize(word).map(token => token.value).join('');
+  return spec.fold ? spec.fold(value) : value;
+}
+
+function stripAffixes(word: string, spec: LanguageSpec, prefixes: string[], suffixes: string[]): string {
+  let stem = word;
+
+  const prefix = prefixes.find(p => stem.startsWith(p) && stem.length - p.length >= spec.minStem);
+  if (prefix) stem = stem.slice(prefix.length);
+
+  const suffix = suffixes.find(s => stem.endsWith(s) && stem.length - s.length >= spec.minStem);
+  if (suffix) stem = stem.slice(0, -suffix.length);
+
+  return stem;
+}
+
+export function textTokenizer(language: TextLanguage, options: TextNormalizationOptions = {}): Tokenizer {
+  if (language === 'auto') {
+    return { key: 'text:auto', tokenize };
+  }
+
+  const spec = LANGUAGES[language];
+  const stopWords = options.stopWords ? new Set(spec.stopWords.map(word => normalizeWord(word, spec))) : null;
+  const byLength = (a: string, b: string) => b.length - a.length;
+  const prefixes = (spec.prefixes || []).map(p => normalizeWord(p, spec)).sort(byLength);
+  const suffixes = spec.suffixes.map(s => normalizeWord(s, spec)).sort(byLength);
+
+  return {
+    key: [`text:${language}`, options.stopWords && 'stop', options.stemming && 'stem'].filter(Boolean).join('+'),
+    tokenize: text => tokenize(text).flatMap((token): Token[] => {
+      const value = spec.fold ? spec.fold(token.value) : token.value;
+      if (!value || stopWords?.has(value)) return [];
+      return [{ ...token, value: options.stemming ? stripAffixes(value, spec, prefixes, suffixes) : value }];
+    }),
+  };
+}
@@ -1,8 +1,12 @@
 import { StrictMode } from 'react';
 import { createRoot } from 'react-dom/client';
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
 import App from './App.tsx';
+import { configurePdfWorker } from './lib/textExtraction';
 import './index.css';
 
+configurePdfWorker(pdfWorkerUrl);
+
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
     <App />
@@ -1,8 +1,25 @@
 import { useEffect, useState } from 'react';
 import { useAuth } from '../contexts/AuthContext';
 import { supabase } from '../lib/supabase';
-import { BookOpen, Clock, CheckCircle, AlertCircle, FileText } from 'lucide-react';
+import { BookOpen, Clock, CheckCircle, FileText, History, LogIn, Paperclip, X } from 'lucide-react';
 import type { Database } from '../lib/database.types';
+import { clearJoinCodeFromUrl, readJoinCodeFromUrl } from '../lib/invites';
+import {
+  deleteSubmissionFile,
+  formatFileSize,
+  getSubmissionFiles,
+  uploadSubmissionFile,
+  validateSubmissionFiles,
+  type SubmissionFile,
+} from '../lib/submissionFiles';
+import { SubmissionFileList } from '../components/SubmissionFileList';
+import { RubricGrid } from '../components/RubricGrid';
+import { getAssessment, type RubricAssessment } from '../lib/rubrics';
+import { AnnotatedText } from '../components/AnnotatedText';
+import { getAnnotations, type Annotation } from '../lib/annotations';
+import { assessLateness, closesAt, describeLatePolicy, finalScore, formatLateness } from '../lib/latePolicy';
+import { effectiveDueDate, getStudentDeadlines, type Accommodation, type DeadlineExtension } from '../lib/deadlines';
+import { getVersions, wordCount, type SubmissionVersion } from '../lib/submissionVersions';
 
 type Assignment = Database['public']['Tables']['assignments']['Row'] & {
   courses: { title: string };
@@ -14,8 +31,11 @@ export function StudentDashboard() {
   const { profile } = useAuth();
   const [assignments, setAssignments] = useState<Assignment[]>([]);
   const [submissions, setSubmissions] = useState<Submission[]>([]);
+  const [extensions, setExtensions] = useState<DeadlineExtension[]>([]);
+  const [accommodations, setAccommodations] = useState<Accommodation[]>([]);
   const [loading, setLoading] = useState(true);
   const [selectedAssignment, setSelectedAssignment] = useState<Assignment | null>(null);
+  const [joinCode, setJoinCode] = useState<string | null>(readJoinCodeFromUrl);
 
   useEffect(() => {
     loadData();
@@ -24,22 +44,33 @@ export function StudentDashboard() {
   const loadData = async () => {
     if (!profile) return;
 
-    const [assignmentsResult, submissionsResult] = await Promise.all([
+    const { data: enrollments } = await supabase
+      .from('enrollments')
+      .select('course_id')
+      .eq('student_id', profile.id);
+
+    const courseIds = (enrollments || []).map(e => e.course_id);
+
+    const [assignmentsResult, submissionsResult, deadlines] = await Promise.all([
       supabase
         .from('assignments')
         .select(`
           *,
           courses (title)
         `)
+        .in('course_id', courseIds)
         .order('due_date', { ascending: true }),
       supabase
         .from('submissions')
         .select('*')
-        .eq('student_id', profile.id)
+        .eq('student_id', profile.id),
+      getStudentDeadlines(profile.id),
     ]);
 
     if (assignmentsResult.data) setAssignments(assignmentsResult.data);
     if (submissionsResult.data) setSubmissions(submissionsResult.data);
+    setExtensions(deadlines.extensions);
+    setAccommodations(deadlines.accommodations);
 
     setLoading(false);
   };
@@ -48,6 +79,15 @@ export function StudentDashboard() {
     return submissions.find(s => s.assignment_id === assignmentId);
   };
 
+  // The due date after this student's extension or course accommodation
+  const getDueDate = (assignment: Assignment) => {
+    return effectiveDueDate(
+      assignment.due_date,
+      extensions.find(e => e.assignment_id === assignment.id),
+      accommodations.find(a => a.course_id === assignment.course_id)
+    );
+  };
+
   const isOverdue = (dueDate: string) => {
     return new Date(dueDate) < new Date();
   };
@@ -82,9 +122,18 @@ export function StudentDashboard() {
 
   return (
     <div className="max-w-7xl mx-auto px-4 py-8">
-      <div className="mb-8">
-        <h1 className="text-3xl font-bold text-gray-900 mb-2">Student Dashboard</h1>
-        <p className="text-gray-600">Track your assignments and submissions</p>
+      <div className="mb-8 flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Student Dashboard</h1>
+          <p className="text-gray-600">Track your assignments and submissions</p>
+        </div>
+        <button
+          onClick={() => setJoinCode('')}
+          className="flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors"
+        >
+          <LogIn className="w-4 h-4" />
+          Join Course
+        </button>
       </div>
 
       <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-8">
@@ -132,12 +181,16 @@ export function StudentDashboard() {
         </div>
         <div className="p-6">
           {assignments.length === 0 ? (
-            <p className="text-gray-500 text-center py-8">No assignments available yet.</p>
+            <p className="text-gray-500 text-center py-8">
+              No assignments available yet. Assignments appear here once you are enrolled in a course.
+            </p>
           ) : (
             <div className="space-y-4">
               {assignments.map((assignment) => {
                 const submission = getSubmissionForAssignment(assignment.id);
-                const overdue = isOverdue(assignment.due_date);
+                const dueDate = getDueDate(assignment);
+                const overdue = isOverdue(dueDate);
+                const closed = assessLateness({ ...assignment, due_date: dueDate }).closed;
                 const isSubmitted = submission && (submission.status === 'submitted' || submission.status === 'graded');
 
                 return (
@@ -153,18 +206,26 @@ export function StudentDashboard() {
                           <h3 className="font-semibold text-gray-900">{assignment.title}</h3>
                           {overdue && !isSubmitted && (
                             <span className="px-2 py-1 bg-red-100 text-red-700 text-xs rounded-full font-medium">
-                              OVERDUE
+                              {closed ? 'CLOSED' : 'OVERDUE'}
+                            </span>
+                          )}
+                          {submission?.is_late && isSubmitted && (
+                            <span className="px-2 py-1 bg-amber-100 text-amber-700 text-xs rounded-full font-medium">
+                              LATE
                             </span>
                           )}
                         </div>
                         <p className="text-sm text-gray-600 mb-2">{assignment.courses.title}</p>
                         <p className="text-sm text-gray-700 mb-3">{assignment.description}</p>
                         <div className="flex items-center gap-4 text-sm text-gray-500">
-                          <span>Due: {new Date(assignment.due_date).toLocaleString()}</span>
+                          <span>
+                            Due: {new Date(dueDate).toLocaleString()}
+                            {dueDate !== new Date(assignment.due_date).toISOString() && ' (extended)'}
+                          </span>
                           <span>Max Score: {assignment.max_score}</span>
-                          {submission && submission.status === 'graded' && (
+                          {submission && submission.status === 'graded' && submission.score !== null && (
                             <span className="text-green-600 font-medium">
-                              Score: {submission.score}/{assignment.max_score}
+                              Score: {finalScore(submission.score, submission.late_penalty_percent)}/{assignment.max_score}
                             </span>
                           )}
                         </div>
@@ -209,6 +270,7 @@ export function StudentDashboard() {
       {selectedAssignment && (
         <SubmissionModal
           assignment={selectedAssignment}
+          dueDate={getDueDate(selectedAssignment)}
           existingSubmission={getSubmissionForAssignment(selectedAssignment.id)}
           onClose={() => setSelectedAssignment(null)}
           onSuccess={() => {
@@ -217,17 +279,34 @@ export function StudentDashboard() {
           }}
         />
       )}
+
+      {joinCode !== null && (
+        <JoinCourseModal
+          initialCode={joinCode}
+          onClose={() => {
+            clearJoinCodeFromUrl();
+            setJoinCode(null);
+          }}
+          onSuccess={() => {
+            clearJoinCodeFromUrl();
+            setJoinCode(null);
+            loadData();
+          }}
+        />
+      )}
     </div>
   );
 }
 
 function SubmissionModal({
   assignment,
+  dueDate,
   existingSubmission,
   onClose,
   onSuccess
 }: {
   assignment: Assignment;
+  dueDate: string;
   existingSubmission?: Submission;
   onClose: () => void;
   onSuccess: () => void;
@@ -236,32 +315,103 @@ function SubmissionModal({
   const [content, setContent] = useState(existingSubmission?.content || '');
   const [loading, setLoading] = useState(false);
   const [saveType, setSaveType] = useState<'draft' | 'submit'>('draft');
+  const [files, setFiles] = useState<SubmissionFile[]>([]);
+  const [pendingFiles, setPendingFiles] = useState<File[]>([]);
+  const [fileError, setFileError] = useState('');
+  const [error, setError] = useState('');
+  const [assessment, setAssessment] = useState<RubricAssessment | null>(null);
+  const [annotations, setAnnotations] = useState<Annotation[]>([]);
+  const [activeAnnotation, setActiveAnnotation] = useState<string | null>(null);
+  const [versions, setVersions] = useState<SubmissionVersion[]>([]);
+  const [showHistory, setShowHistory] = useState(false);
+  const [previewVersion, setPreviewVersion] = useState<SubmissionVersion | null>(null);
+  const [restoredVersion, setRestoredVersion] = useState<number | null>(null);
 
   const isGraded = existingSubmission?.status === 'graded';
+  const deadline = { ...assignment, due_date: dueDate };
+  const lateness = assessLateness(deadline);
+  const closeTime = closesAt(deadline);
+  const extended = dueDate !== new Date(assignment.due_date).toISOString();
+
+  useEffect(() => {
+    if (existingSubmission) {
+      getSubmissionFiles(existingSubmission.id).then(setFiles);
+      getVersions(existingSubmission.id).then(setVersions);
+    }
+    if (existingSubmission?.status === 'graded') {
+      getAssessment(existingSubmission.id).then(setAssessment);
+      getAnnotations(existingSubmission.id).then(setAnnotations);
+    }
+  }, [existingSubmission]);
+
+  // Restoring only fills the editor; saving it adds a new version, so no version is ever lost
+  const restoreVersion = (version: SubmissionVersion) => {
+    setContent(version.content);
+    setRestoredVersion(version.version_number);
+    setPreviewVersion(null);
+    setShowHistory(false);
+  };
+
+  const addPendingFiles = (selected: FileList | null) => {
+    if (!selected) return;
+
+    const next = [...pendingFiles, ...Array.from(selected)];
+    const error = validateSubmissionFiles(next, assignment, files.length);
+    setFileError(error || '');
+    if (!error) setPendingFiles(next);
+  };
+
+  const removeFile = async (file: SubmissionFile) => {
+    if (!confirm(`Remove ${file.file_name}?`)) return;
+
+    await deleteSubmissionFile(file);
+    setFiles(files.filter(f => f.id !== file.id));
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!profile) return;
 
     setLoading(true);
+    setFileError('');
+    setError('');
 
     const submissionData = {
       assignment_id: assignment.id,
       student_id: profile.id,
       content,
-      status: saveType === 'submit' ? 'submitted' : 'draft',
+      status: saveType === 'submit' ? 'submitted' as const : 'draft' as const,
       submitted_at: saveType === 'submit' ? new Date().toISOString() : null,
     };
 
-    if (existingSubmission) {
-      await supabase
-        .from('submissions')
-        .update(submissionData)
-        .eq('id', existingSubmission.id);
-    } else {
-      await supabase
-        .from('submissions')
-        .insert(submissionData);
+    const { data: savedSubmission, error: saveError } = existingSubmission
+      ? await supabase
+          .from('submissions')
+          .update(submissionData)
+          .eq('id', existingSubmission.id)
+          .select()
+          .single()
+      : await supabase
+          .from('submissions')
+          .insert(submissionData)
+          .select()
+          .single();
+
+    if (saveError) {
+      setError(saveError.message);
+      setLoading(false);
+      return;
+    }
+
+    if (savedSubmission) {
+      for (const file of pendingFiles) {
+        const { error } = await uploadSubmissionFile(savedSubmission, file);
+        if (error) {
+          setFileError(`${file.name}: ${error}`);
+          setLoading(false);
+          return;
+        }
+      }
     }
 
     setLoading(false);
@@ -291,31 +441,82 @@ function SubmissionModal({
             <h3 className="font-semibold text-gray-900 mb-2">Instructions</h3>
             <p className="text-gray-700">{assignment.description}</p>
             <div className="mt-2 flex items-center gap-4 text-sm text-gray-600">
-              <span>Due: {new Date(assignment.due_date).toLocaleString()}</span>
+              <span>
+                Due: {new Date(dueDate).toLocaleString()}
+                {extended && ` (extended from ${new Date(assignment.due_date).toLocaleString()})`}
+              </span>
               <span>Max Score: {assignment.max_score}</span>
             </div>
+            <p className="mt-1 text-sm text-gray-600">{describeLatePolicy(deadline)}</p>
           </div>
 
+          {existingSubmission?.is_late && existingSubmission.status !== 'draft' && (
+            <div className="mb-6 flex items-center gap-2 p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800">
+              <Clock className="w-4 h-4 flex-shrink-0" />
+              Turned in {formatLateness(existingSubmission.late_minutes)} after the due date
+              {existingSubmission.late_penalty_percent > 0 && `, with a ${existingSubmission.late_penalty_percent}% late penalty`}
+            </div>
+          )}
+
+          {!isGraded && lateness.lateMinutes > 0 && (
+            <div className={`mb-6 p-3 rounded-lg text-sm border ${
+              lateness.closed ? 'bg-red-50 border-red-200 text-red-700' : 'bg-amber-50 border-amber-200 text-amber-800'
+            }`}>
+              {lateness.closed
+                ? `This assignment closed${closeTime ? ` on ${closeTime.toLocaleString()}` : ''} and no longer accepts work. You can still save a draft.`
+                : `The due date has passed. Work turned in now is ${formatLateness(lateness.lateMinutes)} late${
+                    lateness.penaltyPercent > 0 ? ` and loses ${lateness.penaltyPercent}% of its score` : ''
+                  }${closeTime ? `; the assignment closes on ${closeTime.toLocaleString()}` : ''}.`}
+            </div>
+          )}
+
           {isGraded && existingSubmission && (
             <div className="mb-6 p-4 bg-green-50 border border-green-200 rounded-lg">
               <h3 className="font-semibold text-green-900 mb-2">
-                Grade: {existingSubmission.score}/{assignment.max_score}
+                Grade: {finalScore(existingSubmission.score ?? 0, existingSubmission.late_penalty_percent)}/{assignment.max_score}
               </h3>
+              {existingSubmission.late_penalty_percent > 0 && (
+                <p className="text-sm text-green-800 mb-2">
+                  {existingSubmission.score}/{assignment.max_score} less the {existingSubmission.late_penalty_percent}% late penalty
+                </p>
+              )}
               {existingSubmission.feedback && (
                 <div>
                   <p className="text-sm font-medium text-green-900 mb-1">Teacher Feedback:</p>
                   <p className="text-sm text-green-800">{existingSubmission.feedback}</p>
                 </div>
               )}
+              {assessment && (
+                <div className="mt-4 bg-white rounded-lg p-4">
+                  <p className="text-sm font-medium text-green-900 mb-2">Rubric:</p>
+                  <RubricGrid criteria={assessment.criteria} scores={assessment.scores} />
+                </div>
+              )}
             </div>
           )}
 
           {isGraded ? (
             <div>
               <h3 className="font-semibold text-gray-900 mb-2">Your Submission</h3>
-              <div className="bg-gray-50 p-4 rounded-lg">
-                <p className="text-gray-700 whitespace-pre-wrap">{content}</p>
-              </div>
+              {annotations.length > 0 ? (
+                <AnnotatedText
+                  content={content}
+                  annotations={annotations}
+                  activeId={activeAnnotation}
+                  onActivate={setActiveAnnotation}
+                  monospace={assignment.check_mode === 'code'}
+                />
+              ) : (
+                <div className="bg-gray-50 p-4 rounded-lg">
+                  <p className="text-gray-700 whitespace-pre-wrap">{content}</p>
+                </div>
+              )}
+              {files.length > 0 && (
+                <div className="mt-4">
+                  <h3 className="font-semibold text-gray-900 mb-2">Attached Files</h3>
+                  <SubmissionFileList files={files} />
+                </div>
+              )}
             </div>
           ) : (
             <form onSubmit={handleSubmit} className="space-y-4">
@@ -326,13 +527,125 @@ function SubmissionModal({
                 <textarea
                   value={content}
                   onChange={(e) => setContent(e.target.value)}
-                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  className={`w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
+                    assignment.check_mode === 'code' ? 'font-mono text-sm' : ''
+                  }`}
                   rows={15}
-                  placeholder="Type your assignment submission here..."
-                  required
+                  placeholder={assignment.check_mode === 'code' ? 'Paste your source code here...' : 'Type your assignment submission here...'}
+                  required={files.length === 0 && pendingFiles.length === 0}
                 />
+                {restoredVersion !== null && (
+                  <p className="text-sm text-green-700 mt-1">
+                    Version {restoredVersion} is back in the editor. Save it to keep it.
+                  </p>
+                )}
               </div>
 
+              {versions.length > 0 && (
+                <div>
+                  <button
+                    type="button"
+                    onClick={() => setShowHistory(!showHistory)}
+                    className="flex items-center gap-2 text-sm text-blue-600 hover:text-blue-700 font-medium"
+                  >
+                    <History className="w-4 h-4" />
+                    Version history ({versions.length})
+                  </button>
+                  {showHistory && (
+                    <div className="mt-2 border border-gray-200 rounded-lg divide-y divide-gray-200">
+                      {[...versions].reverse().map((version) => (
+                        <div key={version.id} className="px-4 py-2">
+                          <div className="flex items-center justify-between text-sm">
+                            <span className="text-gray-900">
+                              Version {version.version_number}
+                              <span className="ml-2 text-xs text-gray-500">
+                                {version.status === 'submitted' ? 'Submitted' : 'Draft'} · {new Date(version.created_at).toLocaleString()}
+                                {' · '}{wordCount(version.content)} words
+                              </span>
+                            </span>
+                            <div className="flex gap-3">
+                              <button
+                                type="button"
+                                onClick={() => setPreviewVersion(previewVersion?.id === version.id ? null : version)}
+                                className="text-blue-600 hover:text-blue-700 font-medium"
+                              >
+                                {previewVersion?.id === version.id ? 'Hide' : 'View'}
+                              </button>
+                              <button
+                                type="button"
+                                onClick={() => restoreVersion(version)}
+                                className="text-blue-600 hover:text-blue-700 font-medium disabled:text-gray-400"
+                                disabled={version.content === content}
+                              >
+                                Restore
+                              </button>
+                            </div>
+                          </div>
+                          {previewVersion?.id === version.id && (
+                            <p className={`mt-2 bg-gray-50 p-3 rounded-lg text-sm text-gray-700 whitespace-pre-wrap max-h-60 overflow-y-auto ${
+                              assignment.check_mode === 'code' ? 'font-mono' : ''
+                            }`}>
+                              {version.content || 'No text in this version.'}
+                            </p>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {assignment.max_files > 0 && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Attachments
+                  </label>
+                  <p className="text-xs text-gray-500 mb-2">
+                    Up to {assignment.max_files} file(s), {assignment.max_file_size_mb} MB each.
+                    Accepted: {assignment.allowed_file_types.join(', ')}
+                  </p>
+                  <div className="space-y-2">
+                    <SubmissionFileList files={files} onRemove={removeFile} />
+                    {pendingFiles.map((file, index) => (
+                      <div key={index} className="flex items-center justify-between p-3 border border-dashed border-gray-300 rounded-lg">
+                        <div className="flex items-center gap-2 min-w-0">
+                          <Paperclip className="w-4 h-4 text-gray-500 flex-shrink-0" />
+                          <span className="text-sm text-gray-900 truncate">{file.name}</span>
+                          <span className="text-xs text-gray-500 flex-shrink-0">{formatFileSize(file.size)} · not uploaded yet</span>
+                        </div>
+                        <button
+                          type="button"
+                          onClick={() => setPendingFiles(pendingFiles.filter((_, i) => i !== index))}
+                          className="p-2 text-gray-500 hover:bg-gray-100 rounded-lg transition-colors"
+                          title="Remove"
+                        >
+                          <X className="w-4 h-4" />
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                  {files.length + pendingFiles.length < assignment.max_files && (
+                    <input
+                      type="file"
+                      multiple
+                      accept={assignment.allowed_file_types.map(ext => `.${ext}`).join(',')}
+                      onChange={(e) => {
+                        addPendingFiles(e.target.files);
+                        e.target.value = '';
+                      }}
+                      className="mt-2 block w-full text-sm text-gray-600 file:mr-4 file:py-2 file:px-4 file:rounded-lg file:border-0 file:bg-blue-50 file:text-blue-700 hover:file:bg-blue-100"
+                    />
+                  )}
+                  {fileError && <p className="text-sm text-red-600 mt-2">{fileError}</p>}
+                </div>
+              )}
+
+              {error && (
+                <div className="bg-red-50 text-red-600 px-4 py-3 rounded-lg text-sm">
+                  {error}
+                </div>
+              )}
+
               <div className="flex gap-3">
                 <button
                   type="button"
@@ -352,8 +665,8 @@ function SubmissionModal({
                 <button
                   type="submit"
                   onClick={() => setSaveType('submit')}
-                  className="flex-1 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors"
-                  disabled={loading}
+                  className="flex-1 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+                  disabled={loading || lateness.closed}
                 >
                   {loading ? 'Submitting...' : 'Submit Assignment'}
                 </button>
@@ -365,3 +678,80 @@ function SubmissionModal({
     </div>
   );
 }
+
+function JoinCourseModal({
+  initialCode,
+  onClose,
+  onSuccess
+}: {
+  initialCode: string;
+  onClose: () => void;
+  onSuccess: () => void;
+}) {
+  const [code, setCode] = useState(initialCode);
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setLoading(true);
+
+    const { error: redeemError } = await supabase.rpc('redeem_course_invite', {
+      invite_code: code,
+    });
+
+    setLoading(false);
+
+    if (redeemError) {
+      setError(redeemError.message);
+      return;
+    }
+
+    onSuccess();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg max-w-md w-full p-6">
+        <h2 className="text-2xl font-bold text-gray-900 mb-4">Join a Course</h2>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Join Code</label>
+            <input
+              type="text"
+              value={code}
+              onChange={(e) => setCode(e.target.value.toUpperCase())}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent font-mono tracking-widest"
+              placeholder="ABCD2345"
+              maxLength={8}
+              required
+            />
+            <p className="text-xs text-gray-500 mt-1">Ask your teacher for the course join code or link.</p>
+          </div>
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm">
+              {error}
+            </div>
+          )}
+          <div className="flex gap-3">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="flex-1 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors"
+              disabled={loading}
+            >
+              {loading ? 'Joining...' : 'Join'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
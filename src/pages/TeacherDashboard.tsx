@@ -1,11 +1,113 @@
 import { useEffect, useState } from 'react';
 import { useAuth } from '../contexts/AuthContext';
 import { supabase } from '../lib/supabase';
-import { BookOpen, Plus, Eye, Edit2, Trash2 } from 'lucide-react';
+import { BookOpen, Plus, Eye, Trash2, Users, UserPlus, KeyRound, Copy, Ban, Library, Tag, Download, FileSearch, Grid3x3, ShieldAlert, Columns2, SlidersHorizontal, ClipboardList, Clock } from 'lucide-react';
 import type { Database } from '../lib/database.types';
 import { PlagiarismReport } from '../components/PlagiarismReport';
+import { SubmissionFileList } from '../components/SubmissionFileList';
+import { SimilarityMatrix } from '../components/SimilarityMatrix';
+import { PairComparison } from '../components/PairComparison';
+import { CaseStatusBadge, PlagiarismCaseReview } from '../components/PlagiarismCaseReview';
+import { RubricGrid } from '../components/RubricGrid';
+import { AnnotatedText } from '../components/AnnotatedText';
+import { VersionDiff } from '../components/VersionDiff';
+import { diffText } from '../lib/diff';
+import { getVersions, summarizeVersions, type SubmissionVersion } from '../lib/submissionVersions';
+import { buildJoinLink, getInviteStatus } from '../lib/invites';
+import { FILE_TYPE_OPTIONS } from '../lib/fileTypes';
+import { extractText } from '../lib/textExtraction';
+import { CODE_LANGUAGE_OPTIONS, type CodeLanguage } from '../lib/codeTokenizer';
+import { TEXT_LANGUAGE_OPTIONS, type TextLanguage } from '../lib/textTokenizer';
+import {
+  getPlagiarismReports,
+  PLAGIARISM_STATUS_LABELS,
+  type MatchedSegment,
+  type PlagiarismStatus,
+} from '../lib/plagiarism';
+import {
+  CASE_STATUS_OPTIONS,
+  getCases,
+  OPEN_CASE_STATUSES,
+  type CaseStatus,
+} from '../lib/plagiarismCases';
+import {
+  getDefaultSettings,
+  getSettingsValues,
+  mergeSettings,
+  saveSettingsValues,
+  validateBands,
+  EMPTY_SETTINGS_VALUES,
+  type PlagiarismSettings,
+  type PlagiarismSettingsValues,
+} from '../lib/plagiarismSettings';
+import {
+  addReferenceDocument,
+  deleteReferenceDocument,
+  getReferenceDocuments,
+  getReferenceDocumentUrl,
+  parseTags,
+  REFERENCE_FILE_TYPES,
+  updateReferenceTags,
+  type ReferenceDocument,
+} from '../lib/referenceDocuments';
+import {
+  effectiveDueDate,
+  formatExtraTime,
+  getAssignmentExtensions,
+  getCourseAccommodations,
+  grantExtension,
+  removeAccommodation,
+  revokeExtension,
+  saveAccommodation,
+  type Accommodation,
+  type DeadlineExtension,
+} from '../lib/deadlines';
+import {
+  describeLatePolicy,
+  DEFAULT_LATE_POLICY,
+  finalScore,
+  formatLateness,
+  LATE_POLICY_LABELS,
+  normalizeLatePolicy,
+  saveLatePolicy,
+  type LatePenaltyUnit,
+  type LatePolicy,
+  type LatePolicyValues,
+} from '../lib/latePolicy';
+import {
+  addAnnotation,
+  deleteAnnotation,
+  getAnnotations,
+  updateAnnotation,
+  type Annotation,
+  type AnnotationRange,
+} from '../lib/annotations';
+import {
+  deleteRubric,
+  getAssessment,
+  getRubric,
+  getRubrics,
+  maxRubricPoints,
+  newCriterion,
+  newLevel,
+  rubricScore,
+  saveAssessment,
+  saveRubric,
+  setAssignmentRubric,
+  totalRubricPoints,
+  type CriterionScore,
+  type Rubric,
+  type RubricCriterion,
+  type RubricLevel,
+} from '../lib/rubrics';
 
-type Course = Database['public']['Tables']['courses']['Row'];
+type Course = Database['public']['Tables']['courses']['Row'] & {
+  enrollments?: { count: number }[];
+};
+type CourseInvite = Database['public']['Tables']['course_invites']['Row'];
+type Enrollment = Database['public']['Tables']['enrollments']['Row'] & {
+  profiles: { full_name: string; email: string } | null;
+};
 type Assignment = Database['public']['Tables']['assignments']['Row'] & {
   courses: Pick<Course, 'title'>;
   submission_count?: number;
@@ -19,6 +121,16 @@ export function TeacherDashboard() {
   const [showCourseModal, setShowCourseModal] = useState(false);
   const [showAssignmentModal, setShowAssignmentModal] = useState(false);
   const [selectedAssignment, setSelectedAssignment] = useState<string | null>(null);
+  const [matrixAssignment, setMatrixAssignment] = useState<Assignment | null>(null);
+  const [enrollmentCourse, setEnrollmentCourse] = useState<Course | null>(null);
+  const [inviteCourse, setInviteCourse] = useState<Course | null>(null);
+  const [showReferenceLibrary, setShowReferenceLibrary] = useState(false);
+  const [showCases, setShowCases] = useState(false);
+  const [showRubrics, setShowRubrics] = useState(false);
+  const [rubricAssignment, setRubricAssignment] = useState<Assignment | null>(null);
+  const [settingsCourse, setSettingsCourse] = useState<Course | null>(null);
+  const [settingsAssignment, setSettingsAssignment] = useState<Assignment | null>(null);
+  const [lateAssignment, setLateAssignment] = useState<Assignment | null>(null);
 
   useEffect(() => {
     loadData();
@@ -30,7 +142,7 @@ export function TeacherDashboard() {
     const [coursesResult, assignmentsResult] = await Promise.all([
       supabase
         .from('courses')
-        .select('*')
+        .select('*, enrollments (count)')
         .eq('teacher_id', profile.id)
         .order('created_at', { ascending: false }),
       supabase
@@ -77,9 +189,34 @@ export function TeacherDashboard() {
 
   return (
     <div className="max-w-7xl mx-auto px-4 py-8">
-      <div className="mb-8">
-        <h1 className="text-3xl font-bold text-gray-900 mb-2">Teacher Dashboard</h1>
-        <p className="text-gray-600">Manage your courses and assignments</p>
+      <div className="mb-8 flex items-start justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Teacher Dashboard</h1>
+          <p className="text-gray-600">Manage your courses and assignments</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setShowCases(true)}
+            className="flex items-center gap-2 border border-gray-300 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-50 transition-colors"
+          >
+            <ShieldAlert className="w-4 h-4" />
+            Plagiarism Cases
+          </button>
+          <button
+            onClick={() => setShowReferenceLibrary(true)}
+            className="flex items-center gap-2 border border-gray-300 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-50 transition-colors"
+          >
+            <Library className="w-4 h-4" />
+            Reference Library
+          </button>
+          <button
+            onClick={() => setShowRubrics(true)}
+            className="flex items-center gap-2 border border-gray-300 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-50 transition-colors"
+          >
+            <ClipboardList className="w-4 h-4" />
+            Rubrics
+          </button>
+        </div>
       </div>
 
       <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
@@ -135,7 +272,30 @@ export function TeacherDashboard() {
               {courses.map((course) => (
                 <div key={course.id} className="border border-gray-200 rounded-lg p-4 hover:border-blue-300 transition-colors">
                   <h3 className="font-semibold text-gray-900 mb-2">{course.title}</h3>
-                  <p className="text-sm text-gray-600 line-clamp-2">{course.description}</p>
+                  <p className="text-sm text-gray-600 line-clamp-2 mb-3">{course.description}</p>
+                  <div className="flex items-center justify-between">
+                    <button
+                      onClick={() => setEnrollmentCourse(course)}
+                      className="flex items-center gap-2 text-sm text-blue-600 hover:text-blue-700 font-medium"
+                    >
+                      <Users className="w-4 h-4" />
+                      {course.enrollments?.[0]?.count ?? 0} enrolled students
+                    </button>
+                    <button
+                      onClick={() => setInviteCourse(course)}
+                      className="flex items-center gap-2 text-sm text-gray-600 hover:text-gray-900 font-medium"
+                    >
+                      <KeyRound className="w-4 h-4" />
+                      Join codes
+                    </button>
+                    <button
+                      onClick={() => setSettingsCourse(course)}
+                      className="p-1 text-gray-600 hover:text-gray-900"
+                      title="Plagiarism Settings"
+                    >
+                      <SlidersHorizontal className="w-4 h-4" />
+                    </button>
+                  </div>
                 </div>
               ))}
             </div>
@@ -182,6 +342,34 @@ export function TeacherDashboard() {
                       >
                         <Eye className="w-5 h-5" />
                       </button>
+                      <button
+                        onClick={() => setMatrixAssignment(assignment)}
+                        className="p-2 text-purple-600 hover:bg-purple-50 rounded-lg transition-colors"
+                        title="Similarity Matrix"
+                      >
+                        <Grid3x3 className="w-5 h-5" />
+                      </button>
+                      <button
+                        onClick={() => setRubricAssignment(assignment)}
+                        className="p-2 text-green-600 hover:bg-green-50 rounded-lg transition-colors"
+                        title={assignment.rubric_id ? 'Change Rubric' : 'Attach Rubric'}
+                      >
+                        <ClipboardList className="w-5 h-5" />
+                      </button>
+                      <button
+                        onClick={() => setLateAssignment(assignment)}
+                        className="p-2 text-amber-600 hover:bg-amber-50 rounded-lg transition-colors"
+                        title={`Late Policy: ${LATE_POLICY_LABELS[assignment.late_policy]}`}
+                      >
+                        <Clock className="w-5 h-5" />
+                      </button>
+                      <button
+                        onClick={() => setSettingsAssignment(assignment)}
+                        className="p-2 text-gray-600 hover:bg-gray-50 rounded-lg transition-colors"
+                        title="Plagiarism Settings"
+                      >
+                        <SlidersHorizontal className="w-5 h-5" />
+                      </button>
                       <button
                         onClick={() => deleteAssignment(assignment.id)}
                         className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
@@ -203,12 +391,80 @@ export function TeacherDashboard() {
       )}
 
       {showAssignmentModal && (
-        <AssignmentModal courses={courses} onClose={() => setShowAssignmentModal(false)} onSuccess={loadData} />
+        <AssignmentModal courses={courses} assignments={assignments} onClose={() => setShowAssignmentModal(false)} onSuccess={loadData} />
       )}
 
       {selectedAssignment && (
         <SubmissionsModal assignmentId={selectedAssignment} onClose={() => setSelectedAssignment(null)} />
       )}
+
+      {matrixAssignment && (
+        <SimilarityMatrixModal assignment={matrixAssignment} onClose={() => setMatrixAssignment(null)} />
+      )}
+
+      {enrollmentCourse && (
+        <EnrollmentModal
+          course={enrollmentCourse}
+          onClose={() => {
+            setEnrollmentCourse(null);
+            loadData();
+          }}
+        />
+      )}
+
+      {inviteCourse && (
+        <InvitesModal course={inviteCourse} onClose={() => setInviteCourse(null)} />
+      )}
+
+      {showReferenceLibrary && (
+        <ReferenceLibraryModal courses={courses} onClose={() => setShowReferenceLibrary(false)} />
+      )}
+
+      {showCases && (
+        <PlagiarismCasesModal onClose={() => setShowCases(false)} />
+      )}
+
+      {showRubrics && (
+        <RubricLibraryModal
+          onClose={() => {
+            setShowRubrics(false);
+            loadData();
+          }}
+        />
+      )}
+
+      {rubricAssignment && (
+        <AssignmentRubricModal
+          assignment={rubricAssignment}
+          onClose={() => setRubricAssignment(null)}
+          onSuccess={loadData}
+        />
+      )}
+
+      {lateAssignment && (
+        <LatePolicyModal
+          assignment={lateAssignment}
+          onClose={() => setLateAssignment(null)}
+          onSuccess={loadData}
+        />
+      )}
+
+      {settingsCourse && (
+        <PlagiarismSettingsModal
+          courseId={settingsCourse.id}
+          title={settingsCourse.title}
+          onClose={() => setSettingsCourse(null)}
+        />
+      )}
+
+      {settingsAssignment && (
+        <PlagiarismSettingsModal
+          courseId={settingsAssignment.course_id}
+          assignment={settingsAssignment}
+          title={settingsAssignment.title}
+          onClose={() => setSettingsAssignment(null)}
+        />
+      )}
     </div>
   );
 }
@@ -281,172 +537,348 @@ function CourseModal({ onClose, onSuccess }: { onClose: () => void; onSuccess: (
   );
 }
 
-function AssignmentModal({ courses, onClose, onSuccess }: { courses: Course[]; onClose: () => void; onSuccess: () => void }) {
+function EnrollmentModal({ course, onClose }: { course: Course; onClose: () => void }) {
   const { profile } = useAuth();
-  const [title, setTitle] = useState('');
-  const [description, setDescription] = useState('');
-  const [courseId, setCourseId] = useState('');
-  const [dueDate, setDueDate] = useState('');
-  const [maxScore, setMaxScore] = useState(100);
-  const [loading, setLoading] = useState(false);
+  const [enrollments, setEnrollments] = useState<Enrollment[]>([]);
+  const [accommodations, setAccommodations] = useState<Accommodation[]>([]);
+  const [accommodating, setAccommodating] = useState<Enrollment | null>(null);
+  const [extraHours, setExtraHours] = useState('');
+  const [accommodationNote, setAccommodationNote] = useState('');
+  const [accommodationError, setAccommodationError] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<'student' | 'auditor'>('student');
+  const [error, setError] = useState('');
+  const [adding, setAdding] = useState(false);
 
-  const handleSubmit = async (e: React.FormEvent) => {
+  useEffect(() => {
+    loadEnrollments();
+  }, [course.id]);
+
+  const loadEnrollments = async () => {
+    const { data } = await supabase
+      .from('enrollments')
+      .select(`
+        *,
+        profiles (full_name, email)
+      `)
+      .eq('course_id', course.id)
+      .order('joined_at', { ascending: true });
+
+    if (data) setEnrollments(data);
+    setAccommodations(await getCourseAccommodations(course.id));
+    setLoading(false);
+  };
+
+  const editAccommodation = (enrollment: Enrollment) => {
+    const accommodation = accommodations.find(a => a.student_id === enrollment.student_id);
+    setAccommodating(enrollment);
+    setExtraHours(accommodation ? String(accommodation.extra_minutes / 60) : '48');
+    setAccommodationNote(accommodation?.note ?? '');
+    setAccommodationError('');
+  };
+
+  const submitAccommodation = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!profile) return;
+    if (!profile || !accommodating) return;
 
-    setLoading(true);
-    await supabase.from('assignments').insert({
-      title,
-      description,
-      course_id: courseId,
-      teacher_id: profile.id,
-      due_date: dueDate,
-      max_score: maxScore,
+    const { error: saveError } = await saveAccommodation({
+      courseId: course.id,
+      studentId: accommodating.student_id,
+      extraMinutes: parseFloat(extraHours) * 60,
+      note: accommodationNote,
+      grantedBy: profile.id,
     });
 
-    setLoading(false);
-    onSuccess();
-    onClose();
+    if (saveError) {
+      setAccommodationError(saveError);
+      return;
+    }
+
+    setAccommodating(null);
+    setAccommodations(await getCourseAccommodations(course.id));
+  };
+
+  const deleteAccommodation = async (accommodation: Accommodation) => {
+    if (!confirm('Remove this accommodation? Work already turned in is reassessed against the regular due dates.')) return;
+
+    await removeAccommodation(accommodation.id);
+    setAccommodating(null);
+    setAccommodations(await getCourseAccommodations(course.id));
+  };
+
+  const addStudent = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setAdding(true);
+
+    const { data: student } = await supabase
+      .from('profiles')
+      .select('id')
+      .eq('email', email.trim().toLowerCase())
+      .eq('role', 'student')
+      .maybeSingle();
+
+    if (!student) {
+      setError('No student account found with that email address.');
+      setAdding(false);
+      return;
+    }
+
+    const { error: insertError } = await supabase
+      .from('enrollments')
+      .insert({ course_id: course.id, student_id: student.id, role });
+
+    if (insertError) {
+      setError(insertError.code === '23505' ? 'This student is already enrolled.' : insertError.message);
+    } else {
+      setEmail('');
+      await loadEnrollments();
+    }
+    setAdding(false);
+  };
+
+  const removeStudent = async (enrollment: Enrollment) => {
+    if (!confirm(`Remove ${enrollment.profiles?.full_name || 'this student'} from ${course.title}?`)) return;
+
+    await supabase.from('enrollments').delete().eq('id', enrollment.id);
+    loadEnrollments();
   };
 
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
-      <div className="bg-white rounded-lg max-w-md w-full p-6">
-        <h2 className="text-2xl font-bold text-gray-900 mb-4">Create New Assignment</h2>
-        <form onSubmit={handleSubmit} className="space-y-4">
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-1">Course</label>
-            <select
-              value={courseId}
-              onChange={(e) => setCourseId(e.target.value)}
-              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
-              required
+      <div className="bg-white rounded-lg max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="p-6 border-b border-gray-200 sticky top-0 bg-white">
+          <div className="flex items-center justify-between">
+            <div>
+              <h2 className="text-2xl font-bold text-gray-900">Enrolled Students</h2>
+              <p className="text-sm text-gray-600">{course.title}</p>
+            </div>
+            <button
+              onClick={onClose}
+              className="text-gray-500 hover:text-gray-700"
             >
-              <option value="">Select a course</option>
-              {courses.map((course) => (
-                <option key={course.id} value={course.id}>{course.title}</option>
-              ))}
-            </select>
-          </div>
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-1">Assignment Title</label>
-            <input
-              type="text"
-              value={title}
-              onChange={(e) => setTitle(e.target.value)}
-              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
-              required
-            />
-          </div>
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-1">Description</label>
-            <textarea
-              value={description}
-              onChange={(e) => setDescription(e.target.value)}
-              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
-              rows={3}
-            />
-          </div>
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-1">Due Date</label>
-            <input
-              type="datetime-local"
-              value={dueDate}
-              onChange={(e) => setDueDate(e.target.value)}
-              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
-              required
-            />
+              ✕
+            </button>
           </div>
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-1">Max Score</label>
+        </div>
+
+        <div className="p-6">
+          <form onSubmit={addStudent} className="flex gap-2 mb-2">
             <input
-              type="number"
-              value={maxScore}
-              onChange={(e) => setMaxScore(parseInt(e.target.value))}
-              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
-              min="1"
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              className="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              placeholder="student@example.com"
               required
             />
-          </div>
-          <div className="flex gap-3">
-            <button
-              type="button"
-              onClick={onClose}
-              className="flex-1 px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+            <select
+              value={role}
+              onChange={(e) => setRole(e.target.value as 'student' | 'auditor')}
+              className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
             >
-              Cancel
-            </button>
+              <option value="student">Student</option>
+              <option value="auditor">Auditor</option>
+            </select>
             <button
               type="submit"
-              className="flex-1 bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 transition-colors"
-              disabled={loading}
+              className="flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+              disabled={adding}
             >
-              Create
+              <UserPlus className="w-4 h-4" />
+              Add
             </button>
-          </div>
-        </form>
+          </form>
+          {error && <p className="text-sm text-red-600 mb-2">{error}</p>}
+
+          {loading ? (
+            <div className="w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin mx-auto my-8"></div>
+          ) : enrollments.length === 0 ? (
+            <p className="text-gray-500 text-center py-8">No students enrolled yet.</p>
+          ) : (
+            <div className="divide-y divide-gray-200 mt-4">
+              {enrollments.map((enrollment) => {
+                const accommodation = accommodations.find(a => a.student_id === enrollment.student_id);
+
+                return (
+                  <div key={enrollment.id} className="py-3">
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <p className="font-medium text-gray-900">
+                          {enrollment.profiles?.full_name || 'Unknown'}
+                          {accommodation && (
+                            <span
+                              className="ml-2 px-2 py-0.5 bg-amber-100 text-amber-700 text-xs rounded-full font-medium"
+                              title={accommodation.note}
+                            >
+                              {formatExtraTime(accommodation.extra_minutes)} on all deadlines
+                            </span>
+                          )}
+                        </p>
+                        <p className="text-sm text-gray-600">
+                          {enrollment.profiles?.email}
+                          {enrollment.role === 'auditor' && ' · Auditor'}
+                          {' · '}Joined {new Date(enrollment.joined_at).toLocaleDateString()}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-1">
+                        <button
+                          onClick={() => editAccommodation(enrollment)}
+                          className="p-2 text-amber-600 hover:bg-amber-50 rounded-lg transition-colors"
+                          title={accommodation ? 'Edit accommodation' : 'Add accommodation'}
+                        >
+                          <Clock className="w-5 h-5" />
+                        </button>
+                        <button
+                          onClick={() => removeStudent(enrollment)}
+                          className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                          title="Remove from course"
+                        >
+                          <Trash2 className="w-5 h-5" />
+                        </button>
+                      </div>
+                    </div>
+
+                    {accommodating?.id === enrollment.id && (
+                      <form onSubmit={submitAccommodation} className="mt-3 p-3 bg-amber-50 border border-amber-200 rounded-lg space-y-2">
+                        <div className="flex gap-2">
+                          <div className="w-32">
+                            <label className="block text-xs font-medium text-gray-700 mb-1">Extra hours</label>
+                            <input
+                              type="number"
+                              value={extraHours}
+                              onChange={(e) => setExtraHours(e.target.value)}
+                              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                              min="0"
+                              step="any"
+                              required
+                            />
+                          </div>
+                          <div className="flex-1">
+                            <label className="block text-xs font-medium text-gray-700 mb-1">Documented need (only teachers see this)</label>
+                            <input
+                              type="text"
+                              value={accommodationNote}
+                              onChange={(e) => setAccommodationNote(e.target.value)}
+                              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                            />
+                          </div>
+                        </div>
+                        <p className="text-xs text-gray-600">
+                          Added to every due date in {course.title}. Work already turned in is reassessed.
+                        </p>
+                        {accommodationError && <p className="text-sm text-red-600">{accommodationError}</p>}
+                        <div className="flex gap-3">
+                          {accommodation && (
+                            <button
+                              type="button"
+                              onClick={() => deleteAccommodation(accommodation)}
+                              className="text-sm text-red-600 hover:text-red-700"
+                            >
+                              Remove
+                            </button>
+                          )}
+                          <button
+                            type="button"
+                            onClick={() => setAccommodating(null)}
+                            className="ml-auto px-3 py-1 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors text-sm"
+                          >
+                            Cancel
+                          </button>
+                          <button
+                            type="submit"
+                            className="px-3 py-1 bg-amber-600 text-white rounded-lg hover:bg-amber-700 transition-colors text-sm"
+                          >
+                            Save
+                          </button>
+                        </div>
+                      </form>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
       </div>
     </div>
   );
 }
 
-function SubmissionsModal({ assignmentId, onClose }: { assignmentId: string; onClose: () => void }) {
-  const [submissions, setSubmissions] = useState<any[]>([]);
-  const [assignment, setAssignment] = useState<any>(null);
+function InvitesModal({ course, onClose }: { course: Course; onClose: () => void }) {
+  const { profile } = useAuth();
+  const [invites, setInvites] = useState<CourseInvite[]>([]);
   const [loading, setLoading] = useState(true);
-  const [selectedSubmission, setSelectedSubmission] = useState<any>(null);
+  const [expiresAt, setExpiresAt] = useState('');
+  const [maxUses, setMaxUses] = useState('');
+  const [creating, setCreating] = useState(false);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
 
   useEffect(() => {
-    loadSubmissions();
-  }, [assignmentId]);
+    loadInvites();
+  }, [course.id]);
 
-  const loadSubmissions = async () => {
-    const [assignmentResult, submissionsResult] = await Promise.all([
-      supabase
-        .from('assignments')
-        .select('*')
-        .eq('id', assignmentId)
-        .single(),
-      supabase
-        .from('submissions')
-        .select(`
-          *,
-          profiles (full_name, email)
-        `)
-        .eq('assignment_id', assignmentId)
-    ]);
+  const loadInvites = async () => {
+    const { data } = await supabase
+      .from('course_invites')
+      .select('*')
+      .eq('course_id', course.id)
+      .order('created_at', { ascending: false });
 
-    if (assignmentResult.data) setAssignment(assignmentResult.data);
-    if (submissionsResult.data) setSubmissions(submissionsResult.data);
+    if (data) setInvites(data);
     setLoading(false);
   };
 
-  const updateSubmission = async (submissionId: string, score: number, feedback: string) => {
+  const createInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!profile) return;
+
+    setCreating(true);
+    await supabase.from('course_invites').insert({
+      course_id: course.id,
+      created_by: profile.id,
+      expires_at: expiresAt ? new Date(expiresAt).toISOString() : null,
+      max_uses: maxUses ? parseInt(maxUses) : null,
+    });
+
+    setExpiresAt('');
+    setMaxUses('');
+    setCreating(false);
+    loadInvites();
+  };
+
+  const revokeInvite = async (invite: CourseInvite) => {
+    if (!confirm(`Revoke join code ${invite.code}? Students will no longer be able to use it.`)) return;
+
     await supabase
-      .from('submissions')
-      .update({ score, feedback, status: 'graded' })
-      .eq('id', submissionId);
+      .from('course_invites')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('id', invite.id);
+    loadInvites();
+  };
 
-    loadSubmissions();
-    setSelectedSubmission(null);
+  const copyLink = async (invite: CourseInvite) => {
+    await navigator.clipboard.writeText(buildJoinLink(invite.code));
+    setCopiedId(invite.id);
   };
 
-  if (loading) {
-    return (
-      <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
-        <div className="bg-white rounded-lg p-8">
-          <div className="w-16 h-16 border-4 border-blue-600 border-t-transparent rounded-full animate-spin mx-auto"></div>
-        </div>
-      </div>
-    );
-  }
+  const statusLabels = {
+    active: 'Active',
+    revoked: 'Revoked',
+    expired: 'Expired',
+    used_up: 'Used up',
+  };
 
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
-      <div className="bg-white rounded-lg max-w-4xl w-full max-h-[90vh] overflow-y-auto">
+      <div className="bg-white rounded-lg max-w-2xl w-full max-h-[90vh] overflow-y-auto">
         <div className="p-6 border-b border-gray-200 sticky top-0 bg-white">
           <div className="flex items-center justify-between">
-            <h2 className="text-2xl font-bold text-gray-900">Submissions: {assignment?.title}</h2>
+            <div>
+              <h2 className="text-2xl font-bold text-gray-900">Join Codes</h2>
+              <p className="text-sm text-gray-600">{course.title}</p>
+            </div>
             <button
               onClick={onClose}
               className="text-gray-500 hover:text-gray-700"
@@ -457,19 +889,1886 @@ function SubmissionsModal({ assignmentId, onClose }: { assignmentId: string; onC
         </div>
 
         <div className="p-6">
-          {submissions.length === 0 ? (
-            <p className="text-gray-500 text-center py-8">No submissions yet.</p>
+          <form onSubmit={createInvite} className="grid grid-cols-1 md:grid-cols-3 gap-3 items-end mb-6">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Expires (optional)</label>
+              <input
+                type="datetime-local"
+                value={expiresAt}
+                onChange={(e) => setExpiresAt(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Max uses (optional)</label>
+              <input
+                type="number"
+                value={maxUses}
+                onChange={(e) => setMaxUses(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                min="1"
+                placeholder="Unlimited"
+              />
+            </div>
+            <button
+              type="submit"
+              className="flex items-center justify-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+              disabled={creating}
+            >
+              <KeyRound className="w-4 h-4" />
+              Generate Code
+            </button>
+          </form>
+
+          {loading ? (
+            <div className="w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin mx-auto my-8"></div>
+          ) : invites.length === 0 ? (
+            <p className="text-gray-500 text-center py-8">No join codes yet.</p>
           ) : (
-            <div className="space-y-4">
-              {submissions.map((submission) => (
-                <div key={submission.id} className="border border-gray-200 rounded-lg p-4">
-                  <div className="flex items-start justify-between mb-2">
-                    <div>
-                      <h3 className="font-semibold text-gray-900">{submission.profiles.full_name}</h3>
-                      <p className="text-sm text-gray-600">{submission.profiles.email}</p>
+            <div className="space-y-3">
+              {invites.map((invite) => {
+                const status = getInviteStatus(invite);
+
+                return (
+                  <div key={invite.id} className="border border-gray-200 rounded-lg p-4">
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <div className="flex items-center gap-2">
+                          <span className="font-mono text-lg font-bold text-gray-900 tracking-widest">{invite.code}</span>
+                          <span className={`px-2 py-1 text-xs rounded-full font-medium ${
+                            status === 'active' ? 'bg-green-100 text-green-700' : 'bg-gray-100 text-gray-700'
+                          }`}>
+                            {statusLabels[status]}
+                          </span>
+                        </div>
+                        <p className="text-sm text-gray-600">
+                          {invite.use_count}{invite.max_uses !== null ? `/${invite.max_uses}` : ''} uses
+                          {invite.expires_at && ` · Expires ${new Date(invite.expires_at).toLocaleString()}`}
+                        </p>
+                      </div>
+                      {status === 'active' && (
+                        <div className="flex items-center gap-2">
+                          <button
+                            onClick={() => copyLink(invite)}
+                            className="flex items-center gap-1 p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors text-sm"
+                            title="Copy join link"
+                          >
+                            <Copy className="w-4 h-4" />
+                            {copiedId === invite.id ? 'Copied' : 'Copy link'}
+                          </button>
+                          <button
+                            onClick={() => revokeInvite(invite)}
+                            className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                            title="Revoke"
+                          >
+                            <Ban className="w-4 h-4" />
+                          </button>
+                        </div>
+                      )}
                     </div>
-                    <span className={`px-3 py-1 rounded-full text-sm font-medium ${
-                      submission.status === 'graded' ? 'bg-green-100 text-green-700' :
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function ReferenceLibraryModal({ courses, onClose }: { courses: Course[]; onClose: () => void }) {
+  const { profile } = useAuth();
+  const [references, setReferences] = useState<ReferenceDocument[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [title, setTitle] = useState('');
+  const [courseId, setCourseId] = useState('');
+  const [tags, setTags] = useState('');
+  const [file, setFile] = useState<File | null>(null);
+  const [text, setText] = useState('');
+  const [adding, setAdding] = useState(false);
+  const [error, setError] = useState('');
+  const [tagFilter, setTagFilter] = useState('');
+  const [editingTagsId, setEditingTagsId] = useState<string | null>(null);
+  const [editedTags, setEditedTags] = useState('');
+
+  useEffect(() => {
+    loadReferences();
+  }, []);
+
+  const loadReferences = async () => {
+    if (!profile) return;
+    setReferences(await getReferenceDocuments(profile.id));
+    setLoading(false);
+  };
+
+  const addReference = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!profile) return;
+
+    setAdding(true);
+    setError('');
+
+    const { error: addError } = await addReferenceDocument({
+      teacherId: profile.id,
+      courseId: courseId || null,
+      title,
+      tags: parseTags(tags),
+      file,
+      text,
+    });
+
+    setAdding(false);
+
+    if (addError) {
+      setError(addError);
+      return;
+    }
+
+    setTitle('');
+    setTags('');
+    setFile(null);
+    setText('');
+    loadReferences();
+  };
+
+  const saveTags = async (reference: ReferenceDocument) => {
+    await updateReferenceTags(reference.id, parseTags(editedTags));
+    setEditingTagsId(null);
+    loadReferences();
+  };
+
+  const removeReference = async (reference: ReferenceDocument) => {
+    if (!confirm(`Delete "${reference.title}" from the reference library?`)) return;
+
+    await deleteReferenceDocument(reference);
+    loadReferences();
+  };
+
+  const openReference = async (reference: ReferenceDocument) => {
+    const url = await getReferenceDocumentUrl(reference);
+    if (url) window.open(url, '_blank', 'noopener');
+  };
+
+  const allTags = [...new Set(references.flatMap(reference => reference.tags))].sort();
+  const visibleReferences = tagFilter
+    ? references.filter(reference => reference.tags.includes(tagFilter))
+    : references;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg max-w-3xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="p-6 border-b border-gray-200 sticky top-0 bg-white">
+          <div className="flex items-center justify-between">
+            <div>
+              <h2 className="text-2xl font-bold text-gray-900">Reference Library</h2>
+              <p className="text-sm text-gray-600">Known sources that plagiarism checks compare against</p>
+            </div>
+            <button
+              onClick={onClose}
+              className="text-gray-500 hover:text-gray-700"
+            >
+              ✕
+            </button>
+          </div>
+        </div>
+
+        <div className="p-6">
+          <form onSubmit={addReference} className="space-y-3 mb-6 border border-gray-200 rounded-lg p-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Title</label>
+                <input
+                  type="text"
+                  value={title}
+                  onChange={(e) => setTitle(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  required
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Course</label>
+                <select
+                  value={courseId}
+                  onChange={(e) => setCourseId(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  <option value="">All my courses</option>
+                  {courses.map((course) => (
+                    <option key={course.id} value={course.id}>{course.title}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Tags</label>
+              <input
+                type="text"
+                value={tags}
+                onChange={(e) => setTags(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                placeholder="e.g. model answer, textbook"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">File</label>
+              <input
+                type="file"
+                accept={REFERENCE_FILE_TYPES.map(ext => `.${ext}`).join(',')}
+                onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+                className="block w-full text-sm text-gray-600"
+              />
+            </div>
+            {!file && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Or paste the text</label>
+                <textarea
+                  value={text}
+                  onChange={(e) => setText(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  rows={4}
+                />
+              </div>
+            )}
+            {error && (
+              <div className="bg-red-50 text-red-600 px-4 py-3 rounded-lg text-sm">
+                {error}
+              </div>
+            )}
+            <button
+              type="submit"
+              className="flex items-center justify-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+              disabled={adding}
+            >
+              <Plus className="w-4 h-4" />
+              {adding ? 'Adding...' : 'Add Document'}
+            </button>
+          </form>
+
+          {allTags.length > 0 && (
+            <div className="flex flex-wrap items-center gap-2 mb-4">
+              <Tag className="w-4 h-4 text-gray-500" />
+              <button
+                onClick={() => setTagFilter('')}
+                className={`px-2 py-1 text-xs rounded-full ${tagFilter === '' ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700'}`}
+              >
+                All
+              </button>
+              {allTags.map((tag) => (
+                <button
+                  key={tag}
+                  onClick={() => setTagFilter(tag)}
+                  className={`px-2 py-1 text-xs rounded-full ${tagFilter === tag ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700'}`}
+                >
+                  {tag}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {loading ? (
+            <div className="w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin mx-auto my-8"></div>
+          ) : visibleReferences.length === 0 ? (
+            <p className="text-gray-500 text-center py-8">No reference documents yet.</p>
+          ) : (
+            <div className="space-y-3">
+              {visibleReferences.map((reference) => (
+                <div key={reference.id} className="border border-gray-200 rounded-lg p-4">
+                  <div className="flex items-start justify-between">
+                    <div className="flex-1">
+                      <p className="font-medium text-gray-900">{reference.title}</p>
+                      <p className="text-sm text-gray-600">
+                        {courses.find(c => c.id === reference.course_id)?.title || 'All my courses'}
+                        {reference.file_name && ` · ${reference.file_name}`}
+                      </p>
+                      {editingTagsId === reference.id ? (
+                        <div className="flex items-center gap-2 mt-2">
+                          <input
+                            type="text"
+                            value={editedTags}
+                            onChange={(e) => setEditedTags(e.target.value)}
+                            className="flex-1 px-3 py-1 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                          />
+                          <button
+                            onClick={() => saveTags(reference)}
+                            className="text-sm text-blue-600 hover:text-blue-700 font-medium"
+                          >
+                            Save
+                          </button>
+                          <button
+                            onClick={() => setEditingTagsId(null)}
+                            className="text-sm text-gray-600 hover:text-gray-900"
+                          >
+                            Cancel
+                          </button>
+                        </div>
+                      ) : (
+                        <div className="flex flex-wrap items-center gap-1 mt-2">
+                          {reference.tags.map((tag) => (
+                            <span key={tag} className="px-2 py-1 text-xs rounded-full bg-gray-100 text-gray-700">{tag}</span>
+                          ))}
+                          <button
+                            onClick={() => {
+                              setEditingTagsId(reference.id);
+                              setEditedTags(reference.tags.join(', '));
+                            }}
+                            className="text-xs text-blue-600 hover:text-blue-700"
+                          >
+                            Edit tags
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-2">
+                      {reference.storage_path && (
+                        <button
+                          onClick={() => openReference(reference)}
+                          className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                          title="Download"
+                        >
+                          <Download className="w-4 h-4" />
+                        </button>
+                      )}
+                      <button
+                        onClick={() => removeReference(reference)}
+                        className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                        title="Delete"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+type RubricDraft = {
+  id?: string;
+  title: string;
+  description: string;
+  criteria: RubricCriterion[];
+};
+
+function RubricLibraryModal({ onClose }: { onClose: () => void }) {
+  const { profile } = useAuth();
+  const [rubrics, setRubrics] = useState<Rubric[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [draft, setDraft] = useState<RubricDraft | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadRubrics();
+  }, []);
+
+  const loadRubrics = async () => {
+    if (!profile) return;
+    setRubrics(await getRubrics(profile.id));
+    setLoading(false);
+  };
+
+  const editRubric = (rubric: RubricDraft) => {
+    setError('');
+    setDraft(rubric);
+  };
+
+  const updateCriterion = (criterionId: string, update: Partial<RubricCriterion>) => {
+    if (!draft) return;
+    setDraft({
+      ...draft,
+      criteria: draft.criteria.map(c => (c.id === criterionId ? { ...c, ...update } : c)),
+    });
+  };
+
+  const updateLevel = (criterion: RubricCriterion, levelId: string, update: Partial<RubricLevel>) => {
+    updateCriterion(criterion.id, {
+      levels: criterion.levels.map(l => (l.id === levelId ? { ...l, ...update } : l)),
+    });
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!profile || !draft) return;
+
+    setSaving(true);
+    setError('');
+
+    const { error: saveError } = await saveRubric({ ...draft, teacherId: profile.id });
+
+    setSaving(false);
+
+    if (saveError) {
+      setError(saveError);
+      return;
+    }
+
+    setDraft(null);
+    loadRubrics();
+  };
+
+  const removeRubric = async (rubric: Rubric) => {
+    if (!confirm(`Delete "${rubric.title}"? Assignments using it will be graded with a single score; grades already given keep their rubric.`)) return;
+
+    await deleteRubric(rubric.id);
+    loadRubrics();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg max-w-4xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="p-6 border-b border-gray-200 sticky top-0 bg-white z-10">
+          <div className="flex items-center justify-between">
+            <div>
+              <h2 className="text-2xl font-bold text-gray-900">Rubrics</h2>
+              <p className="text-sm text-gray-600">Reusable grading criteria for any of your assignments</p>
+            </div>
+            <button
+              onClick={onClose}
+              className="text-gray-500 hover:text-gray-700"
+            >
+              ✕
+            </button>
+          </div>
+        </div>
+
+        <div className="p-6">
+          {draft ? (
+            <form onSubmit={handleSave} className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Title</label>
+                <input
+                  type="text"
+                  value={draft.title}
+                  onChange={(e) => setDraft({ ...draft, title: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  required
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+                <textarea
+                  value={draft.description}
+                  onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  rows={2}
+                />
+              </div>
+
+              {draft.criteria.map((criterion, index) => (
+                <div key={criterion.id} className="border border-gray-200 rounded-lg p-4 space-y-3">
+                  <div className="flex items-start gap-2">
+                    <span className="text-sm font-medium text-gray-500 pt-2">{index + 1}.</span>
+                    <div className="flex-1 space-y-2">
+                      <input
+                        type="text"
+                        value={criterion.title}
+                        onChange={(e) => updateCriterion(criterion.id, { title: e.target.value })}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        placeholder="Criterion, e.g. Argument"
+                        required
+                      />
+                      <input
+                        type="text"
+                        value={criterion.description}
+                        onChange={(e) => updateCriterion(criterion.id, { description: e.target.value })}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        placeholder="What this criterion assesses (optional)"
+                      />
+                    </div>
+                    <button
+                      type="button"
+                      onClick={() => setDraft({ ...draft, criteria: draft.criteria.filter(c => c.id !== criterion.id) })}
+                      className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                      title="Remove criterion"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+
+                  <div className="space-y-2 pl-6">
+                    {criterion.levels.map((level) => (
+                      <div key={level.id} className="flex items-center gap-2">
+                        <input
+                          type="text"
+                          value={level.title}
+                          onChange={(e) => updateLevel(criterion, level.id, { title: e.target.value })}
+                          className="w-40 px-3 py-1 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                          placeholder="Level"
+                          required
+                        />
+                        <input
+                          type="number"
+                          value={level.points}
+                          onChange={(e) => updateLevel(criterion, level.id, { points: parseFloat(e.target.value) })}
+                          className="w-20 px-3 py-1 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                          min="0"
+                          step="0.5"
+                          required
+                        />
+                        <span className="text-xs text-gray-500">pts</span>
+                        <input
+                          type="text"
+                          value={level.description}
+                          onChange={(e) => updateLevel(criterion, level.id, { description: e.target.value })}
+                          className="flex-1 px-3 py-1 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                          placeholder="Description (optional)"
+                        />
+                        <button
+                          type="button"
+                          onClick={() => updateCriterion(criterion.id, { levels: criterion.levels.filter(l => l.id !== level.id) })}
+                          className="text-gray-400 hover:text-red-600"
+                          title="Remove level"
+                        >
+                          ✕
+                        </button>
+                      </div>
+                    ))}
+                    <button
+                      type="button"
+                      onClick={() => updateCriterion(criterion.id, { levels: [...criterion.levels, newLevel(0)] })}
+                      className="text-sm text-blue-600 hover:text-blue-700 font-medium"
+                    >
+                      + Add level
+                    </button>
+                  </div>
+                </div>
+              ))}
+
+              <button
+                type="button"
+                onClick={() => setDraft({ ...draft, criteria: [...draft.criteria, newCriterion()] })}
+                className="flex items-center gap-2 text-sm text-blue-600 hover:text-blue-700 font-medium"
+              >
+                <Plus className="w-4 h-4" />
+                Add criterion
+              </button>
+
+              <p className="text-sm text-gray-600">
+                Worth {maxRubricPoints(draft.criteria)} points in total. Scores are scaled to each assignment's max score.
+              </p>
+
+              {error && (
+                <div className="bg-red-50 text-red-600 px-4 py-3 rounded-lg text-sm">
+                  {error}
+                </div>
+              )}
+              <div className="flex gap-3">
+                <button
+                  type="button"
+                  onClick={() => setDraft(null)}
+                  className="flex-1 px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  className="flex-1 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+                  disabled={saving}
+                >
+                  {saving ? 'Saving...' : 'Save Rubric'}
+                </button>
+              </div>
+            </form>
+          ) : (
+            <>
+              <button
+                onClick={() => editRubric({ title: '', description: '', criteria: [newCriterion()] })}
+                className="flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors mb-6"
+              >
+                <Plus className="w-4 h-4" />
+                New Rubric
+              </button>
+
+              {loading ? (
+                <div className="w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin mx-auto my-8"></div>
+              ) : rubrics.length === 0 ? (
+                <p className="text-gray-500 text-center py-8">No rubrics yet.</p>
+              ) : (
+                <div className="space-y-3">
+                  {rubrics.map((rubric) => (
+                    <div key={rubric.id} className="border border-gray-200 rounded-lg p-4">
+                      <div className="flex items-start justify-between">
+                        <div className="flex-1">
+                          <p className="font-medium text-gray-900">{rubric.title}</p>
+                          {rubric.description && (
+                            <p className="text-sm text-gray-600">{rubric.description}</p>
+                          )}
+                          <p className="text-xs text-gray-500 mt-1">
+                            {rubric.criteria.length} {rubric.criteria.length === 1 ? 'criterion' : 'criteria'} · {maxRubricPoints(rubric.criteria)} points
+                          </p>
+                        </div>
+                        <div className="flex items-center gap-2">
+                          <button
+                            onClick={() => editRubric(rubric)}
+                            className="text-sm text-blue-600 hover:text-blue-700 font-medium"
+                          >
+                            Edit
+                          </button>
+                          <button
+                            onClick={() => editRubric({ ...rubric, id: undefined, title: `${rubric.title} (copy)` })}
+                            className="p-2 text-gray-600 hover:bg-gray-50 rounded-lg transition-colors"
+                            title="Duplicate"
+                          >
+                            <Copy className="w-4 h-4" />
+                          </button>
+                          <button
+                            onClick={() => removeRubric(rubric)}
+                            className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                            title="Delete"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </div>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function AssignmentRubricModal({
+  assignment,
+  onClose,
+  onSuccess,
+}: {
+  assignment: Assignment;
+  onClose: () => void;
+  onSuccess: () => void;
+}) {
+  const { profile } = useAuth();
+  const [rubrics, setRubrics] = useState<Rubric[]>([]);
+  const [rubricId, setRubricId] = useState(assignment.rubric_id ?? '');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (profile) getRubrics(profile.id).then(setRubrics);
+  }, [profile]);
+
+  const selectedRubric = rubrics.find(rubric => rubric.id === rubricId);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError('');
+
+    const { error: saveError } = await setAssignmentRubric(assignment.id, rubricId || null);
+
+    setSaving(false);
+
+    if (saveError) {
+      setError(saveError.message);
+      return;
+    }
+
+    onSuccess();
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg max-w-3xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="p-6 border-b border-gray-200 sticky top-0 bg-white z-10">
+          <div className="flex items-center justify-between">
+            <div>
+              <h2 className="text-2xl font-bold text-gray-900">Rubric</h2>
+              <p className="text-sm text-gray-600">{assignment.title}</p>
+            </div>
+            <button
+              onClick={onClose}
+              className="text-gray-500 hover:text-gray-700"
+            >
+              ✕
+            </button>
+          </div>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Grade submissions with</label>
+            <select
+              value={rubricId}
+              onChange={(e) => setRubricId(e.target.value)}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+            >
+              <option value="">A single score</option>
+              {rubrics.map((rubric) => (
+                <option key={rubric.id} value={rubric.id}>
+                  {rubric.title} ({maxRubricPoints(rubric.criteria)} points)
+                </option>
+              ))}
+            </select>
+            <p className="text-xs text-gray-500 mt-1">
+              Rubrics are created in the Rubrics library. Submissions already graded keep the rubric they were graded with until they are regraded.
+            </p>
+          </div>
+
+          {selectedRubric && (
+            <RubricGrid criteria={selectedRubric.criteria} scores={[]} />
+          )}
+
+          {error && (
+            <div className="bg-red-50 text-red-600 px-4 py-3 rounded-lg text-sm">
+              {error}
+            </div>
+          )}
+          <div className="flex gap-3">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="flex-1 bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50"
+              disabled={saving}
+            >
+              {saving ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
+
+function LatePolicyFields({ value, onChange }: { value: LatePolicyValues; onChange: (value: LatePolicyValues) => void }) {
+  return (
+    <div className="space-y-3">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Late Submissions</label>
+        <select
+          value={value.late_policy}
+          onChange={(e) => onChange({ ...value, late_policy: e.target.value as LatePolicy })}
+          className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+        >
+          {(Object.keys(LATE_POLICY_LABELS) as LatePolicy[]).map((policy) => (
+            <option key={policy} value={policy}>{LATE_POLICY_LABELS[policy]}</option>
+          ))}
+        </select>
+      </div>
+      {value.late_policy === 'penalty' && (
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Penalty (%)</label>
+            <input
+              type="number"
+              value={value.late_penalty_percent}
+              onChange={(e) => onChange({ ...value, late_penalty_percent: parseFloat(e.target.value) || 0 })}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+              min="0"
+              max="100"
+              step="any"
+              required
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Per</label>
+            <select
+              value={value.late_penalty_unit}
+              onChange={(e) => onChange({ ...value, late_penalty_unit: e.target.value as LatePenaltyUnit })}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+            >
+              <option value="day">Day late</option>
+              <option value="hour">Hour late</option>
+            </select>
+          </div>
+        </div>
+      )}
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Grace Period (minutes)</label>
+          <input
+            type="number"
+            value={value.late_grace_minutes}
+            onChange={(e) => onChange({ ...value, late_grace_minutes: parseInt(e.target.value) || 0 })}
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+            min="0"
+          />
+        </div>
+        {value.late_policy !== 'close' && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Accept Up To (hours late)</label>
+            <input
+              type="number"
+              value={value.late_max_minutes === null ? '' : value.late_max_minutes / 60}
+              onChange={(e) => onChange({
+                ...value,
+                late_max_minutes: e.target.value ? Math.max(1, Math.round(parseFloat(e.target.value) * 60)) : null,
+              })}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+              min="0"
+              step="any"
+              placeholder="No limit"
+            />
+          </div>
+        )}
+      </div>
+      <p className="text-xs text-gray-500">
+        Work turned in within the grace period is not late. Penalties count from the due date, per started {value.late_penalty_unit}.
+      </p>
+    </div>
+  );
+}
+
+function LatePolicyModal({
+  assignment,
+  onClose,
+  onSuccess,
+}: {
+  assignment: Assignment;
+  onClose: () => void;
+  onSuccess: () => void;
+}) {
+  const [values, setValues] = useState<LatePolicyValues>({
+    late_policy: assignment.late_policy,
+    late_penalty_percent: assignment.late_penalty_percent,
+    late_penalty_unit: assignment.late_penalty_unit,
+    late_grace_minutes: assignment.late_grace_minutes,
+    late_max_minutes: assignment.late_max_minutes,
+  });
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError('');
+
+    const { error: saveError } = await saveLatePolicy(assignment.id, values);
+
+    setSaving(false);
+
+    if (saveError) {
+      setError(saveError.message);
+      return;
+    }
+
+    onSuccess();
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg max-w-md w-full p-6 max-h-[90vh] overflow-y-auto">
+        <h2 className="text-2xl font-bold text-gray-900 mb-1">Late Policy</h2>
+        <p className="text-sm text-gray-600 mb-4">
+          {assignment.title} · Due {new Date(assignment.due_date).toLocaleString()}
+        </p>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <LatePolicyFields value={values} onChange={setValues} />
+          <p className="text-sm text-gray-700">
+            {describeLatePolicy({ ...normalizeLatePolicy(values), due_date: assignment.due_date })}
+          </p>
+          <p className="text-xs text-gray-500">
+            Changes apply to work turned in from now on; work already turned in keeps its recorded lateness and penalty.
+          </p>
+          {error && (
+            <div className="bg-red-50 text-red-600 px-4 py-3 rounded-lg text-sm">
+              {error}
+            </div>
+          )}
+          <div className="flex gap-3">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="flex-1 bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 transition-colors"
+              disabled={saving}
+            >
+              {saving ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
+
+function AssignmentModal({
+  courses,
+  assignments,
+  onClose,
+  onSuccess,
+}: {
+  courses: Course[];
+  assignments: Assignment[];
+  onClose: () => void;
+  onSuccess: () => void;
+}) {
+  const { profile } = useAuth();
+  const [title, setTitle] = useState('');
+  const [description, setDescription] = useState('');
+  const [courseId, setCourseId] = useState('');
+  const [dueDate, setDueDate] = useState('');
+  const [maxScore, setMaxScore] = useState(100);
+  const [allowedFileTypes, setAllowedFileTypes] = useState<string[]>(['pdf', 'docx', 'zip']);
+  const [maxFileSizeMb, setMaxFileSizeMb] = useState(10);
+  const [maxFiles, setMaxFiles] = useState(5);
+  const [previousAssignmentId, setPreviousAssignmentId] = useState('');
+  const [checkMode, setCheckMode] = useState<'text' | 'code'>('text');
+  const [codeLanguage, setCodeLanguage] = useState<CodeLanguage>('python');
+  const [textLanguage, setTextLanguage] = useState<TextLanguage>('auto');
+  const [ignoreStopWords, setIgnoreStopWords] = useState(false);
+  const [stemWords, setStemWords] = useState(false);
+  const [excludeDescription, setExcludeDescription] = useState(false);
+  const [starterFile, setStarterFile] = useState<File | null>(null);
+  const [rubrics, setRubrics] = useState<Rubric[]>([]);
+  const [rubricId, setRubricId] = useState('');
+  const [latePolicy, setLatePolicy] = useState<LatePolicyValues>(DEFAULT_LATE_POLICY);
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (profile) getRubrics(profile.id).then(setRubrics);
+  }, [profile]);
+
+  const toggleFileType = (extension: string) => {
+    setAllowedFileTypes(
+      allowedFileTypes.includes(extension)
+        ? allowedFileTypes.filter(ext => ext !== extension)
+        : [...allowedFileTypes, extension]
+    );
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!profile) return;
+
+    setLoading(true);
+    setError('');
+
+    let starterText: string | null = null;
+    if (starterFile) {
+      const extracted = await extractText(starterFile.name, starterFile).catch(() => null);
+      if (!extracted) {
+        setError(`Could not read any text from ${starterFile.name}.`);
+        setLoading(false);
+        return;
+      }
+      starterText = extracted.text;
+    }
+
+    await supabase.from('assignments').insert({
+      title,
+      description,
+      course_id: courseId,
+      teacher_id: profile.id,
+      due_date: dueDate,
+      max_score: maxScore,
+      allowed_file_types: allowedFileTypes,
+      max_file_size_mb: maxFileSizeMb,
+      max_files: allowedFileTypes.length > 0 ? maxFiles : 0,
+      previous_assignment_id: previousAssignmentId || null,
+      check_mode: checkMode,
+      code_language: checkMode === 'code' ? codeLanguage : null,
+      language: textLanguage,
+      ignore_stop_words: textLanguage !== 'auto' && ignoreStopWords,
+      stem_words: textLanguage !== 'auto' && stemWords,
+      exclude_description: excludeDescription,
+      starter_file_name: starterFile?.name ?? null,
+      starter_text: starterText,
+      rubric_id: rubricId || null,
+      ...normalizeLatePolicy(latePolicy),
+    });
+
+    setLoading(false);
+    onSuccess();
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg max-w-md w-full p-6 max-h-[90vh] overflow-y-auto">
+        <h2 className="text-2xl font-bold text-gray-900 mb-4">Create New Assignment</h2>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Course</label>
+            <select
+              value={courseId}
+              onChange={(e) => setCourseId(e.target.value)}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+              required
+            >
+              <option value="">Select a course</option>
+              {courses.map((course) => (
+                <option key={course.id} value={course.id}>{course.title}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Assignment Title</label>
+            <input
+              type="text"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+              required
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+            <textarea
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+              rows={3}
+            />
+            <label className="flex items-center gap-2 text-sm text-gray-700 mt-1">
+              <input
+                type="checkbox"
+                checked={excludeDescription}
+                onChange={(e) => setExcludeDescription(e.target.checked)}
+              />
+              Don't count copies of the description towards plagiarism scores
+            </label>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Starter File (optional)</label>
+            <input
+              type="file"
+              accept=".txt,.pdf,.docx,.odt,.js,.ts,.py,.java,.c,.h"
+              onChange={(e) => setStarterFile(e.target.files?.[0] ?? null)}
+              className="block w-full text-sm text-gray-600"
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              Template text or starter code handed out to students; it is not counted towards plagiarism scores
+            </p>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Plagiarism Check</label>
+              <select
+                value={checkMode}
+                onChange={(e) => setCheckMode(e.target.value as 'text' | 'code')}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+              >
+                <option value="text">Written text</option>
+                <option value="code">Source code</option>
+              </select>
+            </div>
+            {checkMode === 'code' && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Language</label>
+                <select
+                  value={codeLanguage}
+                  onChange={(e) => setCodeLanguage(e.target.value as CodeLanguage)}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                >
+                  {CODE_LANGUAGE_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+            {checkMode === 'text' && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Language</label>
+                <select
+                  value={textLanguage}
+                  onChange={(e) => setTextLanguage(e.target.value as TextLanguage)}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                >
+                  {TEXT_LANGUAGE_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+          </div>
+          {checkMode === 'text' && textLanguage !== 'auto' && (
+            <div className="space-y-1">
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={ignoreStopWords}
+                  onChange={(e) => setIgnoreStopWords(e.target.checked)}
+                />
+                Ignore common words (articles, prepositions, ...)
+              </label>
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={stemWords}
+                  onChange={(e) => setStemWords(e.target.checked)}
+                />
+                Match different forms of the same word
+              </label>
+              <p className="text-xs text-gray-500">
+                Both catch lightly reworded copies, at the cost of some false matches
+              </p>
+            </div>
+          )}
+          {assignments.length > 0 && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Previous Offering</label>
+              <select
+                value={previousAssignmentId}
+                onChange={(e) => setPreviousAssignmentId(e.target.value)}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+              >
+                <option value="">None</option>
+                {assignments.map((assignment) => (
+                  <option key={assignment.id} value={assignment.id}>
+                    {assignment.title} ({assignment.courses.title})
+                  </option>
+                ))}
+              </select>
+              <p className="text-xs text-gray-500 mt-1">
+                Plagiarism checks can also compare against submissions from this earlier assignment
+              </p>
+            </div>
+          )}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Due Date</label>
+            <input
+              type="datetime-local"
+              value={dueDate}
+              onChange={(e) => setDueDate(e.target.value)}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+              required
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Max Score</label>
+            <input
+              type="number"
+              value={maxScore}
+              onChange={(e) => setMaxScore(parseInt(e.target.value))}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+              min="1"
+              required
+            />
+          </div>
+          <LatePolicyFields value={latePolicy} onChange={setLatePolicy} />
+          {rubrics.length > 0 && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Rubric</label>
+              <select
+                value={rubricId}
+                onChange={(e) => setRubricId(e.target.value)}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+              >
+                <option value="">None (grade with a single score)</option>
+                {rubrics.map((rubric) => (
+                  <option key={rubric.id} value={rubric.id}>
+                    {rubric.title} ({maxRubricPoints(rubric.criteria)} points)
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Accepted File Types</label>
+            <div className="grid grid-cols-2 gap-1">
+              {FILE_TYPE_OPTIONS.map((option) => (
+                <label key={option.extension} className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={allowedFileTypes.includes(option.extension)}
+                    onChange={() => toggleFileType(option.extension)}
+                  />
+                  {option.label}
+                </label>
+              ))}
+            </div>
+          </div>
+          {allowedFileTypes.length > 0 && (
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Max File Size (MB)</label>
+                <input
+                  type="number"
+                  value={maxFileSizeMb}
+                  onChange={(e) => setMaxFileSizeMb(parseInt(e.target.value))}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                  min="1"
+                  max="50"
+                  required
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Max Files</label>
+                <input
+                  type="number"
+                  value={maxFiles}
+                  onChange={(e) => setMaxFiles(parseInt(e.target.value))}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                  min="1"
+                  required
+                />
+              </div>
+            </div>
+          )}
+          {error && (
+            <div className="bg-red-50 text-red-600 px-4 py-3 rounded-lg text-sm">
+              {error}
+            </div>
+          )}
+          <div className="flex gap-3">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="flex-1 bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 transition-colors"
+              disabled={loading}
+            >
+              Create
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
+
+const SETTINGS_FIELDS: {
+  key: keyof PlagiarismSettingsValues;
+  label: string;
+  help: string;
+  inherited: (settings: PlagiarismSettings) => number;
+}[] = [
+  {
+    key: 'min_match_tokens',
+    label: 'Minimum match length',
+    help: 'Shorter shared passages, in words or code tokens, are ignored',
+    inherited: (settings) => settings.fingerprintOptions.minMatchTokens,
+  },
+  {
+    key: 'max_gap_tokens',
+    label: 'Allowed gap inside a match',
+    help: 'Differing words tolerated before a passage stops counting as one match',
+    inherited: (settings) => settings.fingerprintOptions.maxGapTokens,
+  },
+  {
+    key: 'flag_score',
+    label: 'Flag at (%)',
+    help: 'Matched sources with this much uncited overlap are opened as cases for review',
+    inherited: (settings) => settings.flagScore,
+  },
+  {
+    key: 'moderate_score',
+    label: 'Moderate from (%)',
+    help: 'Scores below this are shown as low',
+    inherited: (settings) => settings.bands.moderate,
+  },
+  {
+    key: 'high_score',
+    label: 'High from (%)',
+    help: '',
+    inherited: (settings) => settings.bands.high,
+  },
+  {
+    key: 'very_high_score',
+    label: 'Very high from (%)',
+    help: '',
+    inherited: (settings) => settings.bands.veryHigh,
+  },
+];
+
+function PlagiarismSettingsModal({
+  courseId,
+  assignment,
+  title,
+  onClose,
+}: {
+  courseId: string;
+  assignment?: Assignment;
+  title: string;
+  onClose: () => void;
+}) {
+  const [values, setValues] = useState<Record<keyof PlagiarismSettingsValues, string>>(
+    { min_match_tokens: '', max_gap_tokens: '', flag_score: '', moderate_score: '', high_score: '', very_high_score: '' }
+  );
+  const [inherited, setInherited] = useState<PlagiarismSettings>(getDefaultSettings(assignment?.check_mode));
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const target = assignment ? { assignmentId: assignment.id } : { courseId };
+
+  useEffect(() => {
+    loadSettings();
+  }, [courseId, assignment]);
+
+  const loadSettings = async () => {
+    setLoading(true);
+    const current = await getSettingsValues(supabase, target);
+
+    // An assignment inherits its course's settings; a course inherits the defaults
+    if (assignment) {
+      const courseSettings = await getSettingsValues(supabase, { courseId });
+      setInherited(mergeSettings(getDefaultSettings(assignment.check_mode), courseSettings));
+    }
+
+    setValues({
+      min_match_tokens: current?.min_match_tokens?.toString() ?? '',
+      max_gap_tokens: current?.max_gap_tokens?.toString() ?? '',
+      flag_score: current?.flag_score?.toString() ?? '',
+      moderate_score: current?.moderate_score?.toString() ?? '',
+      high_score: current?.high_score?.toString() ?? '',
+      very_high_score: current?.very_high_score?.toString() ?? '',
+    });
+    setLoading(false);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    const parsed: PlagiarismSettingsValues = { ...EMPTY_SETTINGS_VALUES };
+    for (const field of SETTINGS_FIELDS) {
+      parsed[field.key] = values[field.key].trim() === '' ? null : Number(values[field.key]);
+    }
+
+    const bandError = validateBands(mergeSettings(inherited, parsed).bands);
+    if (bandError) {
+      setError(bandError);
+      return;
+    }
+
+    setSaving(true);
+    const { error: saveError } = await saveSettingsValues(supabase, target, parsed);
+    setSaving(false);
+
+    if (saveError) {
+      setError(saveError);
+      return;
+    }
+
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="p-6 border-b border-gray-200 sticky top-0 bg-white">
+          <div className="flex items-center justify-between">
+            <div>
+              <h2 className="text-2xl font-bold text-gray-900">Plagiarism Settings</h2>
+              <p className="text-sm text-gray-600">{title}</p>
+            </div>
+            <button
+              onClick={onClose}
+              className="text-gray-500 hover:text-gray-700"
+            >
+              ✕
+            </button>
+          </div>
+        </div>
+
+        <div className="p-6">
+          {loading ? (
+            <div className="w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin mx-auto my-8"></div>
+          ) : (
+            <form onSubmit={handleSave} className="space-y-4">
+              <p className="text-sm text-gray-600">
+                Leave a field empty to use {assignment ? "the course's setting" : 'the default'}, shown as a placeholder.
+                Changes apply to checks run from now on.
+              </p>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {SETTINGS_FIELDS.map((field) => (
+                  <div key={field.key}>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">{field.label}</label>
+                    <input
+                      type="number"
+                      value={values[field.key]}
+                      onChange={(e) => setValues({ ...values, [field.key]: e.target.value })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      min="0"
+                      max={field.key.endsWith('_score') ? '100' : undefined}
+                      step={field.key.endsWith('_score') ? '0.1' : '1'}
+                      placeholder={field.inherited(inherited).toString()}
+                    />
+                    {field.help && <p className="text-xs text-gray-500 mt-1">{field.help}</p>}
+                  </div>
+                ))}
+              </div>
+
+              {error && (
+                <div className="bg-red-50 text-red-600 px-4 py-3 rounded-lg text-sm">
+                  {error}
+                </div>
+              )}
+
+              <div className="flex gap-3">
+                <button
+                  type="button"
+                  onClick={onClose}
+                  className="flex-1 px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={saving}
+                  className="flex-1 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+                >
+                  {saving ? 'Saving...' : 'Save Settings'}
+                </button>
+              </div>
+            </form>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+type PlagiarismCase = Awaited<ReturnType<typeof getCases>>[number];
+
+function PlagiarismCasesModal({ onClose }: { onClose: () => void }) {
+  const [filter, setFilter] = useState<'open' | 'all' | CaseStatus>('open');
+  const [cases, setCases] = useState<PlagiarismCase[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [expandedCase, setExpandedCase] = useState<string | null>(null);
+  const [comparedCase, setComparedCase] = useState<PlagiarismCase | null>(null);
+
+  useEffect(() => {
+    loadCases();
+  }, [filter]);
+
+  const loadCases = async () => {
+    setLoading(true);
+    const statuses = filter === 'open'
+      ? OPEN_CASE_STATUSES
+      : filter === 'all'
+        ? CASE_STATUS_OPTIONS.map(option => option.value)
+        : [filter];
+    setCases(await getCases(statuses));
+    setLoading(false);
+  };
+
+  const latestReport = (reviewCase: PlagiarismCase) =>
+    [...reviewCase.reports].sort((a, b) => b.created_at.localeCompare(a.created_at))[0];
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg max-w-4xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="p-6 border-b border-gray-200 sticky top-0 bg-white">
+          <div className="flex items-center justify-between">
+            <h2 className="text-2xl font-bold text-gray-900">Plagiarism Cases</h2>
+            <div className="flex items-center gap-3">
+              <select
+                value={filter}
+                onChange={(e) => setFilter(e.target.value as typeof filter)}
+                className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="open">Open cases</option>
+                {CASE_STATUS_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+                <option value="all">All cases</option>
+              </select>
+              <button
+                onClick={onClose}
+                className="text-gray-500 hover:text-gray-700"
+              >
+                ✕
+              </button>
+            </div>
+          </div>
+        </div>
+
+        <div className="p-6">
+          {loading ? (
+            <div className="flex items-center justify-center py-8">
+              <div className="w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+            </div>
+          ) : cases.length === 0 ? (
+            <p className="text-gray-500 text-center py-8">No cases match this filter.</p>
+          ) : (
+            <div className="space-y-3">
+              {cases.map((reviewCase) => {
+                const report = latestReport(reviewCase);
+                const uncited = report ? report.similarity_score - report.cited_score : null;
+
+                return (
+                  <div key={reviewCase.id} className="border border-gray-200 rounded-lg p-4">
+                    <div className="flex items-start justify-between gap-4">
+                      <div>
+                        <p className="font-semibold text-gray-900">
+                          {reviewCase.submission?.student?.full_name || 'Unknown student'}
+                          <span className="font-normal text-gray-600">
+                            {' matches '}
+                            {reviewCase.compared_reference
+                              ? `reference "${reviewCase.compared_reference.title}"`
+                              : reviewCase.compared_submission?.student?.full_name || 'another submission'}
+                          </span>
+                        </p>
+                        <p className="text-sm text-gray-600">{reviewCase.submission?.assignment?.title}</p>
+                        <p className="text-xs text-gray-500 mt-1">
+                          Reported {new Date(reviewCase.created_at).toLocaleDateString()}
+                          {reviewCase.reviewed_at && ` · last reviewed ${new Date(reviewCase.reviewed_at).toLocaleString()}`}
+                        </p>
+                      </div>
+                      <div className="text-right flex-shrink-0 space-y-1">
+                        <CaseStatusBadge status={reviewCase.status} />
+                        <p className="text-sm font-medium text-gray-900">
+                          {uncited !== null ? `${uncited.toFixed(1)}% uncited` : 'No current report'}
+                        </p>
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-4 mt-2">
+                      <button
+                        onClick={() => setExpandedCase(expandedCase === reviewCase.id ? null : reviewCase.id)}
+                        className="text-sm text-blue-600 hover:text-blue-700 font-medium"
+                      >
+                        {expandedCase === reviewCase.id ? 'Hide Review' : 'Review'}
+                      </button>
+                      {report && (
+                        <button
+                          onClick={() => setComparedCase(reviewCase)}
+                          className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-700 font-medium"
+                        >
+                          <Columns2 className="w-4 h-4" />
+                          Compare
+                        </button>
+                      )}
+                    </div>
+                    {expandedCase === reviewCase.id && (
+                      <PlagiarismCaseReview
+                        caseId={reviewCase.id}
+                        status={reviewCase.status}
+                        onReviewed={loadCases}
+                      />
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {comparedCase && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-lg max-w-6xl w-full max-h-[90vh] overflow-y-auto">
+            <div className="p-6 border-b border-gray-200 sticky top-0 bg-white">
+              <div className="flex items-center justify-between">
+                <h2 className="text-xl font-bold text-gray-900">Side-by-side Comparison</h2>
+                <button
+                  onClick={() => setComparedCase(null)}
+                  className="text-gray-500 hover:text-gray-700"
+                >
+                  ✕
+                </button>
+              </div>
+            </div>
+            <div className="p-6">
+              <PairComparison
+                submissionId={comparedCase.submission_id}
+                comparedSubmissionId={comparedCase.compared_submission_id ?? undefined}
+                comparedReferenceId={comparedCase.compared_reference_id ?? undefined}
+                currentLabel={comparedCase.submission?.student?.full_name || 'Submission'}
+                comparedLabel={
+                  comparedCase.compared_reference?.title
+                  || comparedCase.compared_submission?.student?.full_name
+                  || 'Matched source'
+                }
+                matchedContent={latestReport(comparedCase).matched_content as MatchedSegment[]}
+                monospace={comparedCase.submission?.assignment?.check_mode === 'code'}
+              />
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function SimilarityMatrixModal({ assignment, onClose }: { assignment: Assignment; onClose: () => void }) {
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg max-w-5xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="p-6 border-b border-gray-200 sticky top-0 bg-white">
+          <div className="flex items-center justify-between">
+            <h2 className="text-2xl font-bold text-gray-900">Similarity: {assignment.title}</h2>
+            <button
+              onClick={onClose}
+              className="text-gray-500 hover:text-gray-700"
+            >
+              ✕
+            </button>
+          </div>
+        </div>
+        <div className="p-6">
+          <SimilarityMatrix assignmentId={assignment.id} />
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function SubmissionsModal({ assignmentId, onClose }: { assignmentId: string; onClose: () => void }) {
+  const { profile } = useAuth();
+  const [submissions, setSubmissions] = useState<any[]>([]);
+  const [assignment, setAssignment] = useState<any>(null);
+  const [loading, setLoading] = useState(true);
+  const [selectedSubmission, setSelectedSubmission] = useState<any>(null);
+  const [extensions, setExtensions] = useState<DeadlineExtension[]>([]);
+  const [accommodations, setAccommodations] = useState<Accommodation[]>([]);
+  const [students, setStudents] = useState<Enrollment[]>([]);
+  const [showExtensions, setShowExtensions] = useState(false);
+  const [extensionStudentId, setExtensionStudentId] = useState('');
+  const [extensionDueDate, setExtensionDueDate] = useState('');
+  const [extensionReason, setExtensionReason] = useState('');
+  const [extensionError, setExtensionError] = useState('');
+
+  useEffect(() => {
+    loadSubmissions();
+  }, [assignmentId]);
+
+  const loadSubmissions = async () => {
+    const [assignmentResult, submissionsResult] = await Promise.all([
+      supabase
+        .from('assignments')
+        .select('*')
+        .eq('id', assignmentId)
+        .single(),
+      supabase
+        .from('submissions')
+        .select(`
+          *,
+          profiles (full_name, email),
+          submission_files (*)
+        `)
+        .eq('assignment_id', assignmentId)
+    ]);
+
+    if (assignmentResult.data) {
+      setAssignment(assignmentResult.data);
+
+      const [extensionsResult, accommodationsResult, enrollmentsResult] = await Promise.all([
+        getAssignmentExtensions(assignmentId),
+        getCourseAccommodations(assignmentResult.data.course_id),
+        supabase
+          .from('enrollments')
+          .select(`
+            *,
+            profiles (full_name, email)
+          `)
+          .eq('course_id', assignmentResult.data.course_id)
+          .eq('role', 'student'),
+      ]);
+
+      setExtensions(extensionsResult);
+      setAccommodations(accommodationsResult);
+      if (enrollmentsResult.data) setStudents(enrollmentsResult.data);
+    }
+    if (submissionsResult.data) setSubmissions(submissionsResult.data);
+    setLoading(false);
+  };
+
+  const studentName = (studentId: string) => {
+    return students.find(s => s.student_id === studentId)?.profiles?.full_name
+      || submissions.find(s => s.student_id === studentId)?.profiles?.full_name
+      || 'Unknown';
+  };
+
+  // What moves a student's deadline, for the badge next to their submission
+  const deadlineNote = (studentId: string) => {
+    const extension = extensions.find(e => e.student_id === studentId);
+    const accommodation = accommodations.find(a => a.student_id === studentId);
+    const dueDate = new Date(effectiveDueDate(assignment.due_date, extension, accommodation)).toLocaleString();
+
+    if (extension) return `Extension to ${dueDate}`;
+    if (accommodation) return `${formatExtraTime(accommodation.extra_minutes)} accommodation, due ${dueDate}`;
+    return null;
+  };
+
+  const submitExtension = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!profile) return;
+
+    setExtensionError('');
+    const { error: saveError } = await grantExtension({
+      assignmentId,
+      studentId: extensionStudentId,
+      dueDate: extensionDueDate,
+      reason: extensionReason,
+      grantedBy: profile.id,
+    });
+
+    if (saveError) {
+      setExtensionError(saveError);
+      return;
+    }
+
+    setExtensionStudentId('');
+    setExtensionDueDate('');
+    setExtensionReason('');
+    loadSubmissions();
+  };
+
+  const removeExtension = async (extension: DeadlineExtension) => {
+    if (!confirm(`Revoke the extension for ${studentName(extension.student_id)}?`)) return;
+
+    await revokeExtension(extension.id);
+    loadSubmissions();
+  };
+
+  const updateSubmission = async (submissionId: string, score: number, feedback: string) => {
+    await supabase
+      .from('submissions')
+      .update({ score, feedback, status: 'graded' })
+      .eq('id', submissionId);
+
+    loadSubmissions();
+    setSelectedSubmission(null);
+  };
+
+  if (loading) {
+    return (
+      <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+        <div className="bg-white rounded-lg p-8">
+          <div className="w-16 h-16 border-4 border-blue-600 border-t-transparent rounded-full animate-spin mx-auto"></div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg max-w-4xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="p-6 border-b border-gray-200 sticky top-0 bg-white">
+          <div className="flex items-center justify-between">
+            <h2 className="text-2xl font-bold text-gray-900">Submissions: {assignment?.title}</h2>
+            <div className="flex items-center gap-4">
+              <button
+                onClick={() => setShowExtensions(!showExtensions)}
+                className="flex items-center gap-2 text-sm text-amber-700 hover:text-amber-800 font-medium"
+              >
+                <Clock className="w-4 h-4" />
+                Extensions ({extensions.length})
+              </button>
+              <button
+                onClick={onClose}
+                className="text-gray-500 hover:text-gray-700"
+              >
+                ✕
+              </button>
+            </div>
+          </div>
+        </div>
+
+        <div className="p-6">
+          {showExtensions && (
+            <div className="mb-6 p-4 bg-amber-50 border border-amber-200 rounded-lg">
+              <h3 className="font-semibold text-gray-900 mb-1">Extensions</h3>
+              <p className="text-xs text-gray-600 mb-3">
+                Due {new Date(assignment.due_date).toLocaleString()}. An extension sets one student's due date; course
+                accommodations are managed under Enrolled Students. Work already turned in is reassessed.
+              </p>
+              {extensions.length > 0 && (
+                <div className="divide-y divide-amber-200 mb-3">
+                  {extensions.map((extension) => (
+                    <div key={extension.id} className="flex items-center justify-between py-2 text-sm">
+                      <div>
+                        <span className="font-medium text-gray-900">{studentName(extension.student_id)}</span>
+                        <span className="text-gray-700"> · due {new Date(extension.due_date).toLocaleString()}</span>
+                        {extension.reason && <span className="text-gray-500"> · {extension.reason}</span>}
+                      </div>
+                      <button
+                        onClick={() => removeExtension(extension)}
+                        className="text-red-600 hover:text-red-700"
+                      >
+                        Revoke
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+              <form onSubmit={submitExtension} className="grid grid-cols-1 md:grid-cols-4 gap-2">
+                <select
+                  value={extensionStudentId}
+                  onChange={(e) => setExtensionStudentId(e.target.value)}
+                  className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  required
+                >
+                  <option value="">Student…</option>
+                  {students.map((student) => (
+                    <option key={student.student_id} value={student.student_id}>
+                      {student.profiles?.full_name || 'Unknown'}
+                    </option>
+                  ))}
+                </select>
+                <input
+                  type="datetime-local"
+                  value={extensionDueDate}
+                  onChange={(e) => setExtensionDueDate(e.target.value)}
+                  className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  required
+                />
+                <input
+                  type="text"
+                  value={extensionReason}
+                  onChange={(e) => setExtensionReason(e.target.value)}
+                  className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  placeholder="Reason (optional)"
+                />
+                <button
+                  type="submit"
+                  className="bg-amber-600 text-white px-4 py-2 rounded-lg hover:bg-amber-700 transition-colors text-sm"
+                >
+                  Grant Extension
+                </button>
+              </form>
+              {extensionError && <p className="text-sm text-red-600 mt-2">{extensionError}</p>}
+            </div>
+          )}
+
+          {submissions.length === 0 ? (
+            <p className="text-gray-500 text-center py-8">No submissions yet.</p>
+          ) : (
+            <div className="space-y-4">
+              {submissions.map((submission) => (
+                <div key={submission.id} className="border border-gray-200 rounded-lg p-4">
+                  <div className="flex items-start justify-between mb-2">
+                    <div>
+                      <h3 className="font-semibold text-gray-900">{submission.profiles.full_name}</h3>
+                      <p className="text-sm text-gray-600">{submission.profiles.email}</p>
+                      {deadlineNote(submission.student_id) && (
+                        <p className="flex items-center gap-1 text-xs text-amber-700 mt-1">
+                          <Clock className="w-3 h-3" />
+                          {deadlineNote(submission.student_id)}
+                        </p>
+                      )}
+                      {submission.status !== 'draft' && (
+                        <p className={`flex items-center gap-1 text-xs mt-1 ${
+                          submission.plagiarism_status === 'failed' ? 'text-orange-600' : 'text-gray-500'
+                        }`}>
+                          <FileSearch className="w-3 h-3" />
+                          {PLAGIARISM_STATUS_LABELS[submission.plagiarism_status as PlagiarismStatus]}
+                        </p>
+                      )}
+                    </div>
+                    <span className={`px-3 py-1 rounded-full text-sm font-medium ${
+                      submission.status === 'graded' ? 'bg-green-100 text-green-700' :
                       submission.status === 'submitted' ? 'bg-blue-100 text-blue-700' :
                       'bg-gray-100 text-gray-700'
                     }`}>
@@ -477,12 +2776,26 @@ function SubmissionsModal({ assignmentId, onClose }: { assignmentId: string; onC
                     </span>
                   </div>
                   <p className="text-sm text-gray-700 mb-2">{submission.content.substring(0, 150)}...</p>
+                  {submission.submission_files.length > 0 && (
+                    <div className="mb-2">
+                      <SubmissionFileList files={submission.submission_files} />
+                    </div>
+                  )}
                   <div className="flex items-center justify-between">
                     <span className="text-sm text-gray-500">
                       Submitted: {submission.submitted_at ? new Date(submission.submitted_at).toLocaleString() : 'Not submitted'}
+                      {submission.is_late && (
+                        <span className="ml-2 text-amber-700">
+                          {formatLateness(submission.late_minutes)} late
+                          {submission.late_penalty_percent > 0 && ` (−${submission.late_penalty_percent}%)`}
+                        </span>
+                      )}
                     </span>
-                    {submission.status === 'graded' && (
-                      <span className="text-sm font-medium text-green-600">Score: {submission.score}/{assignment.max_score}</span>
+                    {submission.status === 'graded' && submission.score !== null && (
+                      <span className="text-sm font-medium text-green-600">
+                        Score: {finalScore(submission.score, submission.late_penalty_percent)}/{assignment.max_score}
+                        {submission.late_penalty_percent > 0 && ` (${submission.score} before late penalty)`}
+                      </span>
                     )}
                     <button
                       onClick={() => setSelectedSubmission(submission)}
@@ -501,6 +2814,13 @@ function SubmissionsModal({ assignmentId, onClose }: { assignmentId: string; onC
           <GradeModal
             submission={selectedSubmission}
             maxScore={assignment.max_score}
+            rubricId={assignment.rubric_id}
+            checkMode={assignment.check_mode}
+            dueDate={effectiveDueDate(
+              assignment.due_date,
+              extensions.find(e => e.student_id === selectedSubmission.student_id),
+              accommodations.find(a => a.student_id === selectedSubmission.student_id)
+            )}
             onClose={() => setSelectedSubmission(null)}
             onSave={updateSubmission}
           />
@@ -510,13 +2830,402 @@ function SubmissionsModal({ assignmentId, onClose }: { assignmentId: string; onC
   );
 }
 
-function GradeModal({ submission, maxScore, onClose, onSave }: any) {
+type MatchOption = {
+  reportId: string;
+  sourceName: string;
+  segment: MatchedSegment;
+};
+
+function SubmissionAnnotations({ submission, checkMode }: { submission: { id: string; content: string }; checkMode: 'text' | 'code' }) {
+  const { profile } = useAuth();
+  const [annotations, setAnnotations] = useState<Annotation[]>([]);
+  const [matches, setMatches] = useState<MatchOption[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [pendingRange, setPendingRange] = useState<AnnotationRange | null>(null);
+  const [comment, setComment] = useState('');
+  const [linkedMatch, setLinkedMatch] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editedComment, setEditedComment] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadAnnotations();
+    loadMatches();
+  }, [submission.id]);
+
+  const loadAnnotations = async () => {
+    setAnnotations(await getAnnotations(submission.id));
+  };
+
+  // Matches in the typed answer from the latest plagiarism check can be referenced by a comment
+  const loadMatches = async () => {
+    const reports = await getPlagiarismReports(supabase, submission.id);
+    setMatches(reports.flatMap(report => (report.matched_content as MatchedSegment[])
+      .filter(segment => !segment.file)
+      .map(segment => ({
+        reportId: report.id,
+        sourceName: report.compared_reference?.title || report.compared_submission?.student?.full_name || 'Unknown',
+        segment,
+      }))));
+  };
+
+  const selectRange = (range: AnnotationRange | null, matchIndex = '') => {
+    setPendingRange(range);
+    setLinkedMatch(matchIndex);
+    setComment('');
+    setError('');
+  };
+
+  const overlappingMatches = matches
+    .map((match, index) => ({ match, index }))
+    .filter(({ match }) => pendingRange
+      && match.segment.startIndex < pendingRange.endIndex
+      && match.segment.endIndex > pendingRange.startIndex);
+
+  const saveAnnotation = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!profile || !pendingRange) return;
+
+    setSaving(true);
+    setError('');
+
+    const match = linkedMatch ? matches[Number(linkedMatch)] : null;
+    const { error: saveError } = await addAnnotation({
+      submissionId: submission.id,
+      authorId: profile.id,
+      content: submission.content,
+      range: pendingRange,
+      comment,
+      plagiarismReportId: match?.reportId,
+      matchedSegment: match?.segment,
+    });
+
+    setSaving(false);
+
+    if (saveError) {
+      setError(saveError);
+      return;
+    }
+
+    selectRange(null);
+    loadAnnotations();
+  };
+
+  const saveEdit = async (annotation: Annotation) => {
+    const { error: saveError } = await updateAnnotation(annotation.id, editedComment);
+    if (saveError) {
+      setError(saveError);
+      return;
+    }
+
+    setEditingId(null);
+    loadAnnotations();
+  };
+
+  const removeAnnotation = async (annotation: Annotation) => {
+    if (!confirm('Delete this comment?')) return;
+
+    await deleteAnnotation(annotation.id);
+    loadAnnotations();
+  };
+
+  return (
+    <div className="space-y-3">
+      {matches.length > 0 && (
+        <select
+          value=""
+          onChange={(e) => {
+            const match = matches[Number(e.target.value)];
+            if (match) selectRange({ startIndex: match.segment.startIndex, endIndex: match.segment.endIndex }, e.target.value);
+          }}
+          className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        >
+          <option value="">Comment on a plagiarism match…</option>
+          {matches.map((match, index) => (
+            <option key={index} value={index}>
+              {match.sourceName}: “{match.segment.text.slice(0, 60)}{match.segment.text.length > 60 ? '…' : ''}”
+            </option>
+          ))}
+        </select>
+      )}
+
+      <AnnotatedText
+        content={submission.content}
+        annotations={annotations}
+        activeId={activeId}
+        onActivate={setActiveId}
+        onSelectRange={(range) => selectRange(range)}
+        pendingRange={pendingRange}
+        monospace={checkMode === 'code'}
+        renderActions={(annotation) => (
+          <div onClick={(e) => e.stopPropagation()} className="mt-2">
+            {editingId === annotation.id ? (
+              <div className="space-y-1">
+                <textarea
+                  value={editedComment}
+                  onChange={(e) => setEditedComment(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  rows={2}
+                />
+                <div className="flex gap-3">
+                  <button onClick={() => saveEdit(annotation)} className="text-xs text-blue-600 hover:text-blue-700 font-medium">
+                    Save
+                  </button>
+                  <button onClick={() => setEditingId(null)} className="text-xs text-gray-600 hover:text-gray-900">
+                    Cancel
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <div className="flex gap-3">
+                <button
+                  onClick={() => {
+                    setEditingId(annotation.id);
+                    setEditedComment(annotation.comment);
+                  }}
+                  className="text-xs text-blue-600 hover:text-blue-700 font-medium"
+                >
+                  Edit
+                </button>
+                <button onClick={() => removeAnnotation(annotation)} className="text-xs text-red-600 hover:text-red-700">
+                  Delete
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+      />
+
+      {pendingRange && (
+        <form onSubmit={saveAnnotation} className="border border-blue-200 bg-blue-50 rounded-lg p-3 space-y-2">
+          <p className="text-xs text-gray-600 italic">
+            “{submission.content.slice(pendingRange.startIndex, pendingRange.endIndex).slice(0, 120)}”
+          </p>
+          <textarea
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            placeholder="Comment on the selected passage"
+            rows={2}
+            autoFocus
+            required
+          />
+          {overlappingMatches.length > 0 && (
+            <select
+              value={linkedMatch}
+              onChange={(e) => setLinkedMatch(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              <option value="">Not about a plagiarism match</option>
+              {overlappingMatches.map(({ match, index }) => (
+                <option key={index} value={index}>Refers to the match with {match.sourceName}</option>
+              ))}
+            </select>
+          )}
+          {error && (
+            <div className="bg-red-50 text-red-600 px-4 py-3 rounded-lg text-sm">
+              {error}
+            </div>
+          )}
+          <div className="flex gap-3">
+            <button
+              type="button"
+              onClick={() => selectRange(null)}
+              className="flex-1 px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors text-sm"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="flex-1 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors text-sm disabled:opacity-50"
+              disabled={saving}
+            >
+              {saving ? 'Saving...' : 'Add Comment'}
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
+
+function SubmissionHistory({
+  submissionId,
+  dueDate,
+  checkMode,
+}: {
+  submissionId: string;
+  dueDate: string;
+  checkMode: 'text' | 'code';
+}) {
+  const [versions, setVersions] = useState<SubmissionVersion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [fromNumber, setFromNumber] = useState(0);
+  const [toNumber, setToNumber] = useState(0);
+
+  useEffect(() => {
+    loadVersions();
+  }, [submissionId]);
+
+  const loadVersions = async () => {
+    const data = await getVersions(submissionId);
+    setVersions(data);
+    // Version 0 stands for the empty text before the first save
+    setFromNumber(data[data.length - 2]?.version_number ?? 0);
+    setToNumber(data[data.length - 1]?.version_number ?? 0);
+    setLoading(false);
+  };
+
+  const summaries = summarizeVersions(versions);
+  const contentOf = (versionNumber: number) => versions.find(v => v.version_number === versionNumber)?.content ?? '';
+
+  const timing = (savedAt: string) => {
+    const minutes = Math.ceil((new Date(dueDate).getTime() - new Date(savedAt).getTime()) / 60000);
+    if (minutes <= 0) return 'after the due date';
+    return minutes <= 1440 ? `${formatLateness(minutes)} before the due date` : null;
+  };
+
+  if (loading) {
+    return <div className="w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin mx-auto my-8"></div>;
+  }
+
+  if (versions.length === 0) {
+    return <p className="text-gray-500 text-center py-8">No saved versions yet.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+        {[...summaries].reverse().map(({ version, words, change, largeInsertion }) => (
+          <button
+            key={version.id}
+            onClick={() => {
+              setFromNumber(version.version_number - 1);
+              setToNumber(version.version_number);
+            }}
+            className={`w-full text-left px-4 py-2 text-sm hover:bg-gray-50 ${
+              version.version_number === toNumber ? 'bg-blue-50' : ''
+            }`}
+          >
+            <div className="flex items-center justify-between gap-4">
+              <span className="font-medium text-gray-900">
+                Version {version.version_number}
+                <span className="ml-2 text-xs font-normal text-gray-500">
+                  {version.status === 'submitted' ? 'Submitted' : 'Draft'} · {new Date(version.created_at).toLocaleString()}
+                </span>
+              </span>
+              <span className="text-xs text-gray-600 whitespace-nowrap">
+                {words} words · <span className="text-green-700">+{change.addedWords}</span>{' '}
+                <span className="text-red-700">−{change.removedWords}</span>
+              </span>
+            </div>
+            {largeInsertion && (
+              <p className="flex items-center gap-1 text-xs text-orange-700 mt-1">
+                <ShieldAlert className="w-3 h-3" />
+                {change.addedWords} words added in one save
+                {timing(version.created_at) && `, ${timing(version.created_at)}`}
+              </p>
+            )}
+          </button>
+        ))}
+      </div>
+
+      <div>
+        <div className="flex items-center gap-2 mb-2 text-sm text-gray-700">
+          <span>Compare</span>
+          <select
+            value={fromNumber}
+            onChange={(e) => setFromNumber(Number(e.target.value))}
+            className="px-3 py-1 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            <option value={0}>Empty</option>
+            {versions.map((version) => (
+              <option key={version.id} value={version.version_number}>Version {version.version_number}</option>
+            ))}
+          </select>
+          <span>with</span>
+          <select
+            value={toNumber}
+            onChange={(e) => setToNumber(Number(e.target.value))}
+            className="px-3 py-1 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            {versions.map((version) => (
+              <option key={version.id} value={version.version_number}>Version {version.version_number}</option>
+            ))}
+          </select>
+        </div>
+        <VersionDiff parts={diffText(contentOf(fromNumber), contentOf(toNumber))} monospace={checkMode === 'code'} />
+      </div>
+    </div>
+  );
+}
+
+function GradeModal({ submission, maxScore, rubricId, checkMode, dueDate, onClose, onSave }: any) {
+  const { profile } = useAuth();
   const [score, setScore] = useState(submission.score || 0);
   const [feedback, setFeedback] = useState(submission.feedback || '');
-  const [showPlagiarism, setShowPlagiarism] = useState(false);
+  const [tab, setTab] = useState<'submission' | 'history' | 'plagiarism'>('submission');
+  const [criteria, setCriteria] = useState<RubricCriterion[] | null>(null);
+  const [gradingRubricId, setGradingRubricId] = useState<string | null>(null);
+  const [rubricScores, setRubricScores] = useState<CriterionScore[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
 
-  const handleSubmit = (e: React.FormEvent) => {
+  useEffect(() => {
+    loadRubric();
+  }, [submission.id, rubricId]);
+
+  const loadRubric = async () => {
+    const assessment = await getAssessment(submission.id);
+    const rubric = rubricId ? await getRubric(rubricId) : null;
+
+    // Regrading uses the assignment's current rubric; without one, an earlier rubric grade keeps its own copy
+    const gradingCriteria = rubric?.criteria ?? assessment?.criteria;
+    if (!gradingCriteria) return;
+
+    setCriteria(gradingCriteria);
+    setGradingRubricId(rubric?.id ?? assessment?.rubric_id ?? null);
+
+    // Levels that still exist stay chosen, at their current points
+    setRubricScores((assessment?.scores || []).flatMap((criterionScore) => {
+      const level = gradingCriteria
+        .find(c => c.id === criterionScore.criterionId)
+        ?.levels.find(l => l.id === criterionScore.levelId);
+      return level ? [{ ...criterionScore, points: level.points }] : [];
+    }));
+  };
+
+  const rubricTotal = criteria
+    ? rubricScore(totalRubricPoints(rubricScores), maxRubricPoints(criteria), maxScore)
+    : null;
+
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+
+    if (criteria && rubricTotal !== null && profile) {
+      setSaving(true);
+      setError('');
+
+      const { error: saveError } = await saveAssessment({
+        submissionId: submission.id,
+        rubricId: gradingRubricId,
+        criteria,
+        scores: rubricScores,
+        gradedBy: profile.id,
+      });
+
+      setSaving(false);
+
+      if (saveError) {
+        setError(saveError);
+        return;
+      }
+
+      onSave(submission.id, rubricTotal, feedback);
+      return;
+    }
+
     onSave(submission.id, score, feedback);
   };
 
@@ -531,48 +3240,82 @@ function GradeModal({ submission, maxScore, onClose, onSave }: any) {
         <div className="p-6 max-h-[70vh] overflow-y-auto">
           <div className="flex gap-2 mb-4">
             <button
-              onClick={() => setShowPlagiarism(false)}
+              onClick={() => setTab('submission')}
               className={`px-4 py-2 rounded-lg transition-colors ${
-                !showPlagiarism ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                tab === 'submission' ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
               }`}
             >
               Submission
             </button>
             <button
-              onClick={() => setShowPlagiarism(true)}
+              onClick={() => setTab('history')}
               className={`px-4 py-2 rounded-lg transition-colors ${
-                showPlagiarism ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                tab === 'history' ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              History
+            </button>
+            <button
+              onClick={() => setTab('plagiarism')}
+              className={`px-4 py-2 rounded-lg transition-colors ${
+                tab === 'plagiarism' ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
               }`}
             >
               Plagiarism Check
             </button>
           </div>
 
-          {!showPlagiarism ? (
+          {tab === 'submission' ? (
             <>
               <div className="mb-4">
                 <h4 className="font-semibold text-gray-900 mb-2">Submission Content</h4>
-                <div className="bg-gray-50 p-4 rounded-lg max-h-60 overflow-y-auto">
-                  <p className="text-sm text-gray-700 whitespace-pre-wrap">{submission.content}</p>
-                </div>
+                <SubmissionAnnotations submission={submission} checkMode={checkMode} />
               </div>
+              {submission.is_late && (
+                <div className="mb-4 flex items-center gap-2 p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800">
+                  <Clock className="w-4 h-4 flex-shrink-0" />
+                  Turned in {formatLateness(submission.late_minutes)} after the due date
+                  {submission.late_penalty_percent > 0 && `, with a ${submission.late_penalty_percent}% late penalty`}
+                </div>
+              )}
               <form onSubmit={handleSubmit} className="space-y-4">
+                {criteria && rubricTotal !== null ? (
+                  <div>
+                    <h4 className="font-semibold text-gray-900 mb-2">Rubric</h4>
+                    <RubricGrid criteria={criteria} scores={rubricScores} onChange={setRubricScores} />
+                    <p className="text-sm text-gray-700 mt-2">
+                      Score: <span className="font-semibold">{rubricTotal}/{maxScore}</span>
+                      {maxRubricPoints(criteria) !== maxScore && ' (rubric points scaled to the max score)'}
+                    </p>
+                  </div>
+                ) : (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Score (out of {maxScore})
+                    </label>
+                    <input
+                      type="number"
+                      value={score}
+                      onChange={(e) => setScore(parseInt(e.target.value))}
+                      className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      min="0"
+                      max={maxScore}
+                      required
+                    />
+                  </div>
+                )}
+                {submission.late_penalty_percent > 0 && (
+                  <p className="text-sm text-amber-700">
+                    Final score after the late penalty:{' '}
+                    <span className="font-semibold">
+                      {finalScore(rubricTotal ?? score, submission.late_penalty_percent)}/{maxScore}
+                    </span>
+                  </p>
+                )}
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">
-                    Score (out of {maxScore})
+                    {criteria ? 'Overall Feedback' : 'Feedback'}
                   </label>
-                  <input
-                    type="number"
-                    value={score}
-                    onChange={(e) => setScore(parseInt(e.target.value))}
-                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                    min="0"
-                    max={maxScore}
-                    required
-                  />
-                </div>
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-1">Feedback</label>
                   <textarea
                     value={feedback}
                     onChange={(e) => setFeedback(e.target.value)}
@@ -580,6 +3323,11 @@ function GradeModal({ submission, maxScore, onClose, onSave }: any) {
                     rows={4}
                   />
                 </div>
+                {error && (
+                  <div className="bg-red-50 text-red-600 px-4 py-3 rounded-lg text-sm">
+                    {error}
+                  </div>
+                )}
                 <div className="flex gap-3">
                   <button
                     type="button"
@@ -590,18 +3338,22 @@ function GradeModal({ submission, maxScore, onClose, onSave }: any) {
                   </button>
                   <button
                     type="submit"
-                    className="flex-1 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors"
+                    className="flex-1 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+                    disabled={saving}
                   >
-                    Save Grade
+                    {saving ? 'Saving...' : 'Save Grade'}
                   </button>
                 </div>
               </form>
             </>
+          ) : tab === 'history' ? (
+            <SubmissionHistory submissionId={submission.id} dueDate={dueDate} checkMode={checkMode} />
           ) : (
             <PlagiarismReport
               submissionId={submission.id}
               assignmentId={submission.assignment_id}
               submissionContent={submission.content}
+              checkMode={checkMode}
             />
           )}
         </div>
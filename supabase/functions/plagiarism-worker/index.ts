@@ -0,0 +1,128 @@
+/**
+ * Background worker for automatic plagiarism checks. The database calls it
+ * whenever jobs are queued (see `dispatch_plagiarism_worker`), and it is safe
+ * to call at any other time: each call claims jobs until the queue is empty
+ * or its time budget is spent. Checks run through the same code as a
+ * teacher's manual check, with a service-role client. Indexing jobs
+ * fingerprint newly turned-in work and leave its check status alone.
+ */
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '../../../src/lib/database.types';
+import { checkPlagiarism, indexSubmission } from '../../../src/lib/plagiarism';
+
+type PlagiarismJob = Database['public']['Tables']['plagiarism_jobs']['Row'];
+
+const BATCH_SIZE = 5;
+// Stays well inside the edge runtime's wall-clock limit; unclaimed jobs wait for the next call
+const TIME_BUDGET_MS = 100_000;
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL');
+const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+if (!supabaseUrl || !serviceRoleKey) {
+  throw new Error('Missing Supabase environment variables');
+}
+
+async function runIndexJob(client: SupabaseClient<Database>, job: PlagiarismJob) {
+  let error: string | null = null;
+
+  try {
+    error = (await indexSubmission(client, job.submission_id)).error;
+  } catch (e) {
+    error = e instanceof Error ? e.message : String(e);
+  }
+
+  await client
+    .from('plagiarism_jobs')
+    .update({
+      status: error ? 'failed' : 'completed',
+      error,
+      finished_at: new Date().toISOString(),
+    })
+    .eq('id', job.id);
+
+  return error;
+}
+
+async function runJob(client: SupabaseClient<Database>, job: PlagiarismJob) {
+  if (job.kind === 'index') return runIndexJob(client, job);
+
+  await client.from('submissions').update({ plagiarism_status: 'running' }).eq('id', job.submission_id);
+
+  let error: string | null = null;
+
+  try {
+    const { data: submission } = await client
+      .from('submissions')
+      .select('assignment_id')
+      .eq('id', job.submission_id)
+      .single();
+
+    if (!submission) {
+      error = 'Submission not found';
+    } else {
+      const result = await checkPlagiarism(client, job.submission_id, submission.assignment_id);
+      if ('error' in result && result.error) error = result.error;
+    }
+  } catch (e) {
+    error = e instanceof Error ? e.message : String(e);
+  }
+
+  await client
+    .from('plagiarism_jobs')
+    .update({
+      status: error ? 'failed' : 'completed',
+      error,
+      finished_at: new Date().toISOString(),
+    })
+    .eq('id', job.id);
+
+  // Another submission may have re-queued this one while it was being checked
+  const { count: pending } = await client
+    .from('plagiarism_jobs')
+    .select('id', { count: 'exact', head: true })
+    .eq('submission_id', job.submission_id)
+    .eq('kind', 'check')
+    .eq('status', 'queued');
+
+  if (pending) {
+    await client.from('submissions').update({ plagiarism_status: 'queued' }).eq('id', job.submission_id);
+  } else if (error) {
+    await client.from('submissions').update({ plagiarism_status: 'failed' }).eq('id', job.submission_id);
+  }
+
+  return error;
+}
+
+Deno.serve(async (req) => {
+  if (req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+    return new Response('Unauthorized', { status: 401 });
+  }
+
+  const client = createClient<Database>(supabaseUrl, serviceRoleKey, {
+    auth: { persistSession: false },
+  });
+
+  const startedAt = Date.now();
+  let completed = 0;
+  let failed = 0;
+
+  while (Date.now() - startedAt < TIME_BUDGET_MS) {
+    const { data: jobs, error } = await client.rpc('claim_plagiarism_jobs', { max_jobs: BATCH_SIZE });
+
+    if (error) {
+      return Response.json({ error: error.message, completed, failed }, { status: 500 });
+    }
+    if (!jobs || jobs.length === 0) break;
+
+    for (const job of jobs) {
+      if (await runJob(client, job)) {
+        failed++;
+      } else {
+        completed++;
+      }
+    }
+  }
+
+  return Response.json({ completed, failed });
+});
@@ -0,0 +1,172 @@
+/*
+  # Course Enrollments
+
+  ## Overview
+  Connects students to the courses they belong to. Until now every authenticated user could read
+  every assignment, so students saw work from teachers and courses they have nothing to do with.
+  Assignments and submissions are now scoped to the courses a student is enrolled in.
+
+  ## 1. New Tables
+
+  ### `enrollments`
+  - `id` (uuid, primary key) - Unique enrollment identifier
+  - `course_id` (uuid) - References courses(id)
+  - `student_id` (uuid) - References profiles(id) - the enrolled student
+  - `role` (text) - Enrollment role: 'student' (can submit) or 'auditor' (read-only)
+  - `joined_at` (timestamptz) - When the student was added to the course
+
+  ## 2. New Functions
+  - `is_enrolled(target_course_id)` - True when the current user is enrolled in the course.
+    SECURITY DEFINER so policies on other tables can call it without recursing into enrollments RLS.
+
+  ## 3. Security
+  - Enrollments: course teachers can view, add and remove enrollments for their own courses;
+    students can view their own enrollments
+  - Assignments: "Anyone can view assignments" is replaced by teacher-owned and enrolled-student policies
+  - Submissions: students may only create submissions for assignments in courses they are enrolled in
+    as 'student'; auditors can read assignments but not submit
+
+  ## 4. Important Notes
+  - Existing submissions are backfilled into enrollments so current students keep their access
+*/
+
+-- Create enrollments table
+CREATE TABLE IF NOT EXISTS enrollments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  course_id uuid NOT NULL REFERENCES courses(id) ON DELETE CASCADE,
+  student_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  role text NOT NULL DEFAULT 'student' CHECK (role IN ('student', 'auditor')),
+  joined_at timestamptz DEFAULT now(),
+  UNIQUE(course_id, student_id)
+);
+
+ALTER TABLE enrollments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Students can view own enrollments"
+  ON enrollments FOR SELECT
+  TO authenticated
+  USING (auth.uid() = student_id);
+
+CREATE POLICY "Teachers can view enrollments for their courses"
+  ON enrollments FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM courses
+      WHERE courses.id = enrollments.course_id
+      AND courses.teacher_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Teachers can enroll students in their courses"
+  ON enrollments FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM courses
+      WHERE courses.id = enrollments.course_id
+      AND courses.teacher_id = auth.uid()
+    ) AND
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = enrollments.student_id AND profiles.role = 'student'
+    )
+  );
+
+CREATE POLICY "Teachers can update enrollments for their courses"
+  ON enrollments FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM courses
+      WHERE courses.id = enrollments.course_id
+      AND courses.teacher_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM courses
+      WHERE courses.id = enrollments.course_id
+      AND courses.teacher_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Teachers can remove enrollments from their courses"
+  ON enrollments FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM courses
+      WHERE courses.id = enrollments.course_id
+      AND courses.teacher_id = auth.uid()
+    )
+  );
+
+-- Enrollment check usable from other policies
+CREATE OR REPLACE FUNCTION is_enrolled(target_course_id uuid, required_role text DEFAULT NULL)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM enrollments
+    WHERE enrollments.course_id = target_course_id
+    AND enrollments.student_id = auth.uid()
+    AND (required_role IS NULL OR enrollments.role = required_role)
+  );
+$$;
+
+-- Scope assignments to course members
+DROP POLICY IF EXISTS "Anyone can view assignments" ON assignments;
+
+CREATE POLICY "Teachers can view own assignments"
+  ON assignments FOR SELECT
+  TO authenticated
+  USING (auth.uid() = teacher_id);
+
+CREATE POLICY "Enrolled students can view course assignments"
+  ON assignments FOR SELECT
+  TO authenticated
+  USING (is_enrolled(course_id));
+
+-- Only enrolled students can submit
+DROP POLICY IF EXISTS "Students can create own submissions" ON submissions;
+DROP POLICY IF EXISTS "Students can update own submissions" ON submissions;
+
+CREATE POLICY "Enrolled students can create own submissions"
+  ON submissions FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = student_id AND
+    EXISTS (
+      SELECT 1 FROM assignments
+      WHERE assignments.id = submissions.assignment_id
+      AND is_enrolled(assignments.course_id, 'student')
+    )
+  );
+
+CREATE POLICY "Enrolled students can update own submissions"
+  ON submissions FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = student_id)
+  WITH CHECK (
+    auth.uid() = student_id AND
+    EXISTS (
+      SELECT 1 FROM assignments
+      WHERE assignments.id = submissions.assignment_id
+      AND is_enrolled(assignments.course_id, 'student')
+    )
+  );
+
+-- Keep access for students who have already submitted work
+INSERT INTO enrollments (course_id, student_id)
+SELECT DISTINCT a.course_id, s.student_id
+FROM submissions s
+JOIN assignments a ON a.id = s.assignment_id
+ON CONFLICT (course_id, student_id) DO NOTHING;
+
+-- Create indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_enrollments_course ON enrollments(course_id);
+CREATE INDEX IF NOT EXISTS idx_enrollments_student ON enrollments(student_id);
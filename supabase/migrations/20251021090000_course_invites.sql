@@ -0,0 +1,166 @@
+/*
+  # Join-by-Code Course Invitations
+
+  ## Overview
+  Lets teachers hand out a short join code (or a link containing it) so students can enroll
+  themselves. Codes can expire, be limited to a number of uses, and be revoked at any time.
+  Redemption happens in a SECURITY DEFINER function, so students still cannot insert
+  enrollments directly.
+
+  ## 1. New Tables
+
+  ### `course_invites`
+  - `id` (uuid, primary key) - Unique invite identifier
+  - `course_id` (uuid) - References courses(id)
+  - `code` (text, unique) - Short join code, generated by `generate_invite_code()`
+  - `expires_at` (timestamptz) - Optional expiry; NULL means the code never expires
+  - `max_uses` (integer) - Optional redemption limit; NULL means unlimited
+  - `use_count` (integer) - Number of successful redemptions
+  - `revoked_at` (timestamptz) - Set when the teacher revokes the code
+  - `created_by` (uuid) - References profiles(id) - teacher who created the code
+  - `created_at` (timestamptz) - Invite creation timestamp
+
+  ## 2. New Functions
+  - `generate_invite_code()` - Random 8 character code without easily confused characters (0/O, 1/I/L)
+  - `redeem_course_invite(invite_code)` - Validates the code, enrolls the calling student and
+    returns the course id. Raises an exception when the code is unknown, revoked, expired or used up.
+
+  ## 3. Security
+  - Course invites: only the course teacher can view, create and revoke invites
+  - Students never read `course_invites`; they can only redeem through the function
+*/
+
+-- Random join code generator
+CREATE OR REPLACE FUNCTION generate_invite_code()
+RETURNS text
+LANGUAGE plpgsql
+VOLATILE
+AS $$
+DECLARE
+  alphabet constant text := 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+  result text := '';
+BEGIN
+  FOR i IN 1..8 LOOP
+    result := result || substr(alphabet, floor(random() * length(alphabet))::int + 1, 1);
+  END LOOP;
+  RETURN result;
+END;
+$$;
+
+-- Create course_invites table
+CREATE TABLE IF NOT EXISTS course_invites (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  course_id uuid NOT NULL REFERENCES courses(id) ON DELETE CASCADE,
+  code text NOT NULL UNIQUE DEFAULT generate_invite_code(),
+  expires_at timestamptz,
+  max_uses integer CHECK (max_uses IS NULL OR max_uses > 0),
+  use_count integer NOT NULL DEFAULT 0,
+  revoked_at timestamptz,
+  created_by uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE course_invites ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Teachers can view invites for their courses"
+  ON course_invites FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM courses
+      WHERE courses.id = course_invites.course_id
+      AND courses.teacher_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Teachers can create invites for their courses"
+  ON course_invites FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = created_by AND
+    EXISTS (
+      SELECT 1 FROM courses
+      WHERE courses.id = course_invites.course_id
+      AND courses.teacher_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Teachers can revoke invites for their courses"
+  ON course_invites FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM courses
+      WHERE courses.id = course_invites.course_id
+      AND courses.teacher_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM courses
+      WHERE courses.id = course_invites.course_id
+      AND courses.teacher_id = auth.uid()
+    )
+  );
+
+-- Redeem a join code for the current student
+CREATE OR REPLACE FUNCTION redeem_course_invite(invite_code text)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  invite course_invites%ROWTYPE;
+  enrolled_rows integer;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = auth.uid() AND profiles.role = 'student'
+  ) THEN
+    RAISE EXCEPTION 'Only students can join courses with a code';
+  END IF;
+
+  SELECT * INTO invite
+  FROM course_invites
+  WHERE code = upper(trim(invite_code))
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invalid join code';
+  END IF;
+
+  IF invite.revoked_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This join code has been revoked';
+  END IF;
+
+  IF invite.expires_at IS NOT NULL AND invite.expires_at < now() THEN
+    RAISE EXCEPTION 'This join code has expired';
+  END IF;
+
+  IF invite.max_uses IS NOT NULL AND invite.use_count >= invite.max_uses THEN
+    RAISE EXCEPTION 'This join code has reached its maximum number of uses';
+  END IF;
+
+  INSERT INTO enrollments (course_id, student_id)
+  VALUES (invite.course_id, auth.uid())
+  ON CONFLICT (course_id, student_id) DO NOTHING;
+
+  GET DIAGNOSTICS enrolled_rows = ROW_COUNT;
+
+  -- Students who were already enrolled do not consume a use
+  IF enrolled_rows > 0 THEN
+    UPDATE course_invites
+    SET use_count = use_count + 1
+    WHERE id = invite.id;
+  END IF;
+
+  RETURN invite.course_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION redeem_course_invite(text) FROM public;
+GRANT EXECUTE ON FUNCTION redeem_course_invite(text) TO authenticated;
+
+-- Create indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_course_invites_course ON course_invites(course_id);
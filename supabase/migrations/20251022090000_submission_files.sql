@@ -0,0 +1,209 @@
+/*
+  # Submission File Attachments
+
+  ## Overview
+  Students can attach several files (PDF, DOCX, code archives, ...) to a submission. Files live in
+  the private `submission-files` storage bucket and are described by rows in `submission_files`.
+  Teachers set the accepted file types, maximum file size and maximum number of files per assignment.
+
+  ## 1. Modified Tables
+
+  ### `assignments`
+  - `allowed_file_types` (text[]) - Accepted file extensions, lower case without the dot
+  - `max_file_size_mb` (integer) - Maximum size of a single file in megabytes
+  - `max_files` (integer) - Maximum number of files per submission (0 disables uploads)
+
+  ## 2. New Tables
+
+  ### `submission_files`
+  - `id` (uuid, primary key) - Unique file identifier
+  - `submission_id` (uuid) - References submissions(id)
+  - `storage_path` (text, unique) - Object path in the `submission-files` bucket
+  - `file_name` (text) - Original file name as uploaded
+  - `mime_type` (text) - Content type reported by the browser
+  - `size_bytes` (bigint) - File size in bytes
+  - `uploaded_at` (timestamptz) - Upload timestamp
+
+  ## 3. Storage
+  - Private bucket `submission-files`
+  - Object paths follow `{assignment_id}/{student_id}/{random}-{file_name}` so policies can check
+    ownership from the path alone
+
+  ## 4. Security
+  - Submission files: students manage files on their own submissions, within the assignment's
+    type, size and count limits, and only for objects in their own folder of that assignment;
+    teachers can view files for their assignments
+  - Storage objects: students can only upload file types the assignment allows; only the owning
+    student and the assignment's teacher can download; students cannot delete the files of
+    graded work
+  - `size_bytes` is taken from the stored object, so the size limit applies to the real file
+
+  ## 5. Important Notes
+  - `submissions.file_url` is kept for compatibility but superseded by `submission_files`
+*/
+
+-- Per-assignment upload limits
+ALTER TABLE assignments
+  ADD COLUMN IF NOT EXISTS allowed_file_types text[] NOT NULL DEFAULT ARRAY['pdf', 'docx', 'zip'],
+  ADD COLUMN IF NOT EXISTS max_file_size_mb integer NOT NULL DEFAULT 10 CHECK (max_file_size_mb > 0 AND max_file_size_mb <= 50),
+  ADD COLUMN IF NOT EXISTS max_files integer NOT NULL DEFAULT 5 CHECK (max_files >= 0);
+
+-- Create submission_files table
+CREATE TABLE IF NOT EXISTS submission_files (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  submission_id uuid NOT NULL REFERENCES submissions(id) ON DELETE CASCADE,
+  storage_path text NOT NULL UNIQUE,
+  file_name text NOT NULL,
+  mime_type text NOT NULL DEFAULT 'application/octet-stream',
+  size_bytes bigint NOT NULL CHECK (size_bytes >= 0),
+  uploaded_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE submission_files ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Students can view own submission files"
+  ON submission_files FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM submissions
+      WHERE submissions.id = submission_files.submission_id
+      AND submissions.student_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Teachers can view submission files for their assignments"
+  ON submission_files FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM submissions s
+      JOIN assignments a ON a.id = s.assignment_id
+      WHERE s.id = submission_files.submission_id
+      AND a.teacher_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Students can attach files within assignment limits"
+  ON submission_files FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM submissions s
+      JOIN assignments a ON a.id = s.assignment_id
+      WHERE s.id = submission_files.submission_id
+      AND s.student_id = auth.uid()
+      AND s.status <> 'graded'
+      AND split_part(submission_files.storage_path, '/', 1) = s.assignment_id::text
+      AND split_part(submission_files.storage_path, '/', 2) = auth.uid()::text
+      AND submission_files.size_bytes <= a.max_file_size_mb::bigint * 1024 * 1024
+      AND lower(substring(submission_files.file_name FROM '\.([^.]+)$')) = ANY(a.allowed_file_types)
+      AND (
+        SELECT count(*) FROM submission_files existing
+        WHERE existing.submission_id = s.id
+      ) < a.max_files
+    )
+  );
+
+CREATE POLICY "Students can remove own submission files"
+  ON submission_files FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM submissions
+      WHERE submissions.id = submission_files.submission_id
+      AND submissions.student_id = auth.uid()
+      AND submissions.status <> 'graded'
+    )
+  );
+
+-- Private bucket for submission files
+INSERT INTO storage.buckets (id, name, public, file_size_limit)
+VALUES ('submission-files', 'submission-files', false, 52428800)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Students can upload to own submission folder"
+  ON storage.objects FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'submission-files' AND
+    (storage.foldername(name))[2] = auth.uid()::text AND
+    EXISTS (
+      SELECT 1 FROM assignments
+      WHERE assignments.id::text = (storage.foldername(name))[1]
+      AND is_enrolled(assignments.course_id, 'student')
+      AND lower(substring(name FROM '\.([^.]+)$')) = ANY(assignments.allowed_file_types)
+    )
+  );
+
+CREATE POLICY "Students can read own submission objects"
+  ON storage.objects FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'submission-files' AND
+    (storage.foldername(name))[2] = auth.uid()::text
+  );
+
+-- Files behind graded work stay; an object no row points to is a failed upload being cleaned up
+CREATE POLICY "Students can delete own submission objects"
+  ON storage.objects FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'submission-files' AND
+    (storage.foldername(name))[2] = auth.uid()::text AND
+    (
+      EXISTS (
+        SELECT 1 FROM submission_files sf
+        JOIN submissions s ON s.id = sf.submission_id
+        WHERE sf.storage_path = storage.objects.name
+        AND s.student_id = auth.uid()
+        AND s.status <> 'graded'
+      ) OR
+      NOT EXISTS (
+        SELECT 1 FROM submission_files sf
+        WHERE sf.storage_path = storage.objects.name
+      )
+    )
+  );
+
+CREATE POLICY "Teachers can read submission objects for their assignments"
+  ON storage.objects FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'submission-files' AND
+    EXISTS (
+      SELECT 1 FROM assignments
+      WHERE assignments.id::text = (storage.foldername(name))[1]
+      AND assignments.teacher_id = auth.uid()
+    )
+  );
+
+-- The size limit is checked against the stored object, not the size the client reports
+CREATE OR REPLACE FUNCTION set_submission_file_size()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  SELECT (metadata->>'size')::bigint INTO NEW.size_bytes
+  FROM storage.objects
+  WHERE bucket_id = 'submission-files'
+  AND name = NEW.storage_path;
+
+  IF NEW.size_bytes IS NULL THEN
+    RAISE EXCEPTION 'The file has not been uploaded'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_submission_file_size
+  BEFORE INSERT ON submission_files
+  FOR EACH ROW
+  EXECUTE FUNCTION set_submission_file_size();
+
+-- Create indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_submission_files_submission ON submission_files(submission_id);
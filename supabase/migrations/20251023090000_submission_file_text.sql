@@ -0,0 +1,76 @@
+/*
+  # Extracted Text for Submission Files
+
+  ## Overview
+  Uploaded attachments (PDF, DOCX, ODT, plain text) are converted to plain text so they take part
+  in plagiarism checks alongside `submissions.content`. Extraction runs on the teacher's side when a
+  check is started; the result is stored on the file row so each file is only extracted once.
+
+  ## 1. Modified Tables
+
+  ### `submission_files`
+  - `extracted_text` (text) - Plain text pulled from the file (NULL until extracted)
+  - `page_offsets` (integer[]) - Character offset in `extracted_text` where each page starts
+  - `extraction_status` (text) - 'pending', 'extracted', 'unsupported' or 'failed'
+  - `extracted_at` (timestamptz) - When extraction finished
+
+  ## 2. Security
+  - Students can no longer supply their own extracted text: new files must be inserted as 'pending'
+  - Teachers can update extraction results for files on their assignments
+*/
+
+ALTER TABLE submission_files
+  ADD COLUMN IF NOT EXISTS extracted_text text,
+  ADD COLUMN IF NOT EXISTS page_offsets integer[] NOT NULL DEFAULT ARRAY[0],
+  ADD COLUMN IF NOT EXISTS extraction_status text NOT NULL DEFAULT 'pending'
+    CHECK (extraction_status IN ('pending', 'extracted', 'unsupported', 'failed')),
+  ADD COLUMN IF NOT EXISTS extracted_at timestamptz;
+
+DROP POLICY IF EXISTS "Students can attach files within assignment limits" ON submission_files;
+
+CREATE POLICY "Students can attach files within assignment limits"
+  ON submission_files FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    submission_files.extraction_status = 'pending' AND
+    submission_files.extracted_text IS NULL AND
+    EXISTS (
+      SELECT 1 FROM submissions s
+      JOIN assignments a ON a.id = s.assignment_id
+      WHERE s.id = submission_files.submission_id
+      AND s.student_id = auth.uid()
+      AND s.status <> 'graded'
+      AND split_part(submission_files.storage_path, '/', 1) = s.assignment_id::text
+      AND split_part(submission_files.storage_path, '/', 2) = auth.uid()::text
+      AND submission_files.size_bytes <= a.max_file_size_mb::bigint * 1024 * 1024
+      AND lower(substring(submission_files.file_name FROM '\.([^.]+)$')) = ANY(a.allowed_file_types)
+      AND (
+        SELECT count(*) FROM submission_files existing
+        WHERE existing.submission_id = s.id
+      ) < a.max_files
+    )
+  );
+
+CREATE POLICY "Teachers can store extracted text for their assignments"
+  ON submission_files FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM submissions s
+      JOIN assignments a ON a.id = s.assignment_id
+      WHERE s.id = submission_files.submission_id
+      AND a.teacher_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM submissions s
+      JOIN assignments a ON a.id = s.assignment_id
+      WHERE s.id = submission_files.submission_id
+      AND a.teacher_id = auth.uid()
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_submission_files_pending
+  ON submission_files(submission_id)
+  WHERE extraction_status = 'pending';
@@ -0,0 +1,211 @@
+/*
+  # Persisted Fingerprint Index
+
+  ## Overview
+  Plagiarism checks used to download the full text of every submitted piece of work for the
+  assignment and compare it pairwise. Winnowed k-gram fingerprints are now stored once per
+  submission, and a check looks up the checked submission's hashes in the index instead.
+
+  ## 1. New Tables
+
+  ### `submission_fingerprints`
+  - `id` (bigint, primary key) - Row identifier
+  - `submission_id` (uuid) - References submissions(id)
+  - `hash` (bigint) - 32-bit k-gram hash selected by winnowing
+  - `token_index` (integer) - Position of the k-gram in the submission's token stream
+  - `start_offset` (integer) - Character offset where the k-gram starts, relative to its source
+  - `end_offset` (integer) - Character offset where the k-gram ends, relative to its source
+  - `file_id` (uuid) - References submission_files(id); NULL when the k-gram is in the typed content
+  - `page` (integer) - Page of the attachment the k-gram is on; NULL for typed content
+
+  ### `submission_fingerprint_state`
+  - `submission_id` (uuid, primary key) - References submissions(id)
+  - `params` (jsonb) - Fingerprint parameters (k, window size) the index was built with
+  - `indexed_at` (timestamptz) - When the fingerprints were written
+
+  ## 2. New Functions
+  - `invalidate_submission_fingerprints()` - Trigger that drops a submission's fingerprints when it
+    is submitted, its content changes, or its attachments change, so the next check re-indexes it
+  - `match_submission_fingerprints(query_hashes, target_assignment_ids, exclude_submission_id)` -
+    Returns index rows for submitted work in the given assignments that share any of the hashes
+
+  ## 3. Security
+  - Fingerprints and index state are written and read by the assignment's teacher only;
+    students cannot supply or alter fingerprints for their own work
+*/
+
+-- Create submission_fingerprints table
+CREATE TABLE IF NOT EXISTS submission_fingerprints (
+  id bigint GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  submission_id uuid NOT NULL REFERENCES submissions(id) ON DELETE CASCADE,
+  hash bigint NOT NULL,
+  token_index integer NOT NULL,
+  start_offset integer NOT NULL,
+  end_offset integer NOT NULL,
+  file_id uuid REFERENCES submission_files(id) ON DELETE CASCADE,
+  page integer
+);
+
+ALTER TABLE submission_fingerprints ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Teachers can view fingerprints for their assignments"
+  ON submission_fingerprints FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM submissions s
+      JOIN assignments a ON a.id = s.assignment_id
+      WHERE s.id = submission_fingerprints.submission_id
+      AND a.teacher_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Teachers can index submissions for their assignments"
+  ON submission_fingerprints FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM submissions s
+      JOIN assignments a ON a.id = s.assignment_id
+      WHERE s.id = submission_fingerprints.submission_id
+      AND a.teacher_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Teachers can clear fingerprints for their assignments"
+  ON submission_fingerprints FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM submissions s
+      JOIN assignments a ON a.id = s.assignment_id
+      WHERE s.id = submission_fingerprints.submission_id
+      AND a.teacher_id = auth.uid()
+    )
+  );
+
+-- Create submission_fingerprint_state table
+CREATE TABLE IF NOT EXISTS submission_fingerprint_state (
+  submission_id uuid PRIMARY KEY REFERENCES submissions(id) ON DELETE CASCADE,
+  params jsonb NOT NULL,
+  indexed_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE submission_fingerprint_state ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Teachers can view index state for their assignments"
+  ON submission_fingerprint_state FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM submissions s
+      JOIN assignments a ON a.id = s.assignment_id
+      WHERE s.id = submission_fingerprint_state.submission_id
+      AND a.teacher_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Teachers can record index state for their assignments"
+  ON submission_fingerprint_state FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM submissions s
+      JOIN assignments a ON a.id = s.assignment_id
+      WHERE s.id = submission_fingerprint_state.submission_id
+      AND a.teacher_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Teachers can update index state for their assignments"
+  ON submission_fingerprint_state FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM submissions s
+      JOIN assignments a ON a.id = s.assignment_id
+      WHERE s.id = submission_fingerprint_state.submission_id
+      AND a.teacher_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM submissions s
+      JOIN assignments a ON a.id = s.assignment_id
+      WHERE s.id = submission_fingerprint_state.submission_id
+      AND a.teacher_id = auth.uid()
+    )
+  );
+
+-- Drop stale fingerprints whenever the indexed text changes
+CREATE OR REPLACE FUNCTION invalidate_submission_fingerprints()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target_submission_id uuid;
+BEGIN
+  IF TG_TABLE_NAME = 'submissions' THEN
+    IF NEW.content IS NOT DISTINCT FROM OLD.content
+      AND NOT (NEW.status = 'submitted' AND OLD.status IS DISTINCT FROM 'submitted') THEN
+      RETURN NEW;
+    END IF;
+    target_submission_id := NEW.id;
+  ELSIF TG_OP = 'DELETE' THEN
+    target_submission_id := OLD.submission_id;
+  ELSE
+    target_submission_id := NEW.submission_id;
+  END IF;
+
+  DELETE FROM submission_fingerprints WHERE submission_id = target_submission_id;
+  DELETE FROM submission_fingerprint_state WHERE submission_id = target_submission_id;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+CREATE TRIGGER invalidate_fingerprints_on_submission_change
+  AFTER UPDATE OF content, status ON submissions
+  FOR EACH ROW
+  EXECUTE FUNCTION invalidate_submission_fingerprints();
+
+CREATE TRIGGER invalidate_fingerprints_on_file_change
+  AFTER INSERT OR DELETE OR UPDATE OF extracted_text ON submission_files
+  FOR EACH ROW
+  EXECUTE FUNCTION invalidate_submission_fingerprints();
+
+-- Candidate lookup for a plagiarism check
+CREATE OR REPLACE FUNCTION match_submission_fingerprints(
+  query_hashes bigint[],
+  target_assignment_ids uuid[],
+  exclude_submission_id uuid
+)
+RETURNS TABLE (
+  submission_id uuid,
+  hash bigint,
+  token_index integer,
+  start_offset integer,
+  end_offset integer,
+  file_id uuid,
+  file_name text,
+  page integer
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT f.submission_id, f.hash, f.token_index, f.start_offset, f.end_offset, f.file_id, sf.file_name, f.page
+  FROM submission_fingerprints f
+  JOIN submissions s ON s.id = f.submission_id
+  LEFT JOIN submission_files sf ON sf.id = f.file_id
+  WHERE f.hash = ANY(query_hashes)
+  AND s.assignment_id = ANY(target_assignment_ids)
+  AND s.id <> exclude_submission_id
+  AND s.status IN ('submitted', 'graded')
+  ORDER BY f.submission_id, f.token_index;
+$$;
+
+-- Create indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_submission_fingerprints_hash ON submission_fingerprints(hash);
+CREATE INDEX IF NOT EXISTS idx_submission_fingerprints_submission ON submission_fingerprints(submission_id);
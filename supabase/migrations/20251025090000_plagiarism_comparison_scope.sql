@@ -0,0 +1,59 @@
+/*
+  # Plagiarism Comparison Scope
+
+  ## Overview
+  Plagiarism checks were limited to other submissions for the same assignment. Teachers can now
+  widen a check to every assignment in the course, every assignment they teach, or a linked
+  previous offering of the assignment (for example the same essay set last term).
+
+  ## 1. Modified Tables
+
+  ### `assignments`
+  - `previous_assignment_id` (uuid) - References assignments(id); the earlier offering of this
+    assignment, if any. Offerings can be chained term after term.
+
+  ### `plagiarism_reports`
+  - `comparison_scope` (text) - Scope the check was run with: 'assignment', 'course', 'teacher'
+    or 'previous_offering'
+
+  ## 2. Security
+  - A previous offering must belong to the same teacher, so a scoped check never reaches
+    submissions the teacher could not already see
+*/
+
+-- Link assignments to their previous offering
+ALTER TABLE assignments
+  ADD COLUMN IF NOT EXISTS previous_assignment_id uuid REFERENCES assignments(id) ON DELETE SET NULL;
+
+ALTER TABLE assignments
+  ADD CONSTRAINT assignments_previous_assignment_not_self CHECK (previous_assignment_id <> id);
+
+CREATE OR REPLACE FUNCTION check_previous_assignment_owner()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.previous_assignment_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM assignments
+    WHERE id = NEW.previous_assignment_id
+    AND teacher_id = NEW.teacher_id
+  ) THEN
+    RAISE EXCEPTION 'Previous offering must be one of your own assignments';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_previous_assignment_owner
+  BEFORE INSERT OR UPDATE OF previous_assignment_id, teacher_id ON assignments
+  FOR EACH ROW
+  EXECUTE FUNCTION check_previous_assignment_owner();
+
+-- Record which scope produced each report
+ALTER TABLE plagiarism_reports
+  ADD COLUMN IF NOT EXISTS comparison_scope text NOT NULL DEFAULT 'assignment'
+    CHECK (comparison_scope IN ('assignment', 'course', 'teacher', 'previous_offering'));
+
+-- Create indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_assignments_previous ON assignments(previous_assignment_id);
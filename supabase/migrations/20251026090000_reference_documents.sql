@@ -0,0 +1,212 @@
+/*
+  # Reference Corpus
+
+  ## Overview
+  Teachers keep a library of known sources (model answers, textbook excerpts, essays found
+  online) that plagiarism checks compare against in addition to peer submissions. A document
+  belongs to one course or, when no course is set, to all of the teacher's courses.
+
+  ## 1. New Tables
+
+  ### `reference_documents`
+  - `id` (uuid, primary key) - Document identifier
+  - `teacher_id` (uuid) - References profiles(id); owner of the document
+  - `course_id` (uuid) - References courses(id); NULL means every course of the teacher
+  - `title` (text) - Title shown in plagiarism reports
+  - `tags` (text[]) - Free-form labels for organising the library
+  - `storage_path` (text, unique) - Object path in the `reference-documents` bucket; NULL for pasted text
+  - `file_name` (text) - Original name of the uploaded file
+  - `content` (text) - Plain text used for matching
+  - `page_offsets` (integer[]) - Start offset of each page within `content`
+  - `fingerprint_params` (jsonb) - Fingerprint parameters the document was indexed with; NULL until indexed
+  - `created_at` (timestamptz) - When the document was added
+
+  ### `reference_fingerprints`
+  - `id` (bigint, primary key) - Row identifier
+  - `reference_id` (uuid) - References reference_documents(id)
+  - `hash` (bigint) - 32-bit k-gram hash selected by winnowing
+  - `token_index` (integer) - Position of the k-gram in the document's token stream
+  - `start_offset` (integer) - Character offset where the k-gram starts
+  - `end_offset` (integer) - Character offset where the k-gram ends
+  - `page` (integer) - Page the k-gram is on
+
+  ## 2. Modified Tables
+
+  ### `plagiarism_reports`
+  - `compared_submission_id` is now nullable
+  - `compared_reference_id` (uuid) - References reference_documents(id); set instead of
+    `compared_submission_id` when the match is against a reference document
+
+  ## 3. New Functions
+  - `match_reference_fingerprints(query_hashes, target_reference_ids)` - Returns index rows for the
+    given reference documents that share any of the hashes
+
+  ## 4. Security
+  - Reference documents, their fingerprints and their files are private to the owning teacher
+  - Private bucket `reference-documents`; objects live under `{teacher_id}/`
+*/
+
+-- Create reference_documents table
+CREATE TABLE IF NOT EXISTS reference_documents (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  teacher_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  course_id uuid REFERENCES courses(id) ON DELETE CASCADE,
+  title text NOT NULL,
+  tags text[] NOT NULL DEFAULT '{}',
+  storage_path text UNIQUE,
+  file_name text,
+  content text NOT NULL DEFAULT '',
+  page_offsets integer[] NOT NULL DEFAULT '{0}',
+  fingerprint_params jsonb,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE reference_documents ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Teachers can view own reference documents"
+  ON reference_documents FOR SELECT
+  TO authenticated
+  USING (teacher_id = auth.uid());
+
+CREATE POLICY "Teachers can add reference documents"
+  ON reference_documents FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    teacher_id = auth.uid() AND
+    (
+      course_id IS NULL OR
+      EXISTS (
+        SELECT 1 FROM courses
+        WHERE courses.id = reference_documents.course_id
+        AND courses.teacher_id = auth.uid()
+      )
+    )
+  );
+
+CREATE POLICY "Teachers can update own reference documents"
+  ON reference_documents FOR UPDATE
+  TO authenticated
+  USING (teacher_id = auth.uid())
+  WITH CHECK (teacher_id = auth.uid());
+
+CREATE POLICY "Teachers can delete own reference documents"
+  ON reference_documents FOR DELETE
+  TO authenticated
+  USING (teacher_id = auth.uid());
+
+-- Create reference_fingerprints table
+CREATE TABLE IF NOT EXISTS reference_fingerprints (
+  id bigint GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  reference_id uuid NOT NULL REFERENCES reference_documents(id) ON DELETE CASCADE,
+  hash bigint NOT NULL,
+  token_index integer NOT NULL,
+  start_offset integer NOT NULL,
+  end_offset integer NOT NULL,
+  page integer NOT NULL DEFAULT 1
+);
+
+ALTER TABLE reference_fingerprints ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Teachers can view fingerprints of own reference documents"
+  ON reference_fingerprints FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM reference_documents
+      WHERE reference_documents.id = reference_fingerprints.reference_id
+      AND reference_documents.teacher_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Teachers can index own reference documents"
+  ON reference_fingerprints FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM reference_documents
+      WHERE reference_documents.id = reference_fingerprints.reference_id
+      AND reference_documents.teacher_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Teachers can clear fingerprints of own reference documents"
+  ON reference_fingerprints FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM reference_documents
+      WHERE reference_documents.id = reference_fingerprints.reference_id
+      AND reference_documents.teacher_id = auth.uid()
+    )
+  );
+
+-- Reports can now point at a reference document instead of another submission
+ALTER TABLE plagiarism_reports
+  ALTER COLUMN compared_submission_id DROP NOT NULL;
+
+ALTER TABLE plagiarism_reports
+  ADD COLUMN IF NOT EXISTS compared_reference_id uuid REFERENCES reference_documents(id) ON DELETE CASCADE;
+
+ALTER TABLE plagiarism_reports
+  ADD CONSTRAINT plagiarism_reports_single_source CHECK (
+    (compared_submission_id IS NULL) <> (compared_reference_id IS NULL)
+  );
+
+-- Candidate lookup for a plagiarism check
+CREATE OR REPLACE FUNCTION match_reference_fingerprints(
+  query_hashes bigint[],
+  target_reference_ids uuid[]
+)
+RETURNS TABLE (
+  reference_id uuid,
+  hash bigint,
+  token_index integer,
+  start_offset integer,
+  end_offset integer,
+  page integer
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT f.reference_id, f.hash, f.token_index, f.start_offset, f.end_offset, f.page
+  FROM reference_fingerprints f
+  WHERE f.hash = ANY(query_hashes)
+  AND f.reference_id = ANY(target_reference_ids)
+  ORDER BY f.reference_id, f.token_index;
+$$;
+
+-- Private bucket for reference document files
+INSERT INTO storage.buckets (id, name, public, file_size_limit)
+VALUES ('reference-documents', 'reference-documents', false, 52428800)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Teachers can upload to own reference folder"
+  ON storage.objects FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'reference-documents' AND
+    (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+CREATE POLICY "Teachers can read own reference objects"
+  ON storage.objects FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'reference-documents' AND
+    (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+CREATE POLICY "Teachers can delete own reference objects"
+  ON storage.objects FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'reference-documents' AND
+    (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+-- Create indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_reference_documents_teacher ON reference_documents(teacher_id);
+CREATE INDEX IF NOT EXISTS idx_reference_documents_course ON reference_documents(course_id);
+CREATE INDEX IF NOT EXISTS idx_reference_fingerprints_hash ON reference_fingerprints(hash);
+CREATE INDEX IF NOT EXISTS idx_reference_fingerprints_reference ON reference_fingerprints(reference_id);
+CREATE INDEX IF NOT EXISTS idx_plagiarism_compared_reference ON plagiarism_reports(compared_reference_id);
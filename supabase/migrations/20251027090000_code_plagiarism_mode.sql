@@ -0,0 +1,33 @@
+/*
+  # Source-Code Plagiarism Mode
+
+  ## Overview
+  Programming assignments can be checked as source code instead of prose. Code checks drop
+  comments and whitespace and replace identifiers and literals with placeholders before
+  fingerprinting, so copies with renamed variables are still detected.
+
+  ## 1. Modified Tables
+
+  ### `assignments`
+  - `check_mode` (text) - 'text' (default) or 'code'
+  - `code_language` (text) - 'javascript', 'typescript', 'python', 'java' or 'c'; required in code
+    mode and NULL otherwise
+
+  ## 2. Notes
+  - Fingerprints are indexed per tokenizer, so changing an assignment's mode or language
+    re-indexes its submissions on the next check
+  - Code checks only compare against other assignments with the same mode and language
+*/
+
+ALTER TABLE assignments
+  ADD COLUMN IF NOT EXISTS check_mode text NOT NULL DEFAULT 'text'
+    CHECK (check_mode IN ('text', 'code'));
+
+ALTER TABLE assignments
+  ADD COLUMN IF NOT EXISTS code_language text
+    CHECK (code_language IN ('javascript', 'typescript', 'python', 'java', 'c'));
+
+ALTER TABLE assignments
+  ADD CONSTRAINT assignments_code_language_matches_mode CHECK (
+    (check_mode = 'code') = (code_language IS NOT NULL)
+  );
@@ -0,0 +1,32 @@
+/*
+  # Plagiarism Exclusion Corpus
+
+  ## Overview
+  Text the teacher hands out (the assignment prompt, a quoted question, starter code) shows up in
+  every submission and should not count towards similarity. Teachers can mark the description
+  and an optional starter file as an exclusion corpus; passages matching it are stripped before
+  scoring and shown greyed out in the report.
+
+  ## 1. Modified Tables
+
+  ### `assignments`
+  - `exclude_description` (boolean) - Whether the description is part of the exclusion corpus
+  - `starter_file_name` (text) - Name of the uploaded starter file, if any
+  - `starter_text` (text) - Text of the starter file; always part of the exclusion corpus
+
+  ### `plagiarism_reports`
+  - `excluded_content` (jsonb) - Spans of the checked submission that matched the exclusion
+    corpus and were left out of the score
+*/
+
+ALTER TABLE assignments
+  ADD COLUMN IF NOT EXISTS exclude_description boolean NOT NULL DEFAULT false;
+
+ALTER TABLE assignments
+  ADD COLUMN IF NOT EXISTS starter_file_name text;
+
+ALTER TABLE assignments
+  ADD COLUMN IF NOT EXISTS starter_text text;
+
+ALTER TABLE plagiarism_reports
+  ADD COLUMN IF NOT EXISTS excluded_content jsonb NOT NULL DEFAULT '[]'::jsonb;
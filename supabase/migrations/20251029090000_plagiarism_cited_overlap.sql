@@ -0,0 +1,18 @@
+/*
+  # Cited Overlap in Plagiarism Reports
+
+  ## Overview
+  Quoted passages that are attributed with a citation (APA/MLA parentheticals, narrative
+  citations, numbered references) are legitimate use. Reports now record how much of the
+  overlap falls inside such cited quotations, so it can be shown apart from uncited overlap.
+
+  ## 1. Modified Tables
+
+  ### `plagiarism_reports`
+  - `cited_score` (decimal) - Percentage of the submission that matches the compared source
+    inside cited quotations; always at most `similarity_score`
+*/
+
+ALTER TABLE plagiarism_reports
+  ADD COLUMN IF NOT EXISTS cited_score decimal NOT NULL DEFAULT 0
+    CHECK (cited_score >= 0 AND cited_score <= similarity_score);
@@ -0,0 +1,259 @@
+/*
+  # Automatic Plagiarism Checks
+
+  ## Overview
+  Teachers had to run a plagiarism check by hand for every submission. A check is now queued as
+  a background job whenever a submission is turned in (or its submitted work changes), and the
+  `plagiarism-worker` edge function processes the queue. Every new submission also re-queues the
+  other submitted work for the same assignment, since its arrival can change their scores.
+
+  ## 1. New Tables
+
+  ### `plagiarism_jobs`
+  - `id` (uuid, primary key) - Job identifier
+  - `submission_id` (uuid) - References submissions(id); the submission to check
+  - `reason` (text) - 'submitted' when the submission itself changed, 'recheck' when another
+    submission for the assignment arrived
+  - `status` (text) - 'queued', 'running', 'completed' or 'failed'
+  - `attempts` (integer) - How many times a worker has picked the job up
+  - `error` (text) - Message of the last failed attempt
+  - `created_at` (timestamptz) - When the job was queued
+  - `started_at` (timestamptz) - When the last attempt started
+  - `finished_at` (timestamptz) - When the job completed or last failed
+
+  ## 2. Modified Tables
+
+  ### `submissions`
+  - `plagiarism_status` (text) - 'not_checked', 'queued', 'running', 'completed' or 'failed'
+  - `plagiarism_checked_at` (timestamptz) - When the last check completed
+
+  ## 3. New Functions
+  - `queue_plagiarism_check(target_submission_id)` - Queues a check of the submission and a
+    re-check of the other submitted work for its assignment
+  - `claim_plagiarism_jobs(max_jobs)` - Marks up to `max_jobs` queued jobs as running and returns
+    them; also reclaims jobs whose worker died and retries failed jobs up to three attempts
+  - `dispatch_plagiarism_worker()` - Calls the worker over HTTP (pg_net) when jobs are queued
+
+  ## 4. Configuration
+  The worker is only called when both settings are present, for example against a local stack:
+    ALTER DATABASE postgres SET app.settings.plagiarism_worker_url =
+      'http://kong:8000/functions/v1/plagiarism-worker';
+    ALTER DATABASE postgres SET app.settings.service_role_key = '<service role key>';
+  Without them, jobs stay queued until the function is invoked some other way.
+
+  ## 5. Security
+  - Jobs are created by triggers and processed with the service role; teachers can only read the
+    jobs of their own assignments, and students cannot see jobs at all
+  - Students cannot change the plagiarism status of their own submissions
+  - Teachers can delete reports for their assignments, so a new check replaces the previous one
+*/
+
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+-- Check status on submissions
+ALTER TABLE submissions
+  ADD COLUMN IF NOT EXISTS plagiarism_status text NOT NULL DEFAULT 'not_checked'
+    CHECK (plagiarism_status IN ('not_checked', 'queued', 'running', 'completed', 'failed'));
+
+ALTER TABLE submissions
+  ADD COLUMN IF NOT EXISTS plagiarism_checked_at timestamptz;
+
+-- Create plagiarism_jobs table
+CREATE TABLE IF NOT EXISTS plagiarism_jobs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  submission_id uuid NOT NULL REFERENCES submissions(id) ON DELETE CASCADE,
+  reason text NOT NULL DEFAULT 'submitted' CHECK (reason IN ('submitted', 'recheck')),
+  status text NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'completed', 'failed')),
+  attempts integer NOT NULL DEFAULT 0,
+  error text,
+  created_at timestamptz DEFAULT now(),
+  started_at timestamptz,
+  finished_at timestamptz
+);
+
+ALTER TABLE plagiarism_jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Teachers can view plagiarism jobs for their assignments"
+  ON plagiarism_jobs FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM submissions s
+      JOIN assignments a ON a.id = s.assignment_id
+      WHERE s.id = plagiarism_jobs.submission_id
+      AND a.teacher_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Teachers can delete plagiarism reports for their assignments"
+  ON plagiarism_reports FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM submissions s
+      JOIN assignments a ON a.id = s.assignment_id
+      WHERE s.id = plagiarism_reports.submission_id
+      AND a.teacher_id = auth.uid()
+    )
+  );
+
+-- Queue a check of one submission and a re-check of its assignment's other submitted work
+CREATE OR REPLACE FUNCTION queue_plagiarism_check(target_submission_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target_assignment_id uuid;
+BEGIN
+  SELECT assignment_id INTO target_assignment_id
+  FROM submissions
+  WHERE id = target_submission_id;
+
+  INSERT INTO plagiarism_jobs (submission_id, reason)
+  SELECT s.id, CASE WHEN s.id = target_submission_id THEN 'submitted' ELSE 'recheck' END
+  FROM submissions s
+  WHERE s.assignment_id = target_assignment_id
+  AND (s.id = target_submission_id OR s.status IN ('submitted', 'graded'))
+  ON CONFLICT (submission_id) WHERE status = 'queued' DO NOTHING;
+
+  UPDATE submissions
+  SET plagiarism_status = 'queued'
+  WHERE assignment_id = target_assignment_id
+  AND (id = target_submission_id OR status IN ('submitted', 'graded'))
+  AND plagiarism_status <> 'queued';
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION queue_plagiarism_check(uuid) FROM PUBLIC, anon, authenticated;
+
+-- Students cannot set their own check status; only checks, the worker and teachers can
+CREATE OR REPLACE FUNCTION protect_plagiarism_status()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF current_user = 'authenticated' AND auth.uid() = NEW.student_id THEN
+    IF TG_OP = 'INSERT' THEN
+      NEW.plagiarism_status := 'not_checked';
+      NEW.plagiarism_checked_at := NULL;
+    ELSE
+      NEW.plagiarism_status := OLD.plagiarism_status;
+      NEW.plagiarism_checked_at := OLD.plagiarism_checked_at;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_plagiarism_status
+  BEFORE INSERT OR UPDATE ON submissions
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_plagiarism_status();
+
+-- Queue a check when work is turned in, when submitted work changes, or when a file is attached to it
+CREATE OR REPLACE FUNCTION queue_plagiarism_check_on_submit()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_TABLE_NAME = 'submissions' THEN
+    IF NEW.status = 'submitted' AND (
+      TG_OP = 'INSERT' OR
+      OLD.status IS DISTINCT FROM 'submitted' OR
+      NEW.content IS DISTINCT FROM OLD.content
+    ) THEN
+      PERFORM queue_plagiarism_check(NEW.id);
+    END IF;
+  ELSIF EXISTS (
+    SELECT 1 FROM submissions
+    WHERE id = NEW.submission_id
+    AND status = 'submitted'
+  ) THEN
+    PERFORM queue_plagiarism_check(NEW.submission_id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER queue_plagiarism_check_on_submit
+  AFTER INSERT OR UPDATE OF status, content ON submissions
+  FOR EACH ROW
+  EXECUTE FUNCTION queue_plagiarism_check_on_submit();
+
+CREATE TRIGGER queue_plagiarism_check_on_file_upload
+  AFTER INSERT ON submission_files
+  FOR EACH ROW
+  EXECUTE FUNCTION queue_plagiarism_check_on_submit();
+
+-- Hand out queued jobs to a worker
+CREATE OR REPLACE FUNCTION claim_plagiarism_jobs(max_jobs integer DEFAULT 5)
+RETURNS SETOF plagiarism_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE plagiarism_jobs j
+  SET status = 'running',
+      attempts = j.attempts + 1,
+      started_at = now(),
+      error = NULL
+  WHERE j.id IN (
+    SELECT id FROM plagiarism_jobs
+    WHERE status = 'queued'
+    -- A worker that stopped mid-check leaves its job running
+    OR (status = 'running' AND started_at < now() - interval '15 minutes' AND attempts < 3)
+    OR (status = 'failed' AND attempts < 3 AND finished_at < now() - interval '5 minutes')
+    ORDER BY created_at
+    LIMIT max_jobs
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING j.*;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION claim_plagiarism_jobs(integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_plagiarism_jobs(integer) TO service_role;
+
+-- Wake the worker up when jobs are queued
+CREATE OR REPLACE FUNCTION dispatch_plagiarism_worker()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  worker_url text := current_setting('app.settings.plagiarism_worker_url', true);
+  service_role_key text := current_setting('app.settings.service_role_key', true);
+BEGIN
+  IF coalesce(worker_url, '') <> '' AND coalesce(service_role_key, '') <> '' THEN
+    PERFORM net.http_post(
+      url := worker_url,
+      headers := jsonb_build_object(
+        'Content-Type', 'application/json',
+        'Authorization', 'Bearer ' || service_role_key
+      ),
+      body := '{}'::jsonb
+    );
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER dispatch_plagiarism_worker
+  AFTER INSERT ON plagiarism_jobs
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION dispatch_plagiarism_worker();
+
+-- Create indexes for better query performance
+CREATE UNIQUE INDEX IF NOT EXISTS idx_plagiarism_jobs_queued ON plagiarism_jobs(submission_id) WHERE status = 'queued';
+CREATE INDEX IF NOT EXISTS idx_plagiarism_jobs_status ON plagiarism_jobs(status, created_at);
+CREATE INDEX IF NOT EXISTS idx_plagiarism_jobs_submission ON plagiarism_jobs(submission_id);
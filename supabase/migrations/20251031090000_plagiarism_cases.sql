@@ -0,0 +1,195 @@
+/*
+  # Plagiarism Case Review
+
+  ## Overview
+  A plagiarism report was only a score, with no record of what the teacher decided about it.
+  Every matched source of a submission now has a case that the teacher reviews: it starts as
+  pending and can be dismissed as a false positive, confirmed, or escalated. Each decision is
+  logged with the reviewer, a note and a timestamp. Cases are kept per pair rather than per
+  report row, so they survive re-running the check, and a dismissed pair is not reported again.
+
+  ## 1. New Tables
+
+  ### `plagiarism_cases`
+  - `id` (uuid, primary key) - Case identifier
+  - `submission_id` (uuid) - References submissions(id); the checked submission
+  - `compared_submission_id` (uuid) - References submissions(id); the matched submission, if any
+  - `compared_reference_id` (uuid) - References reference_documents(id); the matched reference, if any
+  - `status` (text) - 'pending', 'dismissed', 'confirmed' or 'escalated'
+  - `reviewed_by` (uuid) - References profiles(id); who made the latest decision
+  - `reviewed_at` (timestamptz) - When the latest decision was made
+  - `created_at` (timestamptz) - When the pair was first reported
+
+  ### `plagiarism_case_events`
+  - `id` (uuid, primary key) - Event identifier
+  - `case_id` (uuid) - References plagiarism_cases(id)
+  - `actor_id` (uuid) - References profiles(id); the reviewer
+  - `from_status` (text) - Status before the decision
+  - `to_status` (text) - Status after the decision
+  - `note` (text) - The reviewer's note
+  - `created_at` (timestamptz) - When the decision was made
+
+  ## 2. Modified Tables
+
+  ### `plagiarism_reports`
+  - `case_id` (uuid) - References plagiarism_cases(id); the case the report belongs to
+
+  ## 3. New Functions
+  - `review_plagiarism_case(target_case_id, new_status, review_note)` - Changes a case's status and
+    records the decision in `plagiarism_case_events`
+
+  ## 4. Security
+  - Cases and their history are visible to, and reviewed by, the assignment's teacher only
+  - The history is append-only
+*/
+
+-- Create plagiarism_cases table
+CREATE TABLE IF NOT EXISTS plagiarism_cases (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  submission_id uuid NOT NULL REFERENCES submissions(id) ON DELETE CASCADE,
+  compared_submission_id uuid REFERENCES submissions(id) ON DELETE CASCADE,
+  compared_reference_id uuid REFERENCES reference_documents(id) ON DELETE CASCADE,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'dismissed', 'confirmed', 'escalated')),
+  reviewed_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  reviewed_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT plagiarism_cases_single_source CHECK (
+    (compared_submission_id IS NULL) <> (compared_reference_id IS NULL)
+  ),
+  CONSTRAINT plagiarism_cases_unique_pair UNIQUE NULLS NOT DISTINCT (
+    submission_id, compared_submission_id, compared_reference_id
+  )
+);
+
+ALTER TABLE plagiarism_cases ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Teachers can view plagiarism cases for their assignments"
+  ON plagiarism_cases FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM submissions s
+      JOIN assignments a ON a.id = s.assignment_id
+      WHERE s.id = plagiarism_cases.submission_id
+      AND a.teacher_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Teachers can open plagiarism cases for their assignments"
+  ON plagiarism_cases FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM submissions s
+      JOIN assignments a ON a.id = s.assignment_id
+      WHERE s.id = plagiarism_cases.submission_id
+      AND a.teacher_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Teachers can review plagiarism cases for their assignments"
+  ON plagiarism_cases FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM submissions s
+      JOIN assignments a ON a.id = s.assignment_id
+      WHERE s.id = plagiarism_cases.submission_id
+      AND a.teacher_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM submissions s
+      JOIN assignments a ON a.id = s.assignment_id
+      WHERE s.id = plagiarism_cases.submission_id
+      AND a.teacher_id = auth.uid()
+    )
+  );
+
+-- Create plagiarism_case_events table
+CREATE TABLE IF NOT EXISTS plagiarism_case_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  case_id uuid NOT NULL REFERENCES plagiarism_cases(id) ON DELETE CASCADE,
+  actor_id uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  from_status text NOT NULL,
+  to_status text NOT NULL,
+  note text NOT NULL DEFAULT '',
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE plagiarism_case_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Teachers can view case history for their assignments"
+  ON plagiarism_case_events FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM plagiarism_cases c
+      JOIN submissions s ON s.id = c.submission_id
+      JOIN assignments a ON a.id = s.assignment_id
+      WHERE c.id = plagiarism_case_events.case_id
+      AND a.teacher_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Teachers can record case decisions for their assignments"
+  ON plagiarism_case_events FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    actor_id = auth.uid() AND
+    EXISTS (
+      SELECT 1 FROM plagiarism_cases c
+      JOIN submissions s ON s.id = c.submission_id
+      JOIN assignments a ON a.id = s.assignment_id
+      WHERE c.id = plagiarism_case_events.case_id
+      AND a.teacher_id = auth.uid()
+    )
+  );
+
+-- Link reports to their case
+ALTER TABLE plagiarism_reports
+  ADD COLUMN IF NOT EXISTS case_id uuid REFERENCES plagiarism_cases(id) ON DELETE SET NULL;
+
+-- Change a case's status and log the decision in one step
+CREATE OR REPLACE FUNCTION review_plagiarism_case(
+  target_case_id uuid,
+  new_status text,
+  review_note text DEFAULT ''
+)
+RETURNS plagiarism_cases
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  previous_status text;
+  reviewed plagiarism_cases;
+BEGIN
+  SELECT status INTO previous_status
+  FROM plagiarism_cases
+  WHERE id = target_case_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Case not found';
+  END IF;
+
+  UPDATE plagiarism_cases
+  SET status = new_status,
+      reviewed_by = auth.uid(),
+      reviewed_at = now()
+  WHERE id = target_case_id
+  RETURNING * INTO reviewed;
+
+  INSERT INTO plagiarism_case_events (case_id, actor_id, from_status, to_status, note)
+  VALUES (target_case_id, auth.uid(), previous_status, new_status, coalesce(review_note, ''));
+
+  RETURN reviewed;
+END;
+$$;
+
+-- Create indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_plagiarism_cases_submission ON plagiarism_cases(submission_id);
+CREATE INDEX IF NOT EXISTS idx_plagiarism_cases_compared ON plagiarism_cases(compared_submission_id);
+CREATE INDEX IF NOT EXISTS idx_plagiarism_cases_status ON plagiarism_cases(status);
+CREATE INDEX IF NOT EXISTS idx_plagiarism_case_events_case ON plagiarism_case_events(case_id);
+CREATE INDEX IF NOT EXISTS idx_plagiarism_reports_case ON plagiarism_reports(case_id);
@@ -0,0 +1,128 @@
+/*
+  # Plagiarism Check Runs
+
+  ## Overview
+  Re-running a check used to replace the earlier reports, so there was no way to see how a
+  submission's results changed when the algorithm, its parameters or the compared work changed.
+  Every check is now recorded as a run holding the algorithm version, the parameters it used and
+  its overall scores. Reports belong to a run and are kept; the latest run is the current result.
+
+  ## 1. New Tables
+
+  ### `plagiarism_runs`
+  - `id` (uuid, primary key) - Run identifier
+  - `submission_id` (uuid) - References submissions(id); the checked submission
+  - `comparison_scope` (text) - The scope the run compared against
+  - `algorithm_version` (text) - Version of the matching algorithm that produced the run
+  - `parameters` (jsonb) - Fingerprint, tokenizer and exclusion settings the run used
+  - `overall_similarity` (numeric) - Share of the submission matching any source
+  - `cited_overlap` (numeric) - Share of the submission matching inside cited quotations
+  - `created_at` (timestamptz) - When the run started
+
+  ## 2. Modified Tables
+
+  ### `plagiarism_reports`
+  - `run_id` (uuid) - References plagiarism_runs(id); the run that produced the report
+
+  ## 3. Data
+  - Existing reports are grouped into one 'legacy' run per submission and scope, keeping only
+    the newest report for each matched source
+
+  ## 4. Security
+  - Teachers can view the runs of their assignments' submissions and start new ones
+  - Reports are no longer deleted, so teachers lose the delete policy on `plagiarism_reports`
+*/
+
+-- Create plagiarism_runs table
+CREATE TABLE IF NOT EXISTS plagiarism_runs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  submission_id uuid NOT NULL REFERENCES submissions(id) ON DELETE CASCADE,
+  comparison_scope text NOT NULL DEFAULT 'assignment' CHECK (comparison_scope IN ('assignment', 'course', 'teacher', 'previous_offering')),
+  algorithm_version text NOT NULL,
+  parameters jsonb NOT NULL DEFAULT '{}'::jsonb,
+  overall_similarity numeric NOT NULL DEFAULT 0,
+  cited_overlap numeric NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE plagiarism_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Teachers can view plagiarism runs for their assignments"
+  ON plagiarism_runs FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM submissions s
+      JOIN assignments a ON a.id = s.assignment_id
+      WHERE s.id = plagiarism_runs.submission_id
+      AND a.teacher_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Teachers can start plagiarism runs for their assignments"
+  ON plagiarism_runs FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM submissions s
+      JOIN assignments a ON a.id = s.assignment_id
+      WHERE s.id = plagiarism_runs.submission_id
+      AND a.teacher_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Teachers can record plagiarism run results for their assignments"
+  ON plagiarism_runs FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM submissions s
+      JOIN assignments a ON a.id = s.assignment_id
+      WHERE s.id = plagiarism_runs.submission_id
+      AND a.teacher_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM submissions s
+      JOIN assignments a ON a.id = s.assignment_id
+      WHERE s.id = plagiarism_runs.submission_id
+      AND a.teacher_id = auth.uid()
+    )
+  );
+
+-- Attach reports to the run that produced them
+ALTER TABLE plagiarism_reports
+  ADD COLUMN IF NOT EXISTS run_id uuid REFERENCES plagiarism_runs(id) ON DELETE CASCADE;
+
+-- Older checks could leave several reports for one source; keep the newest of each
+DELETE FROM plagiarism_reports r
+USING plagiarism_reports newer
+WHERE r.run_id IS NULL
+  AND newer.run_id IS NULL
+  AND newer.submission_id = r.submission_id
+  AND newer.comparison_scope = r.comparison_scope
+  AND newer.compared_submission_id IS NOT DISTINCT FROM r.compared_submission_id
+  AND newer.compared_reference_id IS NOT DISTINCT FROM r.compared_reference_id
+  AND (newer.created_at, newer.id) > (r.created_at, r.id);
+
+INSERT INTO plagiarism_runs (submission_id, comparison_scope, algorithm_version, overall_similarity, cited_overlap, created_at)
+SELECT submission_id, comparison_scope, 'legacy', max(similarity_score), max(cited_score), max(created_at)
+FROM plagiarism_reports
+WHERE run_id IS NULL
+GROUP BY submission_id, comparison_scope;
+
+UPDATE plagiarism_reports r
+SET run_id = run.id
+FROM plagiarism_runs run
+WHERE r.run_id IS NULL
+  AND run.algorithm_version = 'legacy'
+  AND run.submission_id = r.submission_id
+  AND run.comparison_scope = r.comparison_scope;
+
+-- Reports are history now
+DROP POLICY IF EXISTS "Teachers can delete plagiarism reports for their assignments" ON plagiarism_reports;
+
+-- Create indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_plagiarism_runs_submission ON plagiarism_runs(submission_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_plagiarism_reports_run ON plagiarism_reports(run_id);
@@ -0,0 +1,121 @@
+/*
+  # Plagiarism Settings
+
+  ## Overview
+  The minimum match length, the gap allowed inside a match, the score at which a match is
+  flagged for review and the severity bands used to color scores were fixed in code. Teachers
+  can now set them for a course and override them for a single assignment. Every setting is
+  optional: an unset value falls back to the course's setting, then to the built-in default.
+
+  ## 1. New Tables
+
+  ### `plagiarism_settings`
+  - `id` (uuid, primary key) - Settings identifier
+  - `course_id` (uuid) - References courses(id); set for course-wide settings
+  - `assignment_id` (uuid) - References assignments(id); set for an assignment's overrides
+  - `min_match_tokens` (integer) - Passages shorter than this many words or code tokens are ignored
+  - `max_gap_tokens` (integer) - Unmatched tokens allowed inside one passage
+  - `flag_score` (numeric) - Uncited overlap, in percent, at which a matched source is flagged for review
+  - `moderate_score` (numeric) - Uncited overlap at which severity becomes moderate
+  - `high_score` (numeric) - Uncited overlap at which severity becomes high
+  - `very_high_score` (numeric) - Uncited overlap at which severity becomes very high
+  - `updated_at` (timestamptz) - When the settings were last changed
+
+  ## 2. Security
+  - Teachers can view and manage the settings of their own courses and assignments
+*/
+
+-- Create plagiarism_settings table
+CREATE TABLE IF NOT EXISTS plagiarism_settings (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  course_id uuid UNIQUE REFERENCES courses(id) ON DELETE CASCADE,
+  assignment_id uuid UNIQUE REFERENCES assignments(id) ON DELETE CASCADE,
+  min_match_tokens integer CHECK (min_match_tokens > 0),
+  max_gap_tokens integer CHECK (max_gap_tokens >= 0),
+  flag_score numeric CHECK (flag_score BETWEEN 0 AND 100),
+  moderate_score numeric CHECK (moderate_score BETWEEN 0 AND 100),
+  high_score numeric CHECK (high_score BETWEEN 0 AND 100),
+  very_high_score numeric CHECK (very_high_score BETWEEN 0 AND 100),
+  updated_at timestamptz DEFAULT now(),
+  CONSTRAINT plagiarism_settings_single_target CHECK (
+    (course_id IS NULL) <> (assignment_id IS NULL)
+  )
+);
+
+ALTER TABLE plagiarism_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Teachers can view plagiarism settings for their courses"
+  ON plagiarism_settings FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM courses
+      WHERE courses.id = plagiarism_settings.course_id
+      AND courses.teacher_id = auth.uid()
+    ) OR
+    EXISTS (
+      SELECT 1 FROM assignments
+      WHERE assignments.id = plagiarism_settings.assignment_id
+      AND assignments.teacher_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Teachers can create plagiarism settings for their courses"
+  ON plagiarism_settings FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM courses
+      WHERE courses.id = plagiarism_settings.course_id
+      AND courses.teacher_id = auth.uid()
+    ) OR
+    EXISTS (
+      SELECT 1 FROM assignments
+      WHERE assignments.id = plagiarism_settings.assignment_id
+      AND assignments.teacher_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Teachers can update plagiarism settings for their courses"
+  ON plagiarism_settings FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM courses
+      WHERE courses.id = plagiarism_settings.course_id
+      AND courses.teacher_id = auth.uid()
+    ) OR
+    EXISTS (
+      SELECT 1 FROM assignments
+      WHERE assignments.id = plagiarism_settings.assignment_id
+      AND assignments.teacher_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM courses
+      WHERE courses.id = plagiarism_settings.course_id
+      AND courses.teacher_id = auth.uid()
+    ) OR
+    EXISTS (
+      SELECT 1 FROM assignments
+      WHERE assignments.id = plagiarism_settings.assignment_id
+      AND assignments.teacher_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Teachers can delete plagiarism settings for their courses"
+  ON plagiarism_settings FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM courses
+      WHERE courses.id = plagiarism_settings.course_id
+      AND courses.teacher_id = auth.uid()
+    ) OR
+    EXISTS (
+      SELECT 1 FROM assignments
+      WHERE assignments.id = plagiarism_settings.assignment_id
+      AND assignments.teacher_id = auth.uid()
+    )
+  );
@@ -0,0 +1,33 @@
+/*
+  # Assignment Text Language
+
+  ## Overview
+  Prose checks used to split text on ASCII word characters only, so Bengali, Arabic, Cyrillic
+  and accented text lost most or all of its words before comparison. Text is now split into
+  words of any script and NFKC-normalized. An assignment can also name the language it is
+  written in, which enables that language's spelling folds and, optionally, ignoring common
+  stop words and matching words by their stem.
+
+  ## 1. Modified Tables
+
+  ### `assignments`
+  - `language` (text) - 'auto' (default; any script, no language-specific processing), 'en',
+    'es', 'fr', 'de', 'pt', 'ru', 'ar' or 'bn'
+  - `ignore_stop_words` (boolean) - Leave the language's most common words out of matching
+  - `stem_words` (boolean) - Match words by their stem, so changed inflections still match
+
+  ## 2. Notes
+  - Fingerprints are indexed per tokenizer, so existing text submissions are re-indexed with the
+    new tokenizer on their next check
+  - Text checks only compare against other assignments with the same language settings
+*/
+
+ALTER TABLE assignments
+  ADD COLUMN IF NOT EXISTS language text NOT NULL DEFAULT 'auto'
+    CHECK (language IN ('auto', 'en', 'es', 'fr', 'de', 'pt', 'ru', 'ar', 'bn'));
+
+ALTER TABLE assignments
+  ADD COLUMN IF NOT EXISTS ignore_stop_words boolean NOT NULL DEFAULT false;
+
+ALTER TABLE assignments
+  ADD COLUMN IF NOT EXISTS stem_words boolean NOT NULL DEFAULT false;
@@ -0,0 +1,27 @@
+/*
+  # Paraphrase Detection
+
+  ## Overview
+  Fingerprinting only finds word-for-word passages, so swapping words for synonyms or
+  reordering clauses hid copied text. Prose checks now also compare windows of the text by
+  the similarity of their canonical words (stems, with common synonyms merged) and record the
+  likely paraphrased passages in a report, separately from the verbatim matches.
+
+  ## 1. Modified Tables
+
+  ### `plagiarism_reports`
+  - `paraphrase_score` (numeric) - Percentage of the submission likely paraphrased from the
+    compared source, not counting text that also matched verbatim
+  - `paraphrased_content` (jsonb) - Likely paraphrased passages, with their similarity and the
+    matching span of the compared source
+
+  ## 2. Notes
+  - A report can now have paraphrased passages and no verbatim matches
+  - Reports from earlier runs keep a paraphrase score of 0
+*/
+
+ALTER TABLE plagiarism_reports
+  ADD COLUMN IF NOT EXISTS paraphrase_score numeric NOT NULL DEFAULT 0;
+
+ALTER TABLE plagiarism_reports
+  ADD COLUMN IF NOT EXISTS paraphrased_content jsonb NOT NULL DEFAULT '[]'::jsonb;
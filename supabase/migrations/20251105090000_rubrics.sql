@@ -0,0 +1,162 @@
+/*
+  # Rubrics
+
+  ## Overview
+  Grading used to be a single score and free-text feedback. Teachers can now keep a library of
+  rubrics (criteria, each with performance levels worth a number of points) and attach one to
+  any of their assignments, in any course. Grading with a rubric means picking a level and
+  writing an optional comment per criterion; the points add up to the submission's score.
+  Students see the filled rubric once their submission is graded.
+
+  ## 1. New Tables
+
+  ### `rubrics`
+  - `id` (uuid, primary key) - Rubric identifier
+  - `teacher_id` (uuid) - References profiles(id); owner of the rubric
+  - `title` (text) - Name shown when picking a rubric
+  - `description` (text) - Optional notes on when to use the rubric
+  - `criteria` (jsonb) - Ordered criteria: `{ id, title, description, levels }`, where each
+    level is `{ id, title, description, points }`
+  - `created_at` (timestamptz) - When the rubric was created
+  - `updated_at` (timestamptz) - When the rubric was last changed
+
+  ### `rubric_assessments`
+  - `id` (uuid, primary key) - Assessment identifier
+  - `submission_id` (uuid, unique) - References submissions(id); the graded submission
+  - `rubric_id` (uuid) - References rubrics(id); the rubric graded with, NULL once it is deleted
+  - `criteria` (jsonb) - The rubric's criteria as they were when the submission was graded
+  - `scores` (jsonb) - Per criterion: `{ criterionId, levelId, points, comment }`
+  - `total_points` (numeric) - Sum of the points of the chosen levels
+  - `max_points` (numeric) - Highest total the rubric allowed
+  - `graded_by` (uuid) - References profiles(id); who last graded the submission
+  - `updated_at` (timestamptz) - When the assessment was last saved
+
+  ## 2. Modified Tables
+
+  ### `assignments`
+  - `rubric_id` (uuid) - References rubrics(id); the rubric submissions are graded with, if any
+
+  ## 3. Security
+  - Rubrics are private to the owning teacher
+  - Teachers can view and save assessments of submissions to their own assignments
+  - Students can view the assessment of their own submission once it is graded
+
+  ## 4. Notes
+  - An assessment keeps a copy of the criteria it was graded against, so later edits to a shared
+    rubric do not change grades that were already given
+*/
+
+-- Create rubrics table
+CREATE TABLE IF NOT EXISTS rubrics (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  teacher_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  title text NOT NULL,
+  description text NOT NULL DEFAULT '',
+  criteria jsonb NOT NULL DEFAULT '[]'::jsonb,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE rubrics ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Teachers can view own rubrics"
+  ON rubrics FOR SELECT
+  TO authenticated
+  USING (teacher_id = auth.uid());
+
+CREATE POLICY "Teachers can create rubrics"
+  ON rubrics FOR INSERT
+  TO authenticated
+  WITH CHECK (teacher_id = auth.uid());
+
+CREATE POLICY "Teachers can update own rubrics"
+  ON rubrics FOR UPDATE
+  TO authenticated
+  USING (teacher_id = auth.uid())
+  WITH CHECK (teacher_id = auth.uid());
+
+CREATE POLICY "Teachers can delete own rubrics"
+  ON rubrics FOR DELETE
+  TO authenticated
+  USING (teacher_id = auth.uid());
+
+-- Attach rubrics to assignments
+ALTER TABLE assignments
+  ADD COLUMN IF NOT EXISTS rubric_id uuid REFERENCES rubrics(id) ON DELETE SET NULL;
+
+-- Create rubric_assessments table
+CREATE TABLE IF NOT EXISTS rubric_assessments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  submission_id uuid NOT NULL UNIQUE REFERENCES submissions(id) ON DELETE CASCADE,
+  rubric_id uuid REFERENCES rubrics(id) ON DELETE SET NULL,
+  criteria jsonb NOT NULL DEFAULT '[]'::jsonb,
+  scores jsonb NOT NULL DEFAULT '[]'::jsonb,
+  total_points numeric NOT NULL DEFAULT 0,
+  max_points numeric NOT NULL DEFAULT 0,
+  graded_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE rubric_assessments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Teachers can view rubric assessments for their assignments"
+  ON rubric_assessments FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM submissions s
+      JOIN assignments a ON a.id = s.assignment_id
+      WHERE s.id = rubric_assessments.submission_id
+      AND a.teacher_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Teachers can create rubric assessments for their assignments"
+  ON rubric_assessments FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    graded_by = auth.uid() AND
+    EXISTS (
+      SELECT 1 FROM submissions s
+      JOIN assignments a ON a.id = s.assignment_id
+      WHERE s.id = rubric_assessments.submission_id
+      AND a.teacher_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Teachers can update rubric assessments for their assignments"
+  ON rubric_assessments FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM submissions s
+      JOIN assignments a ON a.id = s.assignment_id
+      WHERE s.id = rubric_assessments.submission_id
+      AND a.teacher_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    graded_by = auth.uid() AND
+    EXISTS (
+      SELECT 1 FROM submissions s
+      JOIN assignments a ON a.id = s.assignment_id
+      WHERE s.id = rubric_assessments.submission_id
+      AND a.teacher_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Students can view rubric assessments of own graded submissions"
+  ON rubric_assessments FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM submissions
+      WHERE submissions.id = rubric_assessments.submission_id
+      AND submissions.student_id = auth.uid()
+      AND submissions.status = 'graded'
+    )
+  );
+
+-- Create indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_rubrics_teacher ON rubrics(teacher_id);
+CREATE INDEX IF NOT EXISTS idx_assignments_rubric ON assignments(rubric_id);
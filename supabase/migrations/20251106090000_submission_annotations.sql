@@ -0,0 +1,123 @@
+/*
+  # Submission Annotations
+
+  ## Overview
+  Feedback used to be one block of text. Teachers can now select a passage of a submission's
+  typed answer and attach a comment to it, like comments in a word processor, and optionally
+  point the comment at a passage the plagiarism check matched. Students see the annotated
+  answer, with the comments beside it, once their submission is graded.
+
+  ## 1. New Tables
+
+  ### `submission_annotations`
+  - `id` (uuid, primary key) - Annotation identifier
+  - `submission_id` (uuid) - References submissions(id); the annotated submission
+  - `author_id` (uuid) - References profiles(id); the teacher who wrote the comment
+  - `start_index` (integer) - Character offset in the submission's content where the passage starts
+  - `end_index` (integer) - Character offset where the passage ends (exclusive)
+  - `quote` (text) - The annotated passage as it read when the comment was written
+  - `comment` (text) - The comment
+  - `plagiarism_report_id` (uuid) - References plagiarism_reports(id); the report of a referenced
+    plagiarism match, if any
+  - `matched_segment` (jsonb) - The referenced matched passage, as recorded in that report
+  - `created_at` (timestamptz) - When the comment was written
+  - `updated_at` (timestamptz) - When the comment was last edited
+
+  ## 2. Security
+  - Teachers can view and manage annotations on submissions to their own assignments
+  - Students can view the annotations on their own submission once it is graded
+
+  ## 3. Notes
+  - Offsets index the content string, not the rendered page; `quote` lets the app find the
+    passage again if the content changes after annotating
+*/
+
+-- Create submission_annotations table
+CREATE TABLE IF NOT EXISTS submission_annotations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  submission_id uuid NOT NULL REFERENCES submissions(id) ON DELETE CASCADE,
+  author_id uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  start_index integer NOT NULL CHECK (start_index >= 0),
+  end_index integer NOT NULL,
+  quote text NOT NULL,
+  comment text NOT NULL,
+  plagiarism_report_id uuid REFERENCES plagiarism_reports(id) ON DELETE SET NULL,
+  matched_segment jsonb,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CONSTRAINT submission_annotations_range CHECK (end_index > start_index)
+);
+
+ALTER TABLE submission_annotations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Teachers can view annotations for their assignments"
+  ON submission_annotations FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM submissions s
+      JOIN assignments a ON a.id = s.assignment_id
+      WHERE s.id = submission_annotations.submission_id
+      AND a.teacher_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Teachers can create annotations for their assignments"
+  ON submission_annotations FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    author_id = auth.uid() AND
+    EXISTS (
+      SELECT 1 FROM submissions s
+      JOIN assignments a ON a.id = s.assignment_id
+      WHERE s.id = submission_annotations.submission_id
+      AND a.teacher_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Teachers can update annotations for their assignments"
+  ON submission_annotations FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM submissions s
+      JOIN assignments a ON a.id = s.assignment_id
+      WHERE s.id = submission_annotations.submission_id
+      AND a.teacher_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM submissions s
+      JOIN assignments a ON a.id = s.assignment_id
+      WHERE s.id = submission_annotations.submission_id
+      AND a.teacher_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Teachers can delete annotations for their assignments"
+  ON submission_annotations FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM submissions s
+      JOIN assignments a ON a.id = s.assignment_id
+      WHERE s.id = submission_annotations.submission_id
+      AND a.teacher_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Students can view annotations on own graded submissions"
+  ON submission_annotations FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM submissions
+      WHERE submissions.id = submission_annotations.submission_id
+      AND submissions.student_id = auth.uid()
+      AND submissions.status = 'graded'
+    )
+  );
+
+-- Create indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_submission_annotations_submission ON submission_annotations(submission_id);
@@ -0,0 +1,188 @@
+/*
+  # Late Submission Policy
+
+  ## Overview
+  Work could be turned in long after the due date with nothing recorded beyond a red card on the
+  student dashboard. Every assignment now has a late policy: accept late work, accept it with a
+  percentage penalty per day or hour late, or close at the due date. A grace period and a maximum
+  lateness can be set on top. The database enforces the policy when work is turned in, records
+  how late it was, and the penalty is applied to the score shown to teachers and students.
+
+  ## 1. Modified Tables
+
+  ### `assignments`
+  - `late_policy` (text) - 'accept' (default; late work is marked late but not penalized),
+    'penalty' or 'close'
+  - `late_penalty_percent` (numeric) - Percent of the score lost per started day or hour late
+  - `late_penalty_unit` (text) - 'day' (default) or 'hour'
+  - `late_grace_minutes` (integer) - Minutes after the due date in which work is not late
+  - `late_max_minutes` (integer) - How late work may be and still be accepted; null for no limit
+
+  ### `submissions`
+  - `is_late` (boolean) - Whether the work was turned in after the due date and grace period
+  - `late_minutes` (integer) - How many minutes after the due date it was turned in
+  - `late_penalty_percent` (numeric) - Percent taken off the score, fixed when the work is turned in
+
+  ## 2. New Functions
+  - `assess_lateness(target_assignment_id, turned_in_at)` - Lateness and penalty of work turned
+    in at a time; raises when the assignment no longer accepts it
+
+  ## 3. Security
+  - Students cannot set their own lateness or submission time: when a student turns work in or
+    changes submitted work, `submitted_at` is set to the server's clock and lateness is assessed
+  - Turning in work or attaching files to submitted work fails once the assignment is closed
+
+  ## 4. Notes
+  - The grace period only decides whether work is late; lateness and the penalty count from the
+    due date
+  - `score` stays the grade the teacher gave; the final score is the score less the penalty
+  - Existing submissions are not reassessed
+*/
+
+ALTER TABLE assignments
+  ADD COLUMN IF NOT EXISTS late_policy text NOT NULL DEFAULT 'accept'
+    CHECK (late_policy IN ('accept', 'penalty', 'close'));
+
+ALTER TABLE assignments
+  ADD COLUMN IF NOT EXISTS late_penalty_percent numeric NOT NULL DEFAULT 0
+    CHECK (late_penalty_percent >= 0 AND late_penalty_percent <= 100);
+
+ALTER TABLE assignments
+  ADD COLUMN IF NOT EXISTS late_penalty_unit text NOT NULL DEFAULT 'day'
+    CHECK (late_penalty_unit IN ('day', 'hour'));
+
+ALTER TABLE assignments
+  ADD COLUMN IF NOT EXISTS late_grace_minutes integer NOT NULL DEFAULT 0
+    CHECK (late_grace_minutes >= 0);
+
+ALTER TABLE assignments
+  ADD COLUMN IF NOT EXISTS late_max_minutes integer
+    CHECK (late_max_minutes > 0);
+
+ALTER TABLE submissions
+  ADD COLUMN IF NOT EXISTS is_late boolean NOT NULL DEFAULT false;
+
+ALTER TABLE submissions
+  ADD COLUMN IF NOT EXISTS late_minutes integer NOT NULL DEFAULT 0;
+
+ALTER TABLE submissions
+  ADD COLUMN IF NOT EXISTS late_penalty_percent numeric NOT NULL DEFAULT 0;
+
+-- Lateness of work turned in at a given time, under its assignment's late policy
+CREATE OR REPLACE FUNCTION assess_lateness(
+  target_assignment_id uuid,
+  turned_in_at timestamptz,
+  OUT late_minutes integer,
+  OUT penalty_percent numeric
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target assignments;
+BEGIN
+  late_minutes := 0;
+  penalty_percent := 0;
+
+  SELECT * INTO target FROM assignments WHERE id = target_assignment_id;
+
+  IF target.id IS NULL OR turned_in_at <= target.due_date + make_interval(mins => target.late_grace_minutes) THEN
+    RETURN;
+  END IF;
+
+  late_minutes := ceil(extract(epoch FROM turned_in_at - target.due_date) / 60);
+
+  IF target.late_policy = 'close' OR late_minutes > target.late_max_minutes THEN
+    RAISE EXCEPTION 'Submissions for this assignment are closed'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF target.late_policy = 'penalty' THEN
+    penalty_percent := LEAST(
+      100,
+      target.late_penalty_percent *
+        ceil(late_minutes / CASE target.late_penalty_unit WHEN 'hour' THEN 60.0 ELSE 1440.0 END)
+    );
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION assess_lateness(uuid, timestamptz) FROM PUBLIC, anon, authenticated;
+
+-- Assess lateness when a student turns work in or changes submitted work; students cannot set it themselves
+CREATE OR REPLACE FUNCTION apply_late_policy()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  lateness record;
+BEGIN
+  -- current_user is the function owner here, so the caller is taken from the request; writes made
+  -- by other triggers (such as a file upload turning work in again) set lateness themselves
+  IF auth.role() = 'authenticated' AND auth.uid() = NEW.student_id AND pg_trigger_depth() = 1 THEN
+    IF NEW.status = 'submitted' AND (
+      TG_OP = 'INSERT' OR
+      OLD.status IS DISTINCT FROM 'submitted' OR
+      NEW.content IS DISTINCT FROM OLD.content
+    ) THEN
+      NEW.submitted_at := now();
+      SELECT * INTO lateness FROM assess_lateness(NEW.assignment_id, NEW.submitted_at);
+      NEW.is_late := lateness.late_minutes > 0;
+      NEW.late_minutes := lateness.late_minutes;
+      NEW.late_penalty_percent := lateness.penalty_percent;
+    ELSIF TG_OP = 'INSERT' THEN
+      NEW.is_late := false;
+      NEW.late_minutes := 0;
+      NEW.late_penalty_percent := 0;
+    ELSE
+      NEW.is_late := OLD.is_late;
+      NEW.late_minutes := OLD.late_minutes;
+      NEW.late_penalty_percent := OLD.late_penalty_percent;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER apply_late_policy
+  BEFORE INSERT OR UPDATE ON submissions
+  FOR EACH ROW
+  EXECUTE FUNCTION apply_late_policy();
+
+-- Attaching a file to submitted work turns it in again
+CREATE OR REPLACE FUNCTION apply_late_policy_on_file_upload()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target submissions;
+  lateness record;
+BEGIN
+  SELECT * INTO target FROM submissions WHERE id = NEW.submission_id;
+
+  IF target.status = 'submitted' AND auth.uid() = target.student_id THEN
+    SELECT * INTO lateness FROM assess_lateness(target.assignment_id, now());
+
+    UPDATE submissions
+    SET submitted_at = now(),
+        is_late = lateness.late_minutes > 0,
+        late_minutes = lateness.late_minutes,
+        late_penalty_percent = lateness.penalty_percent
+    WHERE id = target.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER apply_late_policy_on_file_upload
+  BEFORE INSERT ON submission_files
+  FOR EACH ROW
+  EXECUTE FUNCTION apply_late_policy_on_file_upload();
@@ -0,0 +1,398 @@
+/*
+  # Deadline Extensions and Accommodations
+
+  ## Overview
+  Every student had the same due date for an assignment. Teachers can now give one student an
+  extension on one assignment, and give a student a standing accommodation, such as 48 extra
+  hours on every deadline in a course. Each student's effective due date is the later of the
+  extension and the accommodated due date, and the late policy is applied against it.
+
+  ## 1. New Tables
+
+  ### `deadline_extensions`
+  - `id` (uuid, primary key) - Extension identifier
+  - `assignment_id` (uuid) - References assignments(id)
+  - `student_id` (uuid) - References profiles(id); the student given more time
+  - `due_date` (timestamptz) - The student's due date for the assignment
+  - `reason` (text) - Why the extension was given
+  - `granted_by` (uuid) - References profiles(id); the teacher who gave it
+  - `created_at` (timestamptz) - When the extension was given
+  - Unique constraint on (assignment_id, student_id)
+
+  ### `accommodations`
+  - `id` (uuid, primary key) - Accommodation identifier
+  - `course_id` (uuid) - References courses(id)
+  - `student_id` (uuid) - References profiles(id); the accommodated student
+  - `extra_minutes` (integer) - Time added to every due date in the course
+  - `note` (text) - The documented need, for the teacher's records
+  - `granted_by` (uuid) - References profiles(id); the teacher who recorded it
+  - `created_at` (timestamptz) - When the accommodation was recorded
+  - `updated_at` (timestamptz) - When it was last changed
+  - Unique constraint on (course_id, student_id)
+
+  ## 2. New Functions
+  - `effective_due_date(target_assignment_id, target_student_id)` - A student's due date for an
+    assignment, with their extension and accommodation applied
+  - `assess_lateness(target_assignment_id, target_student_id, turned_in_at)` - Replaces the
+    two-argument version; measures lateness from the student's effective due date and reports
+    whether the assignment is closed to them instead of raising
+  - `reassess_lateness(target_student_id, target_course_id)` - Recomputes the recorded lateness
+    of a student's turned-in work in a course
+
+  ## 3. Security
+  - Teachers can view and manage extensions for their own assignments and accommodations in
+    their own courses
+  - Students can view their own extensions and accommodations
+
+  ## 4. Notes
+  - Giving, changing or removing an extension or accommodation reassesses the lateness and
+    penalty of work the student already turned in, against the time it was turned in
+*/
+
+-- Create deadline_extensions table
+CREATE TABLE IF NOT EXISTS deadline_extensions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  assignment_id uuid NOT NULL REFERENCES assignments(id) ON DELETE CASCADE,
+  student_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  due_date timestamptz NOT NULL,
+  reason text NOT NULL DEFAULT '',
+  granted_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE(assignment_id, student_id)
+);
+
+-- Create accommodations table
+CREATE TABLE IF NOT EXISTS accommodations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  course_id uuid NOT NULL REFERENCES courses(id) ON DELETE CASCADE,
+  student_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  extra_minutes integer NOT NULL CHECK (extra_minutes > 0),
+  note text NOT NULL DEFAULT '',
+  granted_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE(course_id, student_id)
+);
+
+ALTER TABLE deadline_extensions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE accommodations ENABLE ROW LEVEL SECURITY;
+
+-- Deadline extensions policies
+CREATE POLICY "Teachers can view extensions for their assignments"
+  ON deadline_extensions FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM assignments
+      WHERE assignments.id = deadline_extensions.assignment_id
+      AND assignments.teacher_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Teachers can grant extensions for their assignments"
+  ON deadline_extensions FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    granted_by = auth.uid() AND
+    EXISTS (
+      SELECT 1 FROM assignments
+      WHERE assignments.id = deadline_extensions.assignment_id
+      AND assignments.teacher_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Teachers can update extensions for their assignments"
+  ON deadline_extensions FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM assignments
+      WHERE assignments.id = deadline_extensions.assignment_id
+      AND assignments.teacher_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM assignments
+      WHERE assignments.id = deadline_extensions.assignment_id
+      AND assignments.teacher_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Teachers can revoke extensions for their assignments"
+  ON deadline_extensions FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM assignments
+      WHERE assignments.id = deadline_extensions.assignment_id
+      AND assignments.teacher_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Students can view own extensions"
+  ON deadline_extensions FOR SELECT
+  TO authenticated
+  USING (auth.uid() = student_id);
+
+-- Accommodations policies
+CREATE POLICY "Teachers can view accommodations in their courses"
+  ON accommodations FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM courses
+      WHERE courses.id = accommodations.course_id
+      AND courses.teacher_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Teachers can record accommodations in their courses"
+  ON accommodations FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    granted_by = auth.uid() AND
+    EXISTS (
+      SELECT 1 FROM courses
+      WHERE courses.id = accommodations.course_id
+      AND courses.teacher_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Teachers can update accommodations in their courses"
+  ON accommodations FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM courses
+      WHERE courses.id = accommodations.course_id
+      AND courses.teacher_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM courses
+      WHERE courses.id = accommodations.course_id
+      AND courses.teacher_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Teachers can remove accommodations in their courses"
+  ON accommodations FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM courses
+      WHERE courses.id = accommodations.course_id
+      AND courses.teacher_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Students can view own accommodations"
+  ON accommodations FOR SELECT
+  TO authenticated
+  USING (auth.uid() = student_id);
+
+-- A student's due date: the later of their extension and the accommodated due date
+CREATE OR REPLACE FUNCTION effective_due_date(target_assignment_id uuid, target_student_id uuid)
+RETURNS timestamptz
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT GREATEST(
+    a.due_date + make_interval(mins => COALESCE(acc.extra_minutes, 0)),
+    e.due_date
+  )
+  FROM assignments a
+  LEFT JOIN accommodations acc ON acc.course_id = a.course_id AND acc.student_id = target_student_id
+  LEFT JOIN deadline_extensions e ON e.assignment_id = a.id AND e.student_id = target_student_id
+  WHERE a.id = target_assignment_id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION effective_due_date(uuid, uuid) FROM PUBLIC, anon, authenticated;
+
+-- Lateness is now measured from the student's own due date
+CREATE OR REPLACE FUNCTION assess_lateness(
+  target_assignment_id uuid,
+  target_student_id uuid,
+  turned_in_at timestamptz,
+  OUT late_minutes integer,
+  OUT penalty_percent numeric,
+  OUT closed boolean
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target assignments;
+  due timestamptz;
+BEGIN
+  late_minutes := 0;
+  penalty_percent := 0;
+  closed := false;
+
+  SELECT * INTO target FROM assignments WHERE id = target_assignment_id;
+  due := effective_due_date(target_assignment_id, target_student_id);
+
+  IF target.id IS NULL OR turned_in_at <= due + make_interval(mins => target.late_grace_minutes) THEN
+    RETURN;
+  END IF;
+
+  late_minutes := ceil(extract(epoch FROM turned_in_at - due) / 60);
+  closed := target.late_policy = 'close' OR COALESCE(late_minutes > target.late_max_minutes, false);
+
+  IF target.late_policy = 'penalty' THEN
+    penalty_percent := LEAST(
+      100,
+      target.late_penalty_percent *
+        ceil(late_minutes / CASE target.late_penalty_unit WHEN 'hour' THEN 60.0 ELSE 1440.0 END)
+    );
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION assess_lateness(uuid, uuid, timestamptz) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION apply_late_policy()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  lateness record;
+BEGIN
+  -- current_user is the function owner here, so the caller is taken from the request; writes made
+  -- by other triggers (such as a file upload turning work in again) set lateness themselves
+  IF auth.role() = 'authenticated' AND auth.uid() = NEW.student_id AND pg_trigger_depth() = 1 THEN
+    IF NEW.status = 'submitted' AND (
+      TG_OP = 'INSERT' OR
+      OLD.status IS DISTINCT FROM 'submitted' OR
+      NEW.content IS DISTINCT FROM OLD.content
+    ) THEN
+      NEW.submitted_at := now();
+      SELECT * INTO lateness FROM assess_lateness(NEW.assignment_id, NEW.student_id, NEW.submitted_at);
+
+      IF lateness.closed THEN
+        RAISE EXCEPTION 'Submissions for this assignment are closed'
+          USING ERRCODE = 'check_violation';
+      END IF;
+
+      NEW.is_late := lateness.late_minutes > 0;
+      NEW.late_minutes := lateness.late_minutes;
+      NEW.late_penalty_percent := lateness.penalty_percent;
+    ELSIF TG_OP = 'INSERT' THEN
+      NEW.is_late := false;
+      NEW.late_minutes := 0;
+      NEW.late_penalty_percent := 0;
+    ELSE
+      NEW.is_late := OLD.is_late;
+      NEW.late_minutes := OLD.late_minutes;
+      NEW.late_penalty_percent := OLD.late_penalty_percent;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION apply_late_policy_on_file_upload()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target submissions;
+  lateness record;
+BEGIN
+  SELECT * INTO target FROM submissions WHERE id = NEW.submission_id;
+
+  IF target.status = 'submitted' AND auth.uid() = target.student_id THEN
+    SELECT * INTO lateness FROM assess_lateness(target.assignment_id, target.student_id, now());
+
+    IF lateness.closed THEN
+      RAISE EXCEPTION 'Submissions for this assignment are closed'
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    UPDATE submissions
+    SET submitted_at = now(),
+        is_late = lateness.late_minutes > 0,
+        late_minutes = lateness.late_minutes,
+        late_penalty_percent = lateness.penalty_percent
+    WHERE id = target.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS assess_lateness(uuid, timestamptz);
+
+-- Recompute the lateness of a student's turned-in work after their deadlines change
+CREATE OR REPLACE FUNCTION reassess_lateness(target_student_id uuid, target_course_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE submissions s
+  SET (is_late, late_minutes, late_penalty_percent) = (
+    SELECT l.late_minutes > 0, l.late_minutes, l.penalty_percent
+    FROM assess_lateness(s.assignment_id, s.student_id, s.submitted_at) l
+  )
+  WHERE s.student_id = target_student_id
+  AND s.assignment_id IN (SELECT id FROM assignments WHERE course_id = target_course_id)
+  AND s.status IN ('submitted', 'graded')
+  AND s.submitted_at IS NOT NULL;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION reassess_lateness(uuid, uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION reassess_lateness_on_deadline_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  changed record;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    changed := OLD;
+  ELSE
+    changed := NEW;
+  END IF;
+
+  IF TG_TABLE_NAME = 'accommodations' THEN
+    PERFORM reassess_lateness(changed.student_id, changed.course_id);
+  ELSE
+    PERFORM reassess_lateness(changed.student_id, a.course_id)
+    FROM assignments a
+    WHERE a.id = changed.assignment_id;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER reassess_lateness_on_extension_change
+  AFTER INSERT OR UPDATE OR DELETE ON deadline_extensions
+  FOR EACH ROW
+  EXECUTE FUNCTION reassess_lateness_on_deadline_change();
+
+CREATE TRIGGER reassess_lateness_on_accommodation_change
+  AFTER INSERT OR UPDATE OR DELETE ON accommodations
+  FOR EACH ROW
+  EXECUTE FUNCTION reassess_lateness_on_deadline_change();
+
+-- Create indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_deadline_extensions_student ON deadline_extensions(student_id);
+CREATE INDEX IF NOT EXISTS idx_accommodations_student ON accommodations(student_id);
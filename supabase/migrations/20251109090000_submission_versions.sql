@@ -0,0 +1,102 @@
+/*
+  # Submission Version History
+
+  ## Overview
+  Saving a submission overwrote its content in place, so every draft save destroyed the text
+  before it. Each save and submit now also appends the content to `submission_versions`.
+  Students can look back at and restore earlier drafts, and teachers can compare versions,
+  for example to spot a large block of text pasted in just before the due date.
+
+  ## 1. New Tables
+
+  ### `submission_versions`
+  - `id` (uuid, primary key) - Version identifier
+  - `submission_id` (uuid) - References submissions(id)
+  - `version_number` (integer) - 1 for the first save, counting up per submission
+  - `content` (text) - The submission's content as saved
+  - `status` (text) - 'draft' or 'submitted'; whether this save turned the work in
+  - `created_at` (timestamptz) - When it was saved
+  - Unique constraint on (submission_id, version_number)
+
+  ## 2. Security
+  - Versions are written only by a trigger on `submissions` and are never updated or deleted,
+    short of deleting the submission
+  - Students can view the versions of their own submissions
+  - Teachers can view the versions of submissions to their assignments
+
+  ## 3. Notes
+  - A save that changes neither the content nor the status adds no version
+  - Grading does not add a version
+  - Existing submissions get their current content as version 1
+*/
+
+-- Create submission_versions table
+CREATE TABLE IF NOT EXISTS submission_versions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  submission_id uuid NOT NULL REFERENCES submissions(id) ON DELETE CASCADE,
+  version_number integer NOT NULL,
+  content text NOT NULL DEFAULT '',
+  status text NOT NULL CHECK (status IN ('draft', 'submitted')),
+  created_at timestamptz DEFAULT now(),
+  UNIQUE(submission_id, version_number)
+);
+
+ALTER TABLE submission_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Students can view versions of own submissions"
+  ON submission_versions FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM submissions
+      WHERE submissions.id = submission_versions.submission_id
+      AND submissions.student_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Teachers can view versions of submissions to their assignments"
+  ON submission_versions FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM submissions s
+      JOIN assignments a ON a.id = s.assignment_id
+      WHERE s.id = submission_versions.submission_id
+      AND a.teacher_id = auth.uid()
+    )
+  );
+
+-- Append a version whenever a student's save changes the content or turns the work in
+CREATE OR REPLACE FUNCTION record_submission_version()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IN ('draft', 'submitted') AND (
+    TG_OP = 'INSERT' OR
+    NEW.content IS DISTINCT FROM OLD.content OR
+    NEW.status IS DISTINCT FROM OLD.status
+  ) THEN
+    INSERT INTO submission_versions (submission_id, version_number, content, status)
+    SELECT NEW.id, COALESCE(MAX(version_number), 0) + 1, NEW.content, NEW.status
+    FROM submission_versions
+    WHERE submission_id = NEW.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_submission_version
+  AFTER INSERT OR UPDATE OF content, status ON submissions
+  FOR EACH ROW
+  EXECUTE FUNCTION record_submission_version();
+
+-- Start the history of existing submissions with their current content
+INSERT INTO submission_versions (submission_id, version_number, content, status, created_at)
+SELECT id, 1, content, CASE WHEN status = 'draft' THEN 'draft' ELSE 'submitted' END,
+  COALESCE(submitted_at, updated_at, created_at)
+FROM submissions
+ON CONFLICT (submission_id, version_number) DO NOTHING;
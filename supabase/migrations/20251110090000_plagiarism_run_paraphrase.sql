@@ -0,0 +1,31 @@
+/*
+  # Paraphrase Share of Plagiarism Runs
+
+  ## Overview
+  A run stored how much of the submission matched verbatim across all sources, but not how much
+  was likely paraphrased, so the report fell back to the highest score of any single source.
+  Runs now also store the share of the submission likely paraphrased from any source.
+
+  ## 1. Modified Tables
+
+  ### `plagiarism_runs`
+  - `paraphrase_overlap` (numeric) - Share of the submission likely paraphrased from any source,
+    not counting text that also matched verbatim
+
+  ## 2. Data
+  - Existing runs take the highest paraphrase score of their reports, which is as much as can be
+    recovered without re-running them
+*/
+
+ALTER TABLE plagiarism_runs
+  ADD COLUMN IF NOT EXISTS paraphrase_overlap numeric NOT NULL DEFAULT 0;
+
+UPDATE plagiarism_runs r
+SET paraphrase_overlap = scores.paraphrase_overlap
+FROM (
+  SELECT run_id, MAX(paraphrase_score) AS paraphrase_overlap
+  FROM plagiarism_reports
+  WHERE run_id IS NOT NULL
+  GROUP BY run_id
+) scores
+WHERE scores.run_id = r.id;
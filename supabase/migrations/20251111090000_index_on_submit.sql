@@ -0,0 +1,80 @@
+/*
+  # Fingerprint Indexing on Submit
+
+  ## Overview
+  Submitted work was only fingerprinted when a plagiarism check first needed it, so the first
+  check of an assignment indexed every submission at once. Turning work in now also queues an
+  indexing job, and the `plagiarism-worker` edge function fingerprints the work with its
+  assignment's settings as soon as it arrives.
+
+  ## 1. Modified Tables
+
+  ### `plagiarism_jobs`
+  - `kind` (text) - 'check' (default) to run a plagiarism check, or 'index' to build the
+    submission's fingerprint index
+  - A submission can now have one queued job of each kind
+
+  ## 2. Modified Functions
+  - `queue_plagiarism_check(target_submission_id)` - Also queues indexing of the submission
+
+  ## 3. Data
+  - Submitted work that has not been indexed yet is queued for indexing
+
+  ## 4. Notes
+  - Indexing jobs do not change a submission's plagiarism status
+  - Checks still index work that is missing from the index or was indexed with other settings
+*/
+
+ALTER TABLE plagiarism_jobs
+  ADD COLUMN IF NOT EXISTS kind text NOT NULL DEFAULT 'check' CHECK (kind IN ('check', 'index'));
+
+-- Replaced below by one allowing a queued job of each kind
+DROP INDEX IF EXISTS idx_plagiarism_jobs_queued;
+
+-- Queue indexing and a check of one submission, and a re-check of its assignment's other submitted work
+CREATE OR REPLACE FUNCTION queue_plagiarism_check(target_submission_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target_assignment_id uuid;
+BEGIN
+  SELECT assignment_id INTO target_assignment_id
+  FROM submissions
+  WHERE id = target_submission_id;
+
+  INSERT INTO plagiarism_jobs (submission_id, reason, kind)
+  VALUES (target_submission_id, 'submitted', 'index')
+  ON CONFLICT (submission_id, kind) WHERE status = 'queued' DO NOTHING;
+
+  INSERT INTO plagiarism_jobs (submission_id, reason)
+  SELECT s.id, CASE WHEN s.id = target_submission_id THEN 'submitted' ELSE 'recheck' END
+  FROM submissions s
+  WHERE s.assignment_id = target_assignment_id
+  AND (s.id = target_submission_id OR s.status IN ('submitted', 'graded'))
+  ON CONFLICT (submission_id, kind) WHERE status = 'queued' DO NOTHING;
+
+  UPDATE submissions
+  SET plagiarism_status = 'queued'
+  WHERE assignment_id = target_assignment_id
+  AND (id = target_submission_id OR status IN ('submitted', 'graded'))
+  AND plagiarism_status <> 'queued';
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION queue_plagiarism_check(uuid) FROM PUBLIC, anon, authenticated;
+
+-- Index submitted work that was waiting for its first check
+INSERT INTO plagiarism_jobs (submission_id, reason, kind)
+SELECT s.id, 'submitted', 'index'
+FROM submissions s
+WHERE s.status IN ('submitted', 'graded')
+AND NOT EXISTS (
+  SELECT 1 FROM submission_fingerprint_state state
+  WHERE state.submission_id = s.id
+);
+
+-- Create indexes for better query performance
+CREATE UNIQUE INDEX IF NOT EXISTS idx_plagiarism_jobs_queued ON plagiarism_jobs(submission_id, kind) WHERE status = 'queued';